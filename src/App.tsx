@@ -1,6 +1,5 @@
 import { useEffect } from "react"
 import { Routes, Route, useNavigate } from "react-router-dom"
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
 
 import { Toaster } from "@/components/ui/toaster"
 import { Toaster as Sonner } from "@/components/ui/sonner"
@@ -8,6 +7,7 @@ import { TooltipProvider } from "@/components/ui/tooltip"
 
 import ScrollToTop from "@/components/ScrollToTop"
 import Footer from "@/components/Footer"
+import { useConsultationQueue } from "@/hooks/use-consultation-queue"
 
 import Home from "./pages/Home"
 import Catalog from "./pages/Catalog"
@@ -16,50 +16,54 @@ import Admin from "./pages/Admin"
 import NotFound from "./pages/NotFound"
 import About from "./pages/About"
 import ProductDetail from "./pages/ProductDetail"
-
-const queryClient = new QueryClient()
+import SharedCart from "./pages/SharedCart"
+import ConsultationHistory from "./pages/ConsultationHistory"
 
 const App = () => {
   const navigate = useNavigate()
 
+  useConsultationQueue()
+
   useEffect(() => {
+    // get() ya decodifica lo que codificó public/404.html (ruta + query + hash)
     const params = new URLSearchParams(window.location.search)
     const redirect = params.get("redirect")
 
-    if (redirect) {
+    // Solo rutas internas: "//otro-sitio" sería una URL externa
+    if (redirect?.startsWith("/") && !redirect.startsWith("//")) {
       navigate(redirect, { replace: true })
     }
   }, [navigate])
 
   return (
-    <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
+    <TooltipProvider>
+      <Toaster />
+      <Sonner />
 
-        {/* Reset de scroll en navegación */}
-        <ScrollToTop />
+      {/* Reset de scroll en navegación */}
+      <ScrollToTop />
 
-        {/* 👇 LAYOUT GLOBAL CORRECTO */}
-        <div className="min-h-screen flex flex-col bg-background">
-          {/* Contenido principal */}
-          <div className="flex-1">
-            <Routes>
-              <Route path="/" element={<Home />} />
-              <Route path="/catalogo" element={<Catalog />} />
-              <Route path="/producto/:id" element={<ProductDetail />} />
-              <Route path="/nosotros" element={<About />} />
-              <Route path="/login" element={<Login />} />
-              <Route path="/admin" element={<Admin />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </div>
-
-          {/* Footer siempre abajo */}
-          <Footer />
+      {/* 👇 LAYOUT GLOBAL CORRECTO */}
+      <div className="min-h-screen flex flex-col bg-background">
+        {/* Contenido principal */}
+        <div className="flex-1">
+          <Routes>
+            <Route path="/" element={<Home />} />
+            <Route path="/catalogo" element={<Catalog />} />
+            <Route path="/producto/:id" element={<ProductDetail />} />
+            <Route path="/carrito" element={<SharedCart />} />
+            <Route path="/mis-consultas" element={<ConsultationHistory />} />
+            <Route path="/nosotros" element={<About />} />
+            <Route path="/login" element={<Login />} />
+            <Route path="/admin" element={<Admin />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
         </div>
-      </TooltipProvider>
-    </QueryClientProvider>
+
+        {/* Footer siempre abajo */}
+        <Footer />
+      </div>
+    </TooltipProvider>
   )
 }
 
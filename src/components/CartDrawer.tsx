@@ -1,9 +1,29 @@
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
-import { Trash2, MessageCircle, ShoppingBag, Loader2, Package, CheckCircle2 } from "lucide-react";
+import { Trash2, MessageCircle, ShoppingBag, Loader2, Package, CheckCircle2, AlertTriangle, Share2, StickyNote, ChevronDown, UserRound, History } from "lucide-react";
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
-import { useCart } from "@/context/CartContext";
+import { Link } from "react-router-dom";
+import { useForm, UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useCart, CartItemStatus } from "@/context/CartContext";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import {
   Sheet,
   SheetContent,
@@ -20,9 +40,29 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import QuantityStepper from "@/components/QuantityStepper";
+import { PriceTag } from "@/components/PriceTag";
 import { useToast } from "@/hooks/use-toast";
-import { createConsultation } from "@/services/consultations.service";
-import { WHATSAPP_NUMBER } from "@/config/api";
+import {
+  createConsultation,
+  ConsultationItemPayload,
+} from "@/services/consultations.service";
+import { WHATSAPP_NUMBER, getErrorMessage, isAbortError } from "@/config/api";
+import { getMaxQuantity } from "@/lib/cart";
+import { buildShareUrl } from "@/lib/cart-share";
+import { estimateSubtotal, formatSubtotal, getLinePrice, SubtotalEstimate } from "@/lib/price";
+import { buildConsultationMessage, buildWhatsAppUrl } from "@/lib/whatsapp-message";
+import { enqueueConsultation, isRetryableConsultationError } from "@/lib/consultation-queue";
+import { addToHistory } from "@/lib/consultation-history";
+import { useConsultationHistory } from "@/hooks/use-consultation-history";
+import {
+  compactContact,
+  contactSchema,
+  ContactFormValues,
+  DELIVERY_LABELS,
+  MAX_NOTE_LENGTH,
+} from "@/lib/consultation";
+import { CartItem } from "@/types/cart";
 
 /* ================================
    TYPES & INTERFACES
@@ -32,24 +72,6 @@ interface CartDrawerProps {
   onClose: () => void;
 }
 
-interface CartItem {
-  id: string;
-  name: string;
-  image?: string;
-  category?: string;
-  quantity?: number;
-}
-
-interface ConsultationItem {
-  productId: string;
-  qty: number;
-}
-
-interface ApiError extends Error {
-  status?: number;
-  code?: string;
-}
-
 /* ================================
    CONSTANTS
 ================================= */
@@ -58,25 +80,16 @@ const CLEAR_CART_DELAY = 500;
 const ANIMATION_DURATION = 0.2;
 const ITEM_ANIMATION_DELAY = 0.05;
 
+const UNAVAILABLE_LABELS: Partial<Record<CartItemStatus, string>> = {
+  out_of_stock: "Sin stock",
+  not_found: "Ya no disponible",
+};
+
 /* ================================
    HELPERS & UTILITIES
 ================================= */
-const isApiError = (error: unknown): error is ApiError => {
-  return error instanceof Error;
-};
-
 const extractErrorMessage = (error: unknown): string => {
-  if (isApiError(error)) {
-    return error.message || "No se pudo enviar la consulta";
-  }
-  if (typeof error === "string") {
-    return error;
-  }
-  return "Error desconocido";
-};
-
-const formatPhoneNumber = (phone: string): string => {
-  return phone.replace(/\D/g, "");
+  return getErrorMessage(error, "No se pudo enviar la consulta");
 };
 
 const isIOSDevice = (): boolean => {
@@ -100,6 +113,17 @@ const openWhatsApp = (url: string): void => {
   }
 };
 
+/** Web Share API en mobile; en desktop copia el link al portapapeles */
+const shareLink = async (url: string): Promise<"shared" | "copied"> => {
+  if (typeof navigator.share === "function") {
+    await navigator.share({ title: "Mi consulta · JediCollector71", url });
+    return "shared";
+  }
+
+  await navigator.clipboard.writeText(url);
+  return "copied";
+};
+
 const getSafeAreaStyle = (): React.CSSProperties => {
   return {
     paddingTop: "env(safe-area-inset-top)",
@@ -138,7 +162,13 @@ const useScrollLock = (isLocked: boolean) => {
 /* ================================
    SUB-COMPONENTS
 ================================= */
-const CartHeader = ({ itemCount }: { itemCount: number }) => (
+const CartHeader = ({
+  itemCount,
+  lineCount,
+}: {
+  itemCount: number;
+  lineCount: number;
+}) => (
   <SheetHeader className="pb-5 border-b border-slate-700/50">
     <SheetTitle className="flex items-center justify-between gap-3">
       <div className="flex items-center gap-3">
@@ -150,9 +180,16 @@ const CartHeader = ({ itemCount }: { itemCount: number }) => (
         >
           <ShoppingBag className="w-5 h-5 text-violet-400" />
         </motion.div>
-        <span className="text-xl font-bold text-white">
-          Mi Consulta
-        </span>
+        <div className="flex flex-col items-start">
+          <span className="text-xl font-bold text-white">
+            Mi Consulta
+          </span>
+          {lineCount > 0 && (
+            <span className="text-xs font-normal text-slate-400">
+              {lineCount} {lineCount === 1 ? "producto" : "productos"}
+            </span>
+          )}
+        </div>
       </div>
       <motion.div
         key={itemCount}
@@ -160,8 +197,11 @@ const CartHeader = ({ itemCount }: { itemCount: number }) => (
         animate={{ scale: 1 }}
         transition={{ type: "spring", stiffness: 300, damping: 20 }}
       >
-        <Badge className="px-3 py-1 bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white border-0 font-semibold shadow-lg shadow-violet-500/25">
-          {itemCount}
+        <Badge
+          className="px-3 py-1 bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white border-0 font-semibold shadow-lg shadow-violet-500/25"
+          aria-label={`${itemCount} ${itemCount === 1 ? "unidad" : "unidades"}`}
+        >
+          {itemCount} {itemCount === 1 ? "unidad" : "unidades"}
         </Badge>
       </motion.div>
     </SheetTitle>
@@ -226,22 +266,36 @@ const CartItemCard = ({
   item,
   index,
   onRemove,
+  onQuantityChange,
+  onNoteChange,
+  status,
   reduceMotion,
 }: {
   item: CartItem;
   index: number;
   onRemove: (id: string, name: string) => void;
+  onQuantityChange: (id: string, quantity: number) => void;
+  onNoteChange: (id: string, note: string) => void;
+  status?: CartItemStatus;
   reduceMotion: boolean;
 }) => {
   const [isRemoving, setIsRemoving] = useState(false);
+  const [isNoteOpen, setIsNoteOpen] = useState(Boolean(item.note));
+  const maxQuantity = getMaxQuantity(item);
+  const isAtStockLimit = item.stockQty != null && item.quantity >= maxQuantity;
+  const unavailableLabel = status ? UNAVAILABLE_LABELS[status] : undefined;
+
+  // Items restaurados del storage no traen nombre hasta revalidar
+  const displayName =
+    item.name || (status === "not_found" ? "Producto eliminado" : "Cargando producto…");
 
   const handleRemove = useCallback(() => {
     setIsRemoving(true);
     // Dar feedback visual inmediato antes de ejecutar
     setTimeout(() => {
-      onRemove(item.id, item.name);
+      onRemove(item.id, displayName);
     }, 150);
-  }, [item.id, item.name, onRemove]);
+  }, [item.id, displayName, onRemove]);
 
   return (
     <motion.div
@@ -272,23 +326,82 @@ const CartItemCard = ({
       }
       className="group relative"
     >
-      <motion.div
-        whileTap={reduceMotion ? undefined : { scale: 0.98 }}
-        className="flex items-center gap-3.5 p-3.5 rounded-xl bg-slate-800/40 border border-slate-700/50 hover:bg-slate-800/70 hover:border-violet-500/30 hover:shadow-lg hover:shadow-violet-500/10 transition-all duration-300"
+      <div
+        className={`flex items-center gap-3.5 p-3.5 rounded-xl bg-slate-800/40 border hover:bg-slate-800/70 hover:shadow-lg transition-all duration-300 ${
+          unavailableLabel
+            ? "border-amber-500/40 hover:border-amber-500/60 hover:shadow-amber-500/10"
+            : "border-slate-700/50 hover:border-violet-500/30 hover:shadow-violet-500/10"
+        }`}
       >
-        <CartItemImage src={item.image} alt={item.name} />
+        <div className={unavailableLabel ? "opacity-50 grayscale" : undefined}>
+          <CartItemImage src={item.image} alt={displayName} />
+        </div>
 
         <div className="flex-1 min-w-0">
           <p className="font-semibold text-sm text-white line-clamp-2 leading-snug mb-1.5">
-            {item.name}
+            {displayName}
           </p>
-          {item.category && (
-            <Badge
-              variant="secondary"
-              className="text-xs bg-violet-500/15 text-violet-300 border-violet-500/25"
+          {item.name && <PriceTag product={item} size="sm" className="mb-1.5" />}
+          <div className="flex flex-wrap gap-1.5">
+            {item.category && (
+              <Badge
+                variant="secondary"
+                className="text-xs bg-violet-500/15 text-violet-300 border-violet-500/25"
+              >
+                {item.category}
+              </Badge>
+            )}
+            {unavailableLabel && (
+              <Badge className="text-xs bg-amber-500/15 text-amber-300 border-amber-500/30 hover:bg-amber-500/15">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {unavailableLabel}
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2.5 mt-2.5">
+            <QuantityStepper
+              value={item.quantity}
+              max={maxQuantity}
+              onChange={(qty) => onQuantityChange(item.id, qty)}
+              disabled={isRemoving || Boolean(unavailableLabel)}
+              label={`Cantidad de ${displayName}`}
+            />
+            <button
+              type="button"
+              onClick={() => setIsNoteOpen((open) => !open)}
+              className={`p-2 rounded-lg border transition-colors duration-200 touch-manipulation ${
+                isNoteOpen || item.note
+                  ? "bg-violet-500/15 border-violet-500/40 text-violet-300"
+                  : "bg-slate-800/60 border-slate-700/50 text-slate-400 hover:text-white"
+              }`}
+              aria-label={isNoteOpen ? "Ocultar nota" : "Agregar nota"}
+              aria-expanded={isNoteOpen}
             >
-              {item.category}
-            </Badge>
+              <StickyNote className="w-3.5 h-3.5" />
+            </button>
+            {isAtStockLimit && (
+              <span className="text-[11px] text-amber-300/90">
+                Máx. disponible
+              </span>
+            )}
+          </div>
+
+          {isNoteOpen && (
+            <div className="mt-2.5">
+              <Textarea
+                value={item.note ?? ""}
+                onChange={(e) => onNoteChange(item.id, e.target.value)}
+                maxLength={MAX_NOTE_LENGTH}
+                rows={2}
+                placeholder="Ej: lo necesito para el viernes"
+                aria-label={`Nota para ${displayName}`}
+                className="min-h-[60px] text-xs bg-slate-900/60 border-slate-700/50 text-slate-200 placeholder:text-slate-500 resize-none"
+              />
+              <p className="text-[10px] text-slate-500 text-right mt-1">
+                {(item.note ?? "").length}/{MAX_NOTE_LENGTH}
+              </p>
+            </div>
           )}
         </div>
 
@@ -302,7 +415,7 @@ const CartItemCard = ({
             onClick={handleRemove}
             disabled={isRemoving}
             className="min-w-[44px] min-h-[44px] rounded-lg bg-rose-500/10 hover:bg-rose-500/20 active:bg-rose-500/30 text-rose-400 hover:text-rose-300 border border-rose-500/25 hover:border-rose-500/50 hover:shadow-lg hover:shadow-rose-500/20 transition-all duration-200 flex-shrink-0 touch-manipulation disabled:opacity-50"
-            aria-label={`Eliminar ${item.name}`}
+            aria-label={`Eliminar ${displayName}`}
           >
             <motion.div
               animate={isRemoving ? { rotate: 90, opacity: 0 } : { rotate: 0, opacity: 1 }}
@@ -312,19 +425,185 @@ const CartItemCard = ({
             </motion.div>
           </Button>
         </motion.div>
-      </motion.div>
+      </div>
     </motion.div>
   );
 };
 
+const ContactSection = ({
+  form,
+  isOpen,
+  onToggle,
+}: {
+  form: UseFormReturn<ContactFormValues>;
+  isOpen: boolean;
+  onToggle: () => void;
+}) => {
+  const fieldClass =
+    "h-10 text-sm bg-slate-900/60 border-slate-700/50 text-slate-200 placeholder:text-slate-500";
+
+  return (
+    <div className="rounded-xl bg-slate-800/30 border border-slate-700/50">
+      <button
+        type="button"
+        onClick={onToggle}
+        className="w-full flex items-center justify-between gap-3 px-3.5 py-3 text-left touch-manipulation"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2.5 text-sm font-semibold text-white">
+          <UserRound className="w-4 h-4 text-violet-400" />
+          Tus datos
+          <span className="text-xs font-normal text-slate-400">(opcional)</span>
+        </span>
+        <ChevronDown
+          className={`w-4 h-4 text-slate-400 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {isOpen && (
+        <Form {...form}>
+          <form
+            onSubmit={(e) => e.preventDefault()}
+            className="px-3.5 pb-3.5 space-y-3"
+            noValidate
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem className="space-y-1.5">
+                  <FormLabel className="text-xs text-slate-300">Nombre</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} placeholder="¿Cómo te llamás?" className={fieldClass} />
+                  </FormControl>
+                  <FormMessage className="text-xs" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="city"
+              render={({ field }) => (
+                <FormItem className="space-y-1.5">
+                  <FormLabel className="text-xs text-slate-300">Ciudad</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} placeholder="Ej: Córdoba" className={fieldClass} />
+                  </FormControl>
+                  <FormMessage className="text-xs" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="delivery"
+              render={({ field }) => (
+                <FormItem className="space-y-1.5">
+                  <FormLabel className="text-xs text-slate-300">Entrega preferida</FormLabel>
+                  <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className={fieldClass}>
+                        <SelectValue placeholder="Elegí una opción" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(DELIVERY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-xs" />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+};
+
+const HistoryLink = ({ count, onClick }: { count: number; onClick: () => void }) => (
+  <Link
+    to="/mis-consultas"
+    onClick={onClick}
+    className="flex items-center justify-center gap-2 pt-3 text-xs font-medium text-slate-400 hover:text-violet-300 transition-colors"
+  >
+    <History className="w-3.5 h-3.5" />
+    Consultas anteriores ({count})
+  </Link>
+);
+
+const UnavailableNotice = ({
+  count,
+  onRemoveUnavailable,
+}: {
+  count: number;
+  onRemoveUnavailable: () => void;
+}) => (
+  <motion.div
+    initial={{ opacity: 0, y: 10 }}
+    animate={{ opacity: 1, y: 0 }}
+    className="flex items-start gap-3 p-3.5 rounded-xl bg-amber-500/10 border border-amber-500/30"
+    role="alert"
+  >
+    <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+    <div className="flex-1 space-y-2">
+      <p className="text-sm text-amber-200 leading-snug">
+        {count === 1
+          ? "Hay 1 producto que ya no está disponible."
+          : `Hay ${count} productos que ya no están disponibles.`}{" "}
+        Quitalos para poder enviar la consulta.
+      </p>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={onRemoveUnavailable}
+        className="h-8 text-xs font-semibold bg-transparent text-amber-200 border-amber-500/40 hover:bg-amber-500/15 hover:text-amber-100"
+      >
+        Quitar no disponibles
+      </Button>
+    </div>
+  </motion.div>
+);
+
+const CartSubtotal = ({ estimate }: { estimate: SubtotalEstimate }) => {
+  if (estimate.totals.length === 0) return null;
+
+  return (
+    <div className="pt-4 border-t border-slate-700/50 space-y-1" aria-live="polite">
+      <div className="flex items-baseline justify-between gap-3">
+        <span className="text-sm font-medium text-slate-300">Subtotal estimado</span>
+        <span className="text-lg font-bold tabular-nums text-cyan-300 text-right">
+          {formatSubtotal(estimate)}
+        </span>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        {estimate.unpricedCount > 0 &&
+          `Sin contar ${estimate.unpricedCount} ${
+            estimate.unpricedCount === 1 ? "producto" : "productos"
+          } a consultar. `}
+        El precio final se confirma por WhatsApp.
+      </p>
+    </div>
+  );
+};
+
 const CartActions = ({
   onWhatsAppClick,
+  onShareClick,
   onClearClick,
   isLoading,
+  isBlocked,
 }: {
   onWhatsAppClick: () => void;
+  onShareClick: () => void;
   onClearClick: () => void;
   isLoading: boolean;
+  isBlocked: boolean;
 }) => (
   <motion.div
     initial={{ opacity: 0, y: 20 }}
@@ -333,12 +612,12 @@ const CartActions = ({
     className="pt-5 border-t border-slate-700/50 space-y-2.5"
   >
     <motion.div
-      whileHover={isLoading ? undefined : { scale: 1.02 }}
-      whileTap={isLoading ? undefined : { scale: 0.98 }}
+      whileHover={isLoading || isBlocked ? undefined : { scale: 1.02 }}
+      whileTap={isLoading || isBlocked ? undefined : { scale: 0.98 }}
     >
       <Button
         onClick={onWhatsAppClick}
-        disabled={isLoading}
+        disabled={isLoading || isBlocked}
         size="lg"
         className="relative w-full h-14 text-base font-semibold overflow-hidden bg-gradient-to-r from-emerald-600 to-green-600 hover:from-emerald-500 hover:to-green-500 active:from-emerald-700 active:to-green-700 text-white border-0 shadow-lg shadow-emerald-900/40 hover:shadow-xl hover:shadow-emerald-900/50 touch-manipulation disabled:opacity-50 transition-all duration-200"
       >
@@ -364,21 +643,41 @@ const CartActions = ({
       </Button>
     </motion.div>
 
-    <motion.div
-      whileHover={{ scale: 1.02 }}
-      whileTap={{ scale: 0.98 }}
-    >
-      <Button
-        variant="outline"
-        onClick={onClearClick}
-        size="lg"
-        className="w-full h-12 text-base font-semibold bg-slate-800/40 hover:bg-rose-500/10 active:bg-rose-500/20 text-slate-300 hover:text-rose-300 border-slate-700/50 hover:border-rose-500/40 hover:shadow-lg hover:shadow-rose-500/10 transition-all duration-200 touch-manipulation"
-        aria-label="Vaciar consulta"
+    <div className="flex gap-2.5">
+      <motion.div
+        className="flex-1"
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
       >
-        <Trash2 className="w-4.5 h-4.5 mr-2" />
-        Vaciar consulta
-      </Button>
-    </motion.div>
+        <Button
+          variant="outline"
+          onClick={onShareClick}
+          size="lg"
+          className="w-full h-12 text-base font-semibold bg-slate-800/40 hover:bg-violet-500/10 active:bg-violet-500/20 text-slate-300 hover:text-violet-300 border-slate-700/50 hover:border-violet-500/40 hover:shadow-lg hover:shadow-violet-500/10 transition-all duration-200 touch-manipulation"
+          aria-label="Compartir consulta"
+        >
+          <Share2 className="w-4.5 h-4.5 mr-2" />
+          Compartir
+        </Button>
+      </motion.div>
+
+      <motion.div
+        className="flex-1"
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+      >
+        <Button
+          variant="outline"
+          onClick={onClearClick}
+          size="lg"
+          className="w-full h-12 text-base font-semibold bg-slate-800/40 hover:bg-rose-500/10 active:bg-rose-500/20 text-slate-300 hover:text-rose-300 border-slate-700/50 hover:border-rose-500/40 hover:shadow-lg hover:shadow-rose-500/10 transition-all duration-200 touch-manipulation"
+          aria-label="Vaciar consulta"
+        >
+          <Trash2 className="w-4.5 h-4.5 mr-2" />
+          Vaciar
+        </Button>
+      </motion.div>
+    </div>
   </motion.div>
 );
 
@@ -440,17 +739,46 @@ const ClearConfirmDialog = ({
    MAIN COMPONENT
 ================================= */
 const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
-  const { items, removeFromCart, clearCart } = useCart();
+  const {
+    items,
+    removeFromCart,
+    updateQuantity,
+    updateNote,
+    clearCart,
+    itemCount,
+    lineCount,
+    itemStatus,
+    unavailableCount,
+    revalidate,
+    removeUnavailable,
+  } = useCart();
   const { toast } = useToast();
   const prefersReducedMotion = useReducedMotion() || false;
 
   const [isLoading, setIsLoading] = useState(false);
   const [showClearDialog, setShowClearDialog] = useState(false);
+  const [showContact, setShowContact] = useState(false);
+  const { entries: historyEntries } = useConsultationHistory();
+
+  const contactForm = useForm<ContactFormValues>({
+    resolver: zodResolver(contactSchema),
+    defaultValues: { name: "", city: "" },
+    mode: "onBlur",
+  });
 
   useScrollLock(isOpen);
 
-  const itemCount = useMemo(() => items.length, [items.length]);
   const isEmpty = useMemo(() => items.length === 0, [items.length]);
+  // Sin contar los no disponibles ni los que todavía no se hidrataron (sin nombre ni precio)
+  const subtotal = useMemo(
+    () =>
+      estimateSubtotal(
+        items
+          .filter((item) => item.name && !UNAVAILABLE_LABELS[itemStatus[item.id]])
+          .map((item) => ({ product: item, quantity: item.quantity }))
+      ),
+    [items, itemStatus]
+  );
 
   const handleWhatsAppClick = useCallback(async () => {
     if (isEmpty) return;
@@ -464,26 +792,88 @@ const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
       return;
     }
 
+    const isContactValid = await contactForm.trigger();
+    if (!isContactValid) {
+      setShowContact(true);
+      toast({
+        title: "Revisá tus datos",
+        description: "Hay campos del formulario de contacto con errores.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
 
     try {
-      const consultationItems: ConsultationItem[] = items.map((item) => ({
+      // Confirmar stock actual antes de generar la consulta
+      const { unavailable, adjusted } = await revalidate();
+
+      if (unavailable.length > 0) {
+        toast({
+          title: "⚠️ Productos no disponibles",
+          description: "Quitá los productos sin stock antes de enviar la consulta.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (adjusted.length > 0) {
+        toast({
+          title: "Cantidades actualizadas",
+          description: "Ajustamos algunas cantidades al stock disponible. Revisá tu consulta y volvé a enviarla.",
+        });
+        return;
+      }
+
+      const consultationItems: ConsultationItemPayload[] = items.map((item) => ({
         productId: item.id,
-        qty: item.quantity ?? 1,
+        qty: item.quantity,
+        ...(item.note?.trim() ? { note: item.note.trim() } : {}),
       }));
+      const contact = compactContact(contactForm.getValues());
+
+      // Mismo formato que el backend, para cuando no podemos usar su mensaje
+      const buildLocalMessage = () =>
+        buildConsultationMessage(
+          items.map((item) => ({
+            name: item.name || `Producto ${item.id}`,
+            qty: item.quantity,
+            note: item.note?.trim() || undefined,
+            ...getLinePrice(item),
+          })),
+          contact
+        );
+
+      let message: string;
+      let pendingId: string | undefined;
 
-      const response = await createConsultation(consultationItems);
+      try {
+        const response = await createConsultation(consultationItems, contact);
+        // La consulta ya quedó registrada: solo falta el texto
+        message = response?.whatsappMessage || buildLocalMessage();
+      } catch (err: unknown) {
+        if (!isRetryableConsultationError(err)) throw err;
 
-      if (!response.whatsappMessage) {
-        throw new Error("No se pudo generar el mensaje de WhatsApp");
+        pendingId = enqueueConsultation(consultationItems, contact).id;
+        message = buildLocalMessage();
       }
 
-      const phone = formatPhoneNumber(WHATSAPP_NUMBER);
-      const whatsappUrl = `https://wa.me/${phone}?text=${encodeURIComponent(
-        response.whatsappMessage
-      )}`;
+      openWhatsApp(buildWhatsAppUrl(WHATSAPP_NUMBER, message));
 
-      openWhatsApp(whatsappUrl);
+      addToHistory({
+        items: items.map((item) => ({
+          productId: item.id,
+          name: item.name || `Producto ${item.id}`,
+          // Las data URL (imágenes subidas en modo mock) no entran en el storage
+          image: item.image && !item.image.startsWith("data:") ? item.image : undefined,
+          qty: item.quantity,
+          note: item.note?.trim() || undefined,
+        })),
+        contact,
+        message,
+        pendingId,
+      });
 
       setTimeout(() => {
         clearCart();
@@ -500,7 +890,11 @@ const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
               <p className="text-sm font-semibold text-emerald-300">
                 Consulta enviada
               </p>
-              <p className="text-xs text-slate-400">Abriendo WhatsApp...</p>
+              <p className="text-xs text-slate-400">
+                {pendingId
+                  ? "Abriendo WhatsApp... La registramos cuando vuelva la conexión."
+                  : "Abriendo WhatsApp..."}
+              </p>
             </div>
           </div>
         ),
@@ -517,7 +911,7 @@ const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
     } finally {
       setIsLoading(false);
     }
-  }, [isEmpty, items, clearCart, onClose, toast]);
+  }, [isEmpty, items, clearCart, onClose, toast, revalidate, contactForm]);
 
   const handleRemove = useCallback(
     (id: string, name: string) => {
@@ -554,6 +948,38 @@ const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
     });
   }, [clearCart, toast]);
 
+  const handleShare = useCallback(async () => {
+    const url = buildShareUrl(items);
+
+    try {
+      const result = await shareLink(url);
+      if (result === "copied") {
+        toast({
+          description: (
+            <div className="flex items-center gap-3">
+              <CheckCircle2 className="w-5 h-5 text-violet-400" />
+              <div>
+                <p className="text-sm font-semibold text-white">Link copiado</p>
+                <p className="text-xs text-slate-400">Pegalo donde quieras compartirlo</p>
+              </div>
+            </div>
+          ),
+          duration: TOAST_DURATION,
+          className: "bg-slate-900/95 backdrop-blur-md border border-slate-700/50",
+        });
+      }
+    } catch (err: unknown) {
+      // El usuario cerró la hoja de compartir
+      if (isAbortError(err)) return;
+
+      toast({
+        title: "No se pudo copiar el link",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  }, [items, toast]);
+
   const handleClearClick = useCallback(() => {
     setShowClearDialog(true);
   }, []);
@@ -569,10 +995,15 @@ const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
           className="w-full sm:max-w-lg flex flex-col bg-gradient-to-br from-slate-900 via-slate-900 to-slate-800 backdrop-blur-xl border-slate-700/50"
           style={getSafeAreaStyle()}
         >
-          <CartHeader itemCount={itemCount} />
+          <CartHeader itemCount={itemCount} lineCount={lineCount} />
 
           {isEmpty ? (
-            <EmptyCart />
+            <>
+              <EmptyCart />
+              {historyEntries.length > 0 && (
+                <HistoryLink count={historyEntries.length} onClick={onClose} />
+              )}
+            </>
           ) : (
             <>
               <div className="flex-1 overflow-y-auto py-5 space-y-2.5 scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
@@ -583,17 +1014,41 @@ const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
                       item={item}
                       index={index}
                       onRemove={handleRemove}
+                      onQuantityChange={updateQuantity}
+                      onNoteChange={updateNote}
+                      status={itemStatus[item.id]}
                       reduceMotion={prefersReducedMotion}
                     />
                   ))}
                 </AnimatePresence>
+
+                <ContactSection
+                  form={contactForm}
+                  isOpen={showContact}
+                  onToggle={() => setShowContact((open) => !open)}
+                />
               </div>
 
+              {unavailableCount > 0 && (
+                <UnavailableNotice
+                  count={unavailableCount}
+                  onRemoveUnavailable={removeUnavailable}
+                />
+              )}
+
+              <CartSubtotal estimate={subtotal} />
+
               <CartActions
                 onWhatsAppClick={handleWhatsAppClick}
+                onShareClick={handleShare}
                 onClearClick={handleClearClick}
                 isLoading={isLoading}
+                isBlocked={unavailableCount > 0}
               />
+
+              {historyEntries.length > 0 && (
+                <HistoryLink count={historyEntries.length} onClick={onClose} />
+              )}
             </>
           )}
         </SheetContent>
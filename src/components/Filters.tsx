@@ -1,84 +1,94 @@
-import { motion, useReducedMotion } from "framer-motion";
+import { AnimatePresence, motion, useReducedMotion } from "framer-motion";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Tag, Layers, X, Package, Check, Filter, Sparkles } from "lucide-react";
-import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import { Input } from "@/components/ui/input";
+import { Tag, Layers, X, Package, Check, Filter, Sparkles, DollarSign } from "lucide-react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { DEFAULT_CURRENCY, formatPrice } from "@/lib/price";
+import { toggleSlug } from "@/lib/catalog-params";
+import { ProductFacetOption } from "@/services/products.service";
 
 /* ================================
    TYPES & INTERFACES
 ================================= */
-interface Category {
-  id: string;
-  name: string;
-  slug: string;
-}
-
-interface Collection {
-  id: string;
-  name: string;
-  slug: string;
-}
-
 interface FiltersProps {
-  categories: Category[];
-  collections: Collection[];
-  selectedCategory: string | null;
-  selectedCollection: string | null;
-  onCategoryChange: (slug: string | null) => void;
-  onCollectionChange: (slug: string | null) => void;
+  /** Opciones con la cantidad de productos que suma cada una (count null si no se conoce) */
+  categories: ProductFacetOption[];
+  collections: ProductFacetOption[];
+  selectedCategories: string[];
+  selectedCollections: string[];
+  onCategoriesChange: (slugs: string[]) => void;
+  onCollectionsChange: (slugs: string[]) => void;
   showOnlyInStock: boolean;
   onStockFilterChange: (value: boolean) => void;
+  priceRange: PriceRange;
+  onPriceRangeChange: (value: PriceRange) => void;
+  /** Resultados con los filtros actuales; null mientras no se sabe */
+  resultCount: number | null;
   onClearFilters: () => void;
 }
 
+export interface PriceRange {
+  min: number | null;
+  max: number | null;
+}
+
 interface FilterBadgeProps {
   label: string;
+  count?: number | null;
   isSelected: boolean;
+  disabled?: boolean;
   onClick: () => void;
   reduceMotion?: boolean;
 }
 
+interface ActiveFilter {
+  key: string;
+  label: string;
+  onRemove: () => void;
+}
+
 /* ================================
    HELPERS
 ================================= */
-const getActiveFiltersCount = (
-  selectedCategory: string | null,
-  selectedCollection: string | null,
-  showOnlyInStock: boolean
-): number => {
-  let count = 0;
-  if (selectedCollection) count++;
-  if (selectedCollection && selectedCategory) count++;
-  if (showOnlyInStock) count++;
-  return count;
-};
-
-const hasActiveFilters = (
-  selectedCategory: string | null,
-  selectedCollection: string | null,
-  showOnlyInStock: boolean
-): boolean => {
-  return (
-    selectedCollection !== null ||
-    (selectedCollection !== null && selectedCategory !== null) ||
-    showOnlyInStock
-  );
+const hasPriceRange = (range: PriceRange): boolean =>
+  range.min !== null || range.max !== null;
+
+const describePriceRange = (range: PriceRange): string =>
+  [
+    range.min !== null ? `desde ${formatPrice(range.min, DEFAULT_CURRENCY)}` : "",
+    range.max !== null ? `hasta ${formatPrice(range.max, DEFAULT_CURRENCY)}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+// Un slug que todavía no llegó en las opciones se muestra tal cual
+const optionName = (options: ProductFacetOption[], slug: string): string =>
+  options.find((o) => o.slug === slug)?.name ?? slug;
+
+const parseBound = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
 };
 
 /* ================================
    SUB-COMPONENTS
 ================================= */
 const FilterBadge = React.memo<FilterBadgeProps>(
-  ({ label, isSelected, onClick, reduceMotion = false }) => {
+  ({ label, count, isSelected, disabled = false, onClick, reduceMotion = false }) => {
+    const animate = !reduceMotion && !disabled;
+
     return (
       <motion.button
-        whileTap={reduceMotion ? undefined : { scale: 0.95 }}
-        whileHover={reduceMotion ? undefined : { scale: 1.03, y: -2 }}
+        whileTap={animate ? { scale: 0.95 } : undefined}
+        whileHover={animate ? { scale: 1.03, y: -2 } : undefined}
         onClick={onClick}
-        className="group relative"
+        disabled={disabled}
+        className="group relative disabled:opacity-40 disabled:cursor-not-allowed"
         aria-pressed={isSelected}
-        aria-label={`Filtrar por ${label}`}
+        aria-label={`Filtrar por ${label}${count != null ? ` (${count})` : ""}`}
         type="button"
       >
         <div
@@ -107,6 +117,9 @@ const FilterBadge = React.memo<FilterBadgeProps>(
           
           <span className="flex items-center gap-2 relative z-10">
             {label}
+            {count != null && (
+              <span className="text-xs font-semibold tabular-nums opacity-70">{count}</span>
+            )}
             {isSelected && (
               <motion.div
                 initial={{ scale: 0, rotate: -180 }}
@@ -129,10 +142,12 @@ const FiltersHeader = React.memo(
   ({
     hasFilters,
     activeCount,
+    resultCount,
     onClear,
   }: {
     hasFilters: boolean;
     activeCount: number;
+    resultCount: number | null;
     onClear: () => void;
     reduceMotion: boolean;
   }) => (
@@ -151,6 +166,11 @@ const FiltersHeader = React.memo(
           <h2 className="text-xl font-bold bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
             Filtros
           </h2>
+          {resultCount !== null && (
+            <p className="text-xs text-slate-300 mt-0.5 font-semibold tabular-nums" aria-live="polite">
+              {resultCount} {resultCount === 1 ? "producto" : "productos"}
+            </p>
+          )}
           {hasFilters && (
             <motion.p 
               initial={{ opacity: 0, x: -10 }}
@@ -216,19 +236,23 @@ const SectionTitle = React.memo(
 
 SectionTitle.displayName = "SectionTitle";
 
-const CategoryFilters = React.memo(
+const FacetFilters = React.memo(
   ({
-    categories,
-    selectedCategory,
-    onCategoryChange,
+    icon,
+    title,
+    options,
+    selected,
+    onChange,
     reduceMotion,
   }: {
-    categories: Category[];
-    selectedCategory: string | null;
-    onCategoryChange: (slug: string | null) => void;
+    icon: React.ComponentType<{ className?: string }>;
+    title: string;
+    options: ProductFacetOption[];
+    selected: string[];
+    onChange: (slugs: string[]) => void;
     reduceMotion: boolean;
   }) => {
-    if (!categories || categories.length === 0) return null;
+    if (options.length === 0) return null;
 
     return (
       <motion.div
@@ -237,92 +261,76 @@ const CategoryFilters = React.memo(
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.3 }}
       >
-        <SectionTitle icon={Tag} title="Categorías" />
+        <SectionTitle icon={icon} title={title} />
 
-        <div className="flex flex-wrap gap-2.5">
+        <div className="flex flex-wrap gap-2.5" role="group" aria-label={title}>
           <FilterBadge
             label="Todas"
-            isSelected={!selectedCategory}
-            onClick={() => onCategoryChange(null)}
+            isSelected={selected.length === 0}
+            onClick={() => onChange([])}
             reduceMotion={reduceMotion}
           />
 
-          {categories.map((cat, index) => (
-            <motion.div
-              key={cat.id}
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ delay: index * 0.05, duration: 0.2 }}
-            >
-              <FilterBadge
-                label={cat.name}
-                isSelected={selectedCategory === cat.slug}
-                onClick={() => onCategoryChange(cat.slug)}
-                reduceMotion={reduceMotion}
-              />
-            </motion.div>
-          ))}
+          {options.map((option, index) => {
+            const isSelected = selected.includes(option.slug);
+
+            return (
+              <motion.div
+                key={option.slug}
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: index * 0.05, duration: 0.2 }}
+              >
+                <FilterBadge
+                  label={option.name}
+                  count={option.count}
+                  isSelected={isSelected}
+                  // Sin resultados no suma nada; si ya está elegida se tiene que poder quitar
+                  disabled={!isSelected && option.count === 0}
+                  onClick={() => onChange(toggleSlug(selected, option.slug))}
+                  reduceMotion={reduceMotion}
+                />
+              </motion.div>
+            );
+          })}
         </div>
       </motion.div>
     );
   }
 );
 
-CategoryFilters.displayName = "CategoryFilters";
+FacetFilters.displayName = "FacetFilters";
 
-const CollectionFilters = React.memo(
-  ({
-    collections,
-    selectedCollection,
-    onCollectionChange,
-    reduceMotion,
-  }: {
-    collections: Collection[];
-    selectedCollection: string | null;
-    onCollectionChange: (slug: string | null) => void;
-    reduceMotion: boolean;
-  }) => {
-    if (collections.length === 0) return null;
+const ActiveFilterChips = React.memo(
+  ({ filters, reduceMotion }: { filters: ActiveFilter[]; reduceMotion: boolean }) => {
+    if (filters.length === 0) return null;
 
     return (
-      <motion.div
-        className="space-y-4"
-        initial={{ opacity: 0, y: 10 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.3 }}
-      >
-        <SectionTitle icon={Layers} title="Colecciones" />
-
-        <div className="flex flex-wrap gap-2.5">
-          <FilterBadge
-            label="Todas"
-            isSelected={!selectedCollection}
-            onClick={() => onCollectionChange(null)}
-            reduceMotion={reduceMotion}
-          />
-
-          {collections.map((col, index) => (
-            <motion.div
-              key={col.id}
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ delay: index * 0.05, duration: 0.2 }}
+      <div className="flex flex-wrap gap-2" role="list" aria-label="Filtros activos">
+        <AnimatePresence initial={false}>
+          {filters.map((filter) => (
+            <motion.button
+              key={filter.key}
+              role="listitem"
+              type="button"
+              onClick={filter.onRemove}
+              initial={reduceMotion ? undefined : { opacity: 0, scale: 0.9 }}
+              animate={reduceMotion ? undefined : { opacity: 1, scale: 1 }}
+              exit={reduceMotion ? undefined : { opacity: 0, scale: 0.9 }}
+              className="inline-flex items-center gap-1.5 h-8 pl-3 pr-2 rounded-full text-xs font-bold bg-cyan-500/10 text-cyan-200 border border-cyan-500/30 hover:bg-pink-500/15 hover:text-pink-200 hover:border-pink-500/40 transition-colors touch-manipulation"
+              aria-label={`Quitar filtro ${filter.label}`}
             >
-              <FilterBadge
-                label={col.name}
-                isSelected={selectedCollection === col.slug}
-                onClick={() => onCollectionChange(col.slug)}
-                reduceMotion={reduceMotion}
-              />
-            </motion.div>
+              {filter.label}
+              <X className="w-3.5 h-3.5" />
+            </motion.button>
           ))}
-        </div>
-      </motion.div>
+        </AnimatePresence>
+      </div>
     );
   }
 );
 
-CollectionFilters.displayName = "CollectionFilters";
+ActiveFilterChips.displayName = "ActiveFilterChips";
 
 const StockFilter = React.memo(
   ({
@@ -413,57 +421,162 @@ const StockFilter = React.memo(
 
 StockFilter.displayName = "StockFilter";
 
+const PriceRangeFilter = React.memo(
+  ({
+    priceRange,
+    onPriceRangeChange,
+  }: {
+    priceRange: PriceRange;
+    onPriceRangeChange: (value: PriceRange) => void;
+  }) => {
+    const [min, setMin] = useState(priceRange.min?.toString() ?? "");
+    const [max, setMax] = useState(priceRange.max?.toString() ?? "");
+
+    // Mantener sincronizado si se limpia desde afuera
+    useEffect(() => {
+      setMin(priceRange.min?.toString() ?? "");
+      setMax(priceRange.max?.toString() ?? "");
+    }, [priceRange.min, priceRange.max]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      const lower = parseBound(min);
+      const upper = parseBound(max);
+      // Rango invertido: se da vuelta en vez de no devolver nada
+      onPriceRangeChange(
+        lower !== null && upper !== null && lower > upper
+          ? { min: upper, max: lower }
+          : { min: lower, max: upper }
+      );
+    };
+
+    const active = hasPriceRange(priceRange);
+
+    return (
+      <motion.div
+        className="space-y-4"
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <SectionTitle icon={DollarSign} title="Precio" />
+
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2.5">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Mínimo"
+            value={min}
+            onChange={(e) => setMin(e.target.value)}
+            aria-label={`Precio mínimo en ${DEFAULT_CURRENCY}`}
+            className="w-32 h-11 bg-slate-800/40 border-slate-700/40 text-slate-200"
+          />
+          <span className="text-slate-500">—</span>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Máximo"
+            value={max}
+            onChange={(e) => setMax(e.target.value)}
+            aria-label={`Precio máximo en ${DEFAULT_CURRENCY}`}
+            className="w-32 h-11 bg-slate-800/40 border-slate-700/40 text-slate-200"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            className="h-11 font-bold bg-slate-800/40 text-slate-200 border-slate-700/40 hover:border-cyan-500/40 hover:bg-slate-800/60"
+          >
+            Aplicar
+          </Button>
+          {active && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onPriceRangeChange({ min: null, max: null })}
+              className="h-11 text-slate-400 hover:text-white"
+              aria-label="Quitar filtro de precio"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </form>
+
+        <p className="text-xs text-slate-500">
+          {active
+            ? `Mostrando ${describePriceRange(priceRange)}. No se incluyen productos con precio a consultar ni en otra moneda.`
+            : `Precios en ${DEFAULT_CURRENCY}, con ofertas aplicadas. Los productos en otra moneda no entran en el rango.`}
+        </p>
+      </motion.div>
+    );
+  }
+);
+
+PriceRangeFilter.displayName = "PriceRangeFilter";
+
 /* ================================
    MAIN COMPONENT
 ================================= */
 const Filters = ({
   categories,
   collections,
-  selectedCategory,
-  selectedCollection,
-  onCategoryChange,
-  onCollectionChange,
+  selectedCategories,
+  selectedCollections,
+  onCategoriesChange,
+  onCollectionsChange,
   showOnlyInStock,
   onStockFilterChange,
+  priceRange,
+  onPriceRangeChange,
+  resultCount,
   onClearFilters,
 }: FiltersProps) => {
   const reduceMotion = useReducedMotion() || false;
 
-  const prevCollectionRef = useRef<string | null>(null);
-  useEffect(() => {
-    const prev = prevCollectionRef.current;
-    const curr = selectedCollection;
-
-    if (prev === null && curr === null) {
-      prevCollectionRef.current = curr;
-      return;
-    }
-
-    if (prev !== curr) {
-      if (selectedCategory !== null) {
-        onCategoryChange(null);
-      }
-      prevCollectionRef.current = curr;
-    }
-  }, [selectedCollection, selectedCategory, onCategoryChange]);
-
-  const hasFilters = useMemo(
-    () => hasActiveFilters(selectedCategory, selectedCollection, showOnlyInStock),
-    [selectedCategory, selectedCollection, showOnlyInStock]
-  );
-
-  const activeCount = useMemo(
-    () =>
-      getActiveFiltersCount(selectedCategory, selectedCollection, showOnlyInStock),
-    [selectedCategory, selectedCollection, showOnlyInStock]
+  const activeFilters = useMemo<ActiveFilter[]>(
+    () => [
+      ...selectedCollections.map((slug) => ({
+        key: `collection:${slug}`,
+        label: optionName(collections, slug),
+        onRemove: () => onCollectionsChange(toggleSlug(selectedCollections, slug)),
+      })),
+      ...selectedCategories.map((slug) => ({
+        key: `category:${slug}`,
+        label: optionName(categories, slug),
+        onRemove: () => onCategoriesChange(toggleSlug(selectedCategories, slug)),
+      })),
+      ...(showOnlyInStock
+        ? [{ key: "stock", label: "Solo disponibles", onRemove: () => onStockFilterChange(false) }]
+        : []),
+      ...(hasPriceRange(priceRange)
+        ? [
+            {
+              key: "price",
+              label: `Precio ${describePriceRange(priceRange)}`,
+              onRemove: () => onPriceRangeChange({ min: null, max: null }),
+            },
+          ]
+        : []),
+    ],
+    [
+      categories,
+      collections,
+      selectedCategories,
+      selectedCollections,
+      onCategoriesChange,
+      onCollectionsChange,
+      showOnlyInStock,
+      onStockFilterChange,
+      priceRange,
+      onPriceRangeChange,
+    ]
   );
 
   const handleClearFilters = useCallback(() => {
     onClearFilters();
   }, [onClearFilters]);
 
-  const shouldShowCategories = !!selectedCollection;
-
   return (
     <motion.div
       className="relative space-y-7 p-6 sm:p-7 rounded-2xl bg-slate-800/30 backdrop-blur-sm border border-slate-700/40 overflow-hidden"
@@ -481,45 +594,38 @@ const Filters = ({
 
       <div className="relative z-10 space-y-7">
         <FiltersHeader
-          hasFilters={hasFilters}
-          activeCount={activeCount}
+          hasFilters={activeFilters.length > 0}
+          activeCount={activeFilters.length}
+          resultCount={resultCount}
           onClear={handleClearFilters}
           reduceMotion={reduceMotion}
         />
 
-        <CollectionFilters
-          collections={collections}
-          selectedCollection={selectedCollection}
-          onCollectionChange={onCollectionChange}
+        <ActiveFilterChips filters={activeFilters} reduceMotion={reduceMotion} />
+
+        <FacetFilters
+          icon={Layers}
+          title="Colecciones"
+          options={collections}
+          selected={selectedCollections}
+          onChange={onCollectionsChange}
+          reduceMotion={reduceMotion}
+        />
+
+        {/* Las categorías cruzan colecciones: se pueden combinar o usar solas */}
+        <FacetFilters
+          icon={Tag}
+          title="Categorías"
+          options={categories}
+          selected={selectedCategories}
+          onChange={onCategoriesChange}
           reduceMotion={reduceMotion}
         />
 
-        {shouldShowCategories ? (
-          <CategoryFilters
-            categories={categories}
-            selectedCategory={selectedCategory}
-            onCategoryChange={onCategoryChange}
-            reduceMotion={reduceMotion}
-          />
-        ) : (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ duration: 0.3 }}
-            className="p-5 rounded-xl bg-slate-800/40 border border-slate-700/40 text-slate-300 relative overflow-hidden group"
-          >
-            <div className="absolute inset-0 bg-gradient-to-r from-purple-500/5 to-cyan-500/5 opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
-            <div className="absolute top-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-purple-400/30 to-transparent" />
-            
-            <p className="text-sm font-semibold relative z-10">
-              Elegí una <span className="text-cyan-400 font-bold">colección</span>{" "}
-              para ver sus categorías
-            </p>
-            <p className="text-xs text-slate-500 mt-1.5 relative z-10">
-              Así mantenemos todo más organizado
-            </p>
-          </motion.div>
-        )}
+        <PriceRangeFilter
+          priceRange={priceRange}
+          onPriceRangeChange={onPriceRangeChange}
+        />
 
         <StockFilter
           showOnlyInStock={showOnlyInStock}
@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from "react";
+import { Crop, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { readImageSize, SquareCrop } from "@/lib/image-processing";
+
+// El recorte no puede achicarse por debajo de esta fracción del lado menor
+const MIN_CROP_RATIO = 0.2;
+
+const centeredCrop = (width: number, height: number): SquareCrop => {
+  const size = Math.min(width, height);
+  return { x: (width - size) / 2, y: (height - size) / 2, size };
+};
+
+export function ImageCropDialog({
+  file,
+  onCancel,
+  onConfirm,
+}: {
+  /** Abierto mientras haya archivo */
+  file: File | null;
+  onCancel: () => void;
+  onConfirm: (crop: SquareCrop) => void;
+}) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState<SquareCrop | null>(null);
+  const [displayWidth, setDisplayWidth] = useState(0);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  // El padre puede pasar un callback nuevo en cada render: no debe volver a leer la imagen
+  const onCancelRef = useRef(onCancel);
+  onCancelRef.current = onCancel;
+
+  useEffect(() => {
+    if (!file) return;
+
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    setNatural(null);
+    setCrop(null);
+
+    let cancelled = false;
+    readImageSize(file)
+      .then((size) => {
+        if (cancelled) return;
+        setNatural(size);
+        setCrop(centeredCrop(size.width, size.height));
+      })
+      .catch(() => !cancelled && onCancelRef.current());
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(objectUrl);
+    };
+  }, [file]);
+
+  const scale = natural && displayWidth ? displayWidth / natural.width : 0;
+  const maxSize = natural ? Math.min(natural.width, natural.height) : 0;
+
+  const clamp = (next: SquareCrop): SquareCrop => {
+    if (!natural) return next;
+    const size = Math.min(maxSize, Math.max(maxSize * MIN_CROP_RATIO, next.size));
+    return {
+      size,
+      x: Math.min(natural.width - size, Math.max(0, next.x)),
+      y: Math.min(natural.height - size, Math.max(0, next.y)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: crop.x, y: crop.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !crop || !scale) return;
+    setCrop(
+      clamp({
+        ...crop,
+        x: drag.x + (e.clientX - drag.pointerX) / scale,
+        y: drag.y + (e.clientY - drag.pointerY) / scale,
+      })
+    );
+  };
+
+  // Cambiar el tamaño mantiene el centro del recorte
+  const handleSizeChange = ([size]: number[]) => {
+    if (!crop) return;
+    const center = { x: crop.x + crop.size / 2, y: crop.y + crop.size / 2 };
+    setCrop(clamp({ size, x: center.x - size / 2, y: center.y - size / 2 }));
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-xl border-2">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Crop className="w-5 h-5" />
+            Recortar cuadrado
+          </DialogTitle>
+          <DialogDescription>
+            Arrastrá el recuadro y ajustá el tamaño. Se recorta sobre la imagen original.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center bg-muted rounded-lg p-2 min-h-48">
+          {url && natural && crop ? (
+            <div className="relative inline-block select-none touch-none">
+              <img
+                src={url}
+                alt="Imagen a recortar"
+                className="block max-h-[55vh] max-w-full"
+                draggable={false}
+                onLoad={(e) => setDisplayWidth(e.currentTarget.clientWidth)}
+              />
+              {scale > 0 && (
+                <div
+                  className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                  style={{
+                    left: crop.x * scale,
+                    top: crop.y * scale,
+                    width: crop.size * scale,
+                    height: crop.size * scale,
+                  }}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => (dragRef.current = null)}
+                  onPointerCancel={() => (dragRef.current = null)}
+                />
+              )}
+            </div>
+          ) : (
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground self-center" />
+          )}
+        </div>
+
+        {crop && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Tamaño</span>
+              <span className="tabular-nums">
+                {Math.round(crop.size)} × {Math.round(crop.size)} px
+              </span>
+            </div>
+            <Slider
+              min={Math.round(maxSize * MIN_CROP_RATIO)}
+              max={maxSize}
+              step={1}
+              value={[crop.size]}
+              onValueChange={handleSizeChange}
+              aria-label="Tamaño del recorte"
+            />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            disabled={!crop}
+            onClick={() =>
+              crop &&
+              onConfirm({
+                x: Math.round(crop.x),
+                y: Math.round(crop.y),
+                size: Math.floor(crop.size),
+              })
+            }
+          >
+            Recortar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
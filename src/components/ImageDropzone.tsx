@@ -1,48 +1,232 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { AlertCircle, Crop, Loader2, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { ImageCropDialog } from "@/components/ImageCropDialog";
+import {
+  formatBytes,
+  ImageProcessingError,
+  ImageProcessOptions,
+  MAX_INPUT_BYTES,
+  processImage,
+  processImages,
+  ProcessedImage,
+  SquareCrop,
+} from "@/lib/image-processing";
+
+/* =======================
+   Helpers
+======================= */
+function describeSavings(results: ProcessedImage[]): string {
+  const before = results.reduce((total, r) => total + r.originalSize, 0);
+  const after = results.reduce((total, r) => total + r.size, 0);
+
+  if (results.length === 1) {
+    const [r] = results;
+    return `${formatBytes(before)} → ${formatBytes(after)} · ${r.width}×${r.height} ${
+      r.file.type === "image/webp" ? "WebP" : "JPEG"
+    }`;
+  }
+  return `${results.length} imágenes optimizadas: ${formatBytes(before)} → ${formatBytes(after)}`;
+}
 
 export function ImageDropzone({
   preview,
   onImageSelect,
+  multiple = false,
+  onImagesSelect,
+  disabled = false,
+  processOptions,
 }: {
   preview?: string;
-  onImageSelect: (file: File) => void;
+  /** Recibe la imagen ya redimensionada y recomprimida */
+  onImageSelect?: (file: File, result: ProcessedImage) => void;
+  /** Varias imágenes a la vez: el padre muestra las previsualizaciones */
+  multiple?: boolean;
+  onImagesSelect?: (results: ProcessedImage[]) => void;
+  disabled?: boolean;
+  processOptions?: ImageProcessOptions;
 }) {
   const [localPreview, setLocalPreview] = useState<string | null>(null);
+  const [result, setResult] = useState<ProcessedImage | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [errors, setErrors] = useState<ImageProcessingError[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [cropFile, setCropFile] = useState<File | null>(null);
+  // dragenter/dragleave se disparan también al pasar por los hijos
+  const dragDepthRef = useRef(0);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Cada preview reemplazado (y el último al desmontar) libera su object URL
+  useEffect(() => {
+    if (!localPreview) return;
+    return () => URL.revokeObjectURL(localPreview);
+  }, [localPreview]);
 
+  const showSingle = (processed: ProcessedImage) => {
+    setResult(processed);
+    setSummary(describeSavings([processed]));
     // Preview SOLO para UI
-    const objectUrl = URL.createObjectURL(file);
-    setLocalPreview(objectUrl);
-
+    setLocalPreview(URL.createObjectURL(processed.file));
     // Enviar el File real al padre
-    onImageSelect(file);
+    onImageSelect?.(processed.file, processed);
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (disabled || isProcessing || files.length === 0) return;
+
+    const selected = multiple ? files : files.slice(0, 1);
+    setIsProcessing(true);
+    setErrors([]);
+
+    const { processed, errors: failed } = await processImages(selected, processOptions);
+
+    setIsProcessing(false);
+    setErrors(failed);
+    if (processed.length === 0) return;
+
+    if (multiple) {
+      setSummary(describeSavings(processed));
+      onImagesSelect?.(processed);
+    } else {
+      showSingle(processed[0]);
+    }
+  };
+
+  const handleCrop = async (crop: SquareCrop) => {
+    const original = cropFile;
+    setCropFile(null);
+    if (!original) return;
+
+    setIsProcessing(true);
+    try {
+      showSingle(await processImage(original, { ...processOptions, crop }));
+      setErrors([]);
+    } catch (err) {
+      setErrors([
+        err instanceof ImageProcessingError
+          ? err
+          : new ImageProcessingError("No se pudo recortar la imagen", original.name),
+      ]);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Permite volver a elegir el mismo archivo
+    e.target.value = "";
+    void handleFiles(files);
+  };
+
+  const dragHandlers = {
+    onDragEnter: (e: React.DragEvent) => {
+      e.preventDefault();
+      dragDepthRef.current += 1;
+      if (!disabled) setIsDragging(true);
+    },
+    onDragOver: (e: React.DragEvent) => {
+      // Sin preventDefault el navegador abre el archivo en vez de soltarlo acá
+      e.preventDefault();
+      e.dataTransfer.dropEffect = disabled ? "none" : "copy";
+    },
+    onDragLeave: () => {
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setIsDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDragging(false);
+      void handleFiles(Array.from(e.dataTransfer.files));
+    },
   };
 
-  const imageSrc = localPreview ?? preview;
+  const imageSrc = multiple ? undefined : localPreview ?? preview;
 
   return (
-    <label className="border-2 border-dashed rounded-lg p-6 block cursor-pointer text-center">
-      {imageSrc ? (
-        <img
-          src={imageSrc}
-          alt="Preview"
-          className="max-h-40 mx-auto rounded object-contain"
+    <div className="space-y-2">
+      <label
+        {...dragHandlers}
+        className={`border-2 border-dashed rounded-lg p-6 block text-center transition-colors ${
+          disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:border-primary/50"
+        } ${isDragging ? "border-primary bg-primary/5" : ""}`}
+      >
+        {isProcessing ? (
+          <span className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Optimizando imagen...
+          </span>
+        ) : imageSrc ? (
+          <img
+            src={imageSrc}
+            alt="Preview"
+            className="max-h-40 mx-auto rounded object-contain"
+          />
+        ) : (
+          <span className="flex flex-col items-center gap-2 text-sm text-muted-foreground">
+            <Upload className="w-5 h-5" />
+            {isDragging
+              ? "Soltá para subir"
+              : multiple
+                ? "Arrastrá o hacé click para agregar imágenes"
+                : "Arrastrá o hacé click para subir imagen"}
+            <span className="text-xs">
+              JPG, PNG, WebP, GIF o AVIF · hasta {formatBytes(MAX_INPUT_BYTES)}
+            </span>
+          </span>
+        )}
+
+        <input
+          type="file"
+          hidden
+          accept="image/*"
+          multiple={multiple}
+          disabled={disabled || isProcessing}
+          onChange={handleChange}
         />
-      ) : (
-        <span className="text-sm text-muted-foreground">
-          Arrastrá o hacé click para subir imagen
-        </span>
+      </label>
+
+      {(summary || (!multiple && result)) && (
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>{summary}</span>
+          {!multiple && result && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              disabled={isProcessing}
+              onClick={() => setCropFile(result.original)}
+            >
+              <Crop className="w-3 h-3" />
+              Recortar cuadrado
+            </Button>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-xs text-destructive" role="alert">
+          {errors.map((err, i) => (
+            <li key={`${err.fileName}-${i}`} className="flex items-start gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              <span>
+                <span className="font-semibold">{err.fileName}</span>: {err.message}
+              </span>
+            </li>
+          ))}
+        </ul>
       )}
 
-      <input
-        type="file"
-        hidden
-        accept="image/*"
-        onChange={handleChange}
-      />
-    </label>
+      {!multiple && (
+        <ImageCropDialog
+          file={cropFile}
+          onCancel={() => setCropFile(null)}
+          onConfirm={handleCrop}
+        />
+      )}
+    </div>
   );
 }
@@ -87,9 +87,9 @@ const Navbar = ({ onCartClick }: NavbarProps) => {
                 <motion.span
                   initial={{ scale: 0 }}
                   animate={{ scale: 1 }}
-                  className="absolute -top-2 -right-2 w-5 h-5 bg-secondary text-secondary-foreground text-xs font-bold rounded-full flex items-center justify-center"
+                  className="absolute -top-2 -right-2 min-w-5 h-5 px-1 bg-secondary text-secondary-foreground text-xs font-bold rounded-full flex items-center justify-center"
                 >
-                  {itemCount}
+                  {itemCount > 99 ? "99+" : itemCount}
                 </motion.span>
               )}
             </Button>
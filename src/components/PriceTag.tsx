@@ -0,0 +1,62 @@
+import { MessageCircle } from "lucide-react";
+
+import { Product } from "@/types/product";
+import { cn } from "@/lib/utils";
+import { formatPrice, getPriceInfo } from "@/lib/price";
+
+type PriceTagSize = "sm" | "md" | "lg";
+
+const AMOUNT_CLASSES: Record<PriceTagSize, string> = {
+  sm: "text-sm",
+  md: "text-base sm:text-lg",
+  lg: "text-2xl sm:text-3xl",
+};
+
+/* =======================
+   Precio publicado, oferta tachada o "a consultar"
+======================= */
+export function PriceTag({
+  product,
+  size = "md",
+  className,
+}: {
+  product: Pick<Product, "listPrice" | "salePrice" | "currency" | "priceOnRequest">;
+  size?: PriceTagSize;
+  className?: string;
+}) {
+  const info = getPriceInfo(product);
+
+  if (info.kind !== "price") {
+    return (
+      <span
+        className={cn(
+          "inline-flex items-center gap-1.5 font-medium text-slate-400",
+          size === "lg" ? "text-base" : "text-xs sm:text-sm",
+          className
+        )}
+      >
+        <MessageCircle className="w-3.5 h-3.5" />
+        {info.kind === "onRequest" ? "Precio a consultar" : "Consultar precio"}
+      </span>
+    );
+  }
+
+  return (
+    <span className={cn("inline-flex flex-wrap items-baseline gap-x-2 gap-y-0.5", className)}>
+      <span className={cn("font-bold tabular-nums text-cyan-300", AMOUNT_CLASSES[size])}>
+        {formatPrice(info.amount, info.currency)}
+      </span>
+      {info.original !== undefined && (
+        <>
+          <s className="text-xs sm:text-sm tabular-nums text-slate-500">
+            <span className="sr-only">Antes </span>
+            {formatPrice(info.original, info.currency)}
+          </s>
+          <span className="text-[10px] sm:text-xs font-bold px-1.5 py-0.5 rounded-md bg-emerald-500/20 text-emerald-400">
+            -{info.discountPercent}%
+          </span>
+        </>
+      )}
+    </span>
+  );
+}
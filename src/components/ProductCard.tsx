@@ -12,8 +12,10 @@ import {
 
 import { Product } from "@/types/product";
 import { useCart } from "@/context/CartContext";
+import { usePrefetchProduct } from "@/hooks/use-catalog-queries";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { PriceTag } from "@/components/PriceTag";
 import { useToast } from "@/hooks/use-toast";
 
 /* ================================
@@ -35,6 +37,8 @@ interface ImageState {
    CONSTANTS
 ================================= */
 const ANIMATION_DELAY_MULTIPLIER = 0.05;
+// Las cards que se montan al scrollear (scroll infinito) no esperan por su posición absoluta
+const ANIMATION_STAGGER_GROUP = 12;
 const ANIMATION_DURATION = 0.3;
 const TOAST_DURATION = 2000;
 const FEATURED_THRESHOLD = 4;
@@ -249,6 +253,7 @@ const ProductCard = React.forwardRef<HTMLElement, ProductCardProps>(
   ({ product, index, onNavigate }, ref) => {
     const { addToCart, isInCart } = useCart();
     const { toast } = useToast();
+    const prefetchProduct = usePrefetchProduct();
     const prefersReducedMotion = useReducedMotion() || false;
 
     const [imageState, setImageState] = React.useState<ImageState>({
@@ -315,6 +320,11 @@ const ProductCard = React.forwardRef<HTMLElement, ProductCardProps>(
       [inCart, product, isAdding, addToCart, toast]
     );
 
+    // Precarga el detalle para que la navegación sea instantánea
+    const handlePrefetch = React.useCallback(() => {
+      prefetchProduct(product.id);
+    }, [prefetchProduct, product.id]);
+
     const handleCardClick = React.useCallback(() => {
       if (onNavigate) {
         onNavigate(product.id);
@@ -330,7 +340,7 @@ const ProductCard = React.forwardRef<HTMLElement, ProductCardProps>(
           prefersReducedMotion
             ? undefined
             : {
-                delay: index * ANIMATION_DELAY_MULTIPLIER,
+                delay: (index % ANIMATION_STAGGER_GROUP) * ANIMATION_DELAY_MULTIPLIER,
                 duration: ANIMATION_DURATION,
                 type: "spring",
                 stiffness: 100,
@@ -338,6 +348,9 @@ const ProductCard = React.forwardRef<HTMLElement, ProductCardProps>(
         }
         whileHover={prefersReducedMotion ? undefined : { y: -6, scale: 1.02 }}
         onClick={handleCardClick}
+        onMouseEnter={handlePrefetch}
+        onFocus={handlePrefetch}
+        onTouchStart={handlePrefetch}
         className="group relative bg-slate-800/30 backdrop-blur-sm border border-slate-700/40 rounded-2xl overflow-hidden flex flex-col h-full cursor-pointer transition-all duration-300 hover:bg-slate-800/50 hover:border-cyan-500/30 hover:shadow-2xl hover:shadow-cyan-500/10"
         role="button"
         tabIndex={0}
@@ -389,6 +402,8 @@ const ProductCard = React.forwardRef<HTMLElement, ProductCardProps>(
           {/* Spacer */}
           <div className="flex-1 min-h-[8px]" />
 
+          <PriceTag product={product} />
+
           {/* ACTION BUTTON */}
           <div className="mt-auto">
             <AddToCartButton
@@ -2,7 +2,7 @@ import { motion, AnimatePresence } from "framer-motion"
 import ProductCard from "@/components/ProductCard"
 import { Product } from "@/types/product"
 import { PackageX } from "lucide-react"
-import { memo } from "react"
+import { memo, useCallback, useEffect, useLayoutEffect, useRef, useState } from "react"
 
 interface ProductGridProps {
   products: Product[]
@@ -10,6 +10,104 @@ interface ProductGridProps {
   onNavigate?: (id: string) => void
 }
 
+/* ================================
+   VIRTUALIZACIÓN
+   Con listas largas (scroll infinito) solo se montan las filas cercanas
+   a la pantalla; arriba y abajo queda un padding con la altura del resto
+================================ */
+const VIRTUALIZE_AFTER = 48
+const OVERSCAN_ROWS = 3
+// Hasta medir la primera fila
+const ESTIMATED_ROW_HEIGHT = 380
+
+// Mismos cortes que las clases grid-cols-2 sm:grid-cols-3 lg:grid-cols-4
+const getColumns = () =>
+  window.matchMedia("(min-width: 1024px)").matches
+    ? 4
+    : window.matchMedia("(min-width: 640px)").matches
+      ? 3
+      : 2
+
+const useWindowVirtualRows = (count: number, enabled: boolean) => {
+  const gridRef = useRef<HTMLDivElement>(null)
+  const [columns, setColumns] = useState(getColumns)
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT)
+  const [gap, setGap] = useState(16)
+  const [range, setRange] = useState({ start: 0, end: VIRTUALIZE_AFTER })
+
+  const rows = Math.ceil(count / columns)
+  const stride = rowHeight + gap
+
+  const update = useCallback(() => {
+    const grid = gridRef.current
+    if (!grid) return
+
+    const top = grid.getBoundingClientRect().top + window.scrollY
+    const first = Math.floor((window.scrollY - top) / stride) - OVERSCAN_ROWS
+    const last = Math.ceil((window.scrollY + window.innerHeight - top) / stride) + OVERSCAN_ROWS
+    const start = Math.max(0, Math.min(rows, first)) * columns
+    const end = Math.max(0, Math.min(rows, last)) * columns
+
+    setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }))
+  }, [stride, rows, columns])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let frame = 0
+    const schedule = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => {
+        setColumns(getColumns())
+        update()
+      })
+    }
+
+    update()
+    window.addEventListener("scroll", schedule, { passive: true })
+    window.addEventListener("resize", schedule)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener("scroll", schedule)
+      window.removeEventListener("resize", schedule)
+    }
+  }, [enabled, update])
+
+  // La altura real de una fila (todas las cards de la fila se estiran a la más alta)
+  useLayoutEffect(() => {
+    const grid = gridRef.current
+    const firstCard = grid?.firstElementChild as HTMLElement | null
+    if (!enabled || !grid || !firstCard) return
+
+    const measure = () => {
+      setGap(parseFloat(getComputedStyle(grid).rowGap) || 0)
+      if (firstCard.offsetHeight > 0) setRowHeight(firstCard.offsetHeight)
+    }
+    measure()
+
+    const observer = new ResizeObserver(measure)
+    observer.observe(firstCard)
+    return () => observer.disconnect()
+  }, [enabled, range.start, columns])
+
+  if (!enabled) {
+    return { gridRef, start: 0, end: count, paddingTop: 0, paddingBottom: 0 }
+  }
+
+  const end = Math.min(count, range.end)
+  const start = Math.min(range.start, end)
+  const renderedRows = Math.ceil((end - start) / columns)
+  const rowsBefore = start / columns
+
+  return {
+    gridRef,
+    start,
+    end,
+    paddingTop: rowsBefore * stride,
+    paddingBottom: Math.max(0, (rows - rowsBefore - renderedRows) * stride),
+  }
+}
+
 const emptyStateVariants = {
   hidden: { opacity: 0, y: 16 },
   visible: { opacity: 1, y: 0 }
@@ -26,6 +124,11 @@ const gridVariants = {
 }
 
 const ProductGrid = ({ products, onClearFilters, onNavigate }: ProductGridProps) => {
+  const { gridRef, start, end, paddingTop, paddingBottom } = useWindowVirtualRows(
+    products.length,
+    products.length > VIRTUALIZE_AFTER
+  )
+
   return (
     <AnimatePresence mode="wait">
       {!products.length ? (
@@ -75,13 +178,15 @@ const ProductGrid = ({ products, onClearFilters, onNavigate }: ProductGridProps)
           animate="visible"
           exit="hidden"
           transition={{ duration: 0.25 }}
+          ref={gridRef}
+          style={{ paddingTop, paddingBottom }}
           className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4"
         >
-          {products.map((product, index) => (
+          {products.slice(start, end).map((product, i) => (
             <ProductCard
               key={product.id}
               product={product}
-              index={index}
+              index={start + i}
               onNavigate={onNavigate}
             />
           ))}
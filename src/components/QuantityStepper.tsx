@@ -0,0 +1,82 @@
+import { Minus, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface QuantityStepperProps {
+  value: number;
+  max: number;
+  min?: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  size?: "sm" | "lg";
+  label?: string;
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: { button: "w-9 h-9", icon: "w-3.5 h-3.5", value: "w-8 text-sm" },
+  lg: { button: "w-12 h-12", icon: "w-4.5 h-4.5", value: "w-12 text-lg" },
+};
+
+/* ================================
+   QUANTITY STEPPER
+================================= */
+const QuantityStepper = ({
+  value,
+  max,
+  min = 1,
+  onChange,
+  disabled = false,
+  size = "sm",
+  label = "Cantidad",
+  className,
+}: QuantityStepperProps) => {
+  const sizes = SIZE_CLASSES[size];
+  const canDecrement = !disabled && value > min;
+  const canIncrement = !disabled && value < max;
+
+  const buttonClass = cn(
+    sizes.button,
+    "flex items-center justify-center rounded-lg border transition-all duration-200 touch-manipulation",
+    "bg-slate-800/60 border-slate-700/50 text-slate-200",
+    "hover:bg-violet-500/15 hover:border-violet-500/40 hover:text-white",
+    "disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-slate-800/60 disabled:hover:border-slate-700/50"
+  );
+
+  return (
+    <div
+      role="group"
+      aria-label={label}
+      className={cn("inline-flex items-center gap-1.5", className)}
+    >
+      <button
+        type="button"
+        onClick={() => onChange(value - 1)}
+        disabled={!canDecrement}
+        className={buttonClass}
+        aria-label="Restar uno"
+      >
+        <Minus className={sizes.icon} />
+      </button>
+
+      <span
+        className={cn(sizes.value, "text-center font-semibold text-white tabular-nums")}
+        aria-live="polite"
+      >
+        {value}
+      </span>
+
+      <button
+        type="button"
+        onClick={() => onChange(value + 1)}
+        disabled={!canIncrement}
+        className={buttonClass}
+        aria-label="Sumar uno"
+        title={!canIncrement && !disabled ? `Máximo disponible: ${max}` : undefined}
+      >
+        <Plus className={sizes.icon} />
+      </button>
+    </div>
+  );
+};
+
+export default QuantityStepper;
@@ -0,0 +1,56 @@
+import { ArrowUpDown } from "lucide-react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isProductSort, ProductSort } from "@/services/products.service";
+
+const SORT_OPTIONS: { value: ProductSort; label: string; needsPrice?: boolean }[] = [
+  { value: "newest", label: "Más nuevos" },
+  { value: "name-asc", label: "Nombre: A–Z" },
+  { value: "name-desc", label: "Nombre: Z–A" },
+  { value: "in-stock", label: "Disponibles primero" },
+  { value: "price-asc", label: "Menor precio", needsPrice: true },
+  { value: "price-desc", label: "Mayor precio", needsPrice: true },
+];
+
+interface SortSelectProps {
+  value: ProductSort;
+  onChange: (value: ProductSort) => void;
+  /** Sin productos con precio, ordenar por precio no tiene sentido */
+  showPriceOptions: boolean;
+}
+
+const SortSelect = ({ value, onChange, showPriceOptions }: SortSelectProps) => {
+  const options = SORT_OPTIONS.filter(
+    // La opción elegida se mantiene visible aunque la página actual no tenga precios
+    (option) => !option.needsPrice || showPriceOptions || option.value === value
+  );
+
+  return (
+    <Select value={value} onValueChange={(v) => isProductSort(v) && onChange(v)}>
+      <SelectTrigger
+        className="w-full sm:w-56 h-12 bg-slate-800/50 border-slate-700/40 text-slate-200 hover:border-cyan-500/40 transition-colors"
+        aria-label="Ordenar productos"
+      >
+        <span className="flex items-center gap-2">
+          <ArrowUpDown className="w-4 h-4 text-cyan-400" />
+          <SelectValue />
+        </span>
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default SortSelect;
@@ -0,0 +1,394 @@
+import { useMemo, useState } from "react"
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  startOfDay,
+} from "date-fns"
+import { es } from "date-fns/locale"
+import {
+  Area,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { BarChart3, Boxes, Layers, MessageCircle, Tag, TrendingUp } from "lucide-react"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { DateRangePicker, DateRangeValue } from "@/components/admin/DateRangePicker"
+import { Product } from "@/types/product"
+import { Consultation } from "@/types/consultations"
+
+/* ======================= TYPES ======================= */
+
+interface AnalyticsDashboardProps {
+  products: Product[]
+  consultations: Consultation[]
+}
+
+interface NamedCount {
+  name: string
+  count: number
+}
+
+/* ======================= HELPERS ======================= */
+
+const TOP_GROUPS_LIMIT = 8
+const TOP_CONSULTED_LIMIT = 8
+// Hasta ~3 meses se agrupa por semana; más allá, por mes
+const WEEKLY_MAX_DAYS = 92
+
+const STOCK_BUCKETS = [
+  { key: "out", label: "Sin stock", color: "#f59e0b" },
+  { key: "low", label: "1 a 5", color: "#ec4899" },
+  { key: "mid", label: "6 a 20", color: "#3b82f6" },
+  { key: "high", label: "Más de 20", color: "#10b981" },
+  { key: "unknown", label: "Sin cantidad", color: "#a855f7" },
+] as const
+
+type StockBucketKey = (typeof STOCK_BUCKETS)[number]["key"]
+
+const groupsConfig = {
+  count: { label: "Productos", color: "hsl(var(--primary))" },
+} satisfies ChartConfig
+
+const stockConfig = Object.fromEntries(
+  STOCK_BUCKETS.map((b) => [b.key, { label: b.label, color: b.color }])
+) satisfies ChartConfig
+
+const growthConfig = {
+  added: { label: "Nuevos", color: "#06b6d4" },
+  total: { label: "Total catálogo", color: "hsl(var(--primary))" },
+} satisfies ChartConfig
+
+const consultedConfig = {
+  units: { label: "Unidades", color: "#a855f7" },
+  consultations: { label: "Consultas", color: "#3b82f6" },
+} satisfies ChartConfig
+
+function toTime(iso: string | null | undefined) {
+  if (!iso) return null
+  const time = new Date(iso).getTime()
+  return Number.isNaN(time) ? null : time
+}
+
+function countBy(products: Product[], key: (p: Product) => string): NamedCount[] {
+  const counts = new Map<string, number>()
+  for (const p of products) {
+    const name = key(p)
+    counts.set(name, (counts.get(name) ?? 0) + 1)
+  }
+
+  const sorted = Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  )
+  if (sorted.length <= TOP_GROUPS_LIMIT) return sorted
+
+  // El resto se agrupa para que el gráfico siga siendo legible
+  const rest = sorted.slice(TOP_GROUPS_LIMIT - 1).reduce((total, g) => total + g.count, 0)
+  return [...sorted.slice(0, TOP_GROUPS_LIMIT - 1), { name: "Otras", count: rest }]
+}
+
+function getStockBucket(p: Product): StockBucketKey {
+  if (!p.inStock) return "out"
+  if (p.stockQty == null) return "unknown"
+  if (p.stockQty <= 0) return "out"
+  if (p.stockQty <= 5) return "low"
+  if (p.stockQty <= 20) return "mid"
+  return "high"
+}
+
+function getStockDistribution(products: Product[]) {
+  const counts: Record<StockBucketKey, number> = { out: 0, low: 0, mid: 0, high: 0, unknown: 0 }
+  for (const p of products) counts[getStockBucket(p)]++
+
+  return STOCK_BUCKETS.filter((b) => counts[b.key] > 0).map((b) => ({
+    key: b.key,
+    count: counts[b.key],
+    fill: `var(--color-${b.key})`,
+  }))
+}
+
+/** Altas por período y tamaño acumulado del catálogo al cierre de cada uno */
+function getGrowthSeries(products: Product[], { from, to }: DateRangeValue) {
+  const times = products.map((p) => toTime(p.createdAt)).filter((t): t is number => t !== null)
+  if (times.length === 0) return []
+
+  const weekly = differenceInCalendarDays(to, from) <= WEEKLY_MAX_DAYS
+  const starts = weekly
+    ? eachWeekOfInterval({ start: from, end: to }, { weekStartsOn: 1 })
+    : eachMonthOfInterval({ start: from, end: to })
+  const rangeEnd = addDays(to, 1).getTime()
+
+  return starts.map((start, i) => {
+    const periodStart = Math.max(start.getTime(), from.getTime())
+    const periodEnd = Math.min(starts[i + 1]?.getTime() ?? rangeEnd, rangeEnd)
+
+    return {
+      period: format(start, weekly ? "d MMM" : "MMM yy", { locale: es }),
+      added: times.filter((t) => t >= periodStart && t < periodEnd).length,
+      total: times.filter((t) => t < periodEnd).length,
+    }
+  })
+}
+
+function getTopConsulted(consultations: Consultation[]) {
+  const byProduct = new Map<string, { name: string; units: number; consultations: number }>()
+
+  for (const c of consultations) {
+    for (const item of c.items) {
+      const entry = byProduct.get(item.productId) ?? { name: item.name, units: 0, consultations: 0 }
+      entry.units += item.qty
+      entry.consultations += 1
+      byProduct.set(item.productId, entry)
+    }
+  }
+
+  return Array.from(byProduct.values())
+    .sort((a, b) => b.units - a.units || b.consultations - a.consultations)
+    .slice(0, TOP_CONSULTED_LIMIT)
+}
+
+/* ======================= SUB COMPONENTS ======================= */
+
+interface ChartCardProps {
+  title: string
+  description: string
+  icon: React.ReactNode
+  isEmpty: boolean
+  emptyText: string
+  children: React.ReactNode
+  className?: string
+}
+
+const ChartCard = ({ title, description, icon, isEmpty, emptyText, children, className }: ChartCardProps) => (
+  <Card className={`border-2 ${className ?? ""}`}>
+    <CardHeader className="pb-2">
+      <CardTitle className="text-base font-bold flex items-center gap-2">
+        {icon}
+        {title}
+      </CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {isEmpty ? (
+        <div className="h-[260px] flex items-center justify-center text-sm text-muted-foreground text-center">
+          {emptyText}
+        </div>
+      ) : (
+        children
+      )}
+    </CardContent>
+  </Card>
+)
+
+interface GroupsChartProps {
+  data: NamedCount[]
+}
+
+const GroupsChart = ({ data }: GroupsChartProps) => (
+  <ChartContainer config={groupsConfig} className="aspect-auto h-[260px] w-full">
+    <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+      <CartesianGrid horizontal={false} />
+      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+      <YAxis
+        type="category"
+        dataKey="name"
+        width={120}
+        tickLine={false}
+        axisLine={false}
+        tickFormatter={(v: string) => (v.length > 16 ? `${v.slice(0, 15)}…` : v)}
+      />
+      <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+    </BarChart>
+  </ChartContainer>
+)
+
+/* ======================= MAIN COMPONENT ======================= */
+
+const AnalyticsDashboard = ({ products, consultations }: AnalyticsDashboardProps) => {
+  // null = "Todo": el inicio depende de los datos, que llegan después del montaje
+  const [customRange, setCustomRange] = useState<DateRangeValue | null>(null)
+
+  const earliest = useMemo(() => {
+    const times = [
+      ...products.map((p) => toTime(p.createdAt)),
+      ...consultations.map((c) => toTime(c.createdAt)),
+    ].filter((t): t is number => t !== null)
+
+    return times.length > 0 ? new Date(Math.min(...times)) : new Date()
+  }, [products, consultations])
+
+  const range = useMemo<DateRangeValue>(
+    () => customRange ?? { from: startOfDay(earliest), to: startOfDay(new Date()) },
+    [customRange, earliest]
+  )
+
+  const byCollection = useMemo(() => countBy(products, (p) => p.collection ?? "Sin colección"), [products])
+  const byCategory = useMemo(() => countBy(products, (p) => p.category ?? "Sin categoría"), [products])
+  const stockDistribution = useMemo(() => getStockDistribution(products), [products])
+  const growth = useMemo(() => getGrowthSeries(products, range), [products, range])
+
+  const rangeConsultations = useMemo(() => {
+    const from = range.from.getTime()
+    const to = addDays(range.to, 1).getTime()
+    return consultations.filter((c) => {
+      const time = toTime(c.createdAt)
+      return time !== null && time >= from && time < to
+    })
+  }, [consultations, range])
+
+  const topConsulted = useMemo(() => getTopConsulted(rangeConsultations), [rangeConsultations])
+  const addedInRange = growth.reduce((total, g) => total + g.added, 0)
+  const consultedUnits = rangeConsultations.reduce(
+    (total, c) => total + c.items.reduce((sum, item) => sum + item.qty, 0),
+    0
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Range & period summary */}
+      <Card className="p-5 border-2 shadow-lg">
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-6 text-sm text-muted-foreground">
+            <span>
+              <span className="font-bold text-foreground text-base">{addedInRange}</span> productos nuevos
+            </span>
+            <span>
+              <span className="font-bold text-foreground text-base">{rangeConsultations.length}</span> consultas
+            </span>
+            <span>
+              <span className="font-bold text-foreground text-base">{consultedUnits}</span> unidades consultadas
+            </span>
+          </div>
+          <DateRangePicker value={range} onChange={setCustomRange} earliest={earliest} />
+        </div>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Catalog growth */}
+        <ChartCard
+          title="Crecimiento del catálogo"
+          description="Altas en el período y total acumulado"
+          icon={<TrendingUp className="w-4 h-4 text-primary" />}
+          isEmpty={growth.length === 0}
+          emptyText="No hay fechas de alta para los productos"
+          className="lg:col-span-2"
+        >
+          <ChartContainer config={growthConfig} className="aspect-auto h-[280px] w-full">
+            <ComposedChart data={growth} margin={{ left: -16, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area
+                dataKey="total"
+                type="monotone"
+                fill="var(--color-total)"
+                fillOpacity={0.15}
+                stroke="var(--color-total)"
+                strokeWidth={2}
+              />
+              <Bar dataKey="added" fill="var(--color-added)" radius={4} maxBarSize={32} />
+            </ComposedChart>
+          </ChartContainer>
+        </ChartCard>
+
+        {/* Products per collection */}
+        <ChartCard
+          title="Productos por colección"
+          description="Catálogo actual"
+          icon={<Layers className="w-4 h-4 text-primary" />}
+          isEmpty={byCollection.length === 0}
+          emptyText="Todavía no hay productos"
+        >
+          <GroupsChart data={byCollection} />
+        </ChartCard>
+
+        {/* Products per category */}
+        <ChartCard
+          title="Productos por categoría"
+          description="Catálogo actual"
+          icon={<Tag className="w-4 h-4 text-primary" />}
+          isEmpty={byCategory.length === 0}
+          emptyText="Todavía no hay productos"
+        >
+          <GroupsChart data={byCategory} />
+        </ChartCard>
+
+        {/* Stock distribution */}
+        <ChartCard
+          title="Distribución de stock"
+          description="Unidades disponibles por producto"
+          icon={<Boxes className="w-4 h-4 text-primary" />}
+          isEmpty={stockDistribution.length === 0}
+          emptyText="Todavía no hay productos"
+        >
+          <ChartContainer config={stockConfig} className="aspect-auto h-[260px] w-full">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+              <Pie data={stockDistribution} dataKey="count" nameKey="key" innerRadius={55} strokeWidth={4}>
+                {stockDistribution.map((entry) => (
+                  <Cell key={entry.key} fill={entry.fill} />
+                ))}
+              </Pie>
+              <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+            </PieChart>
+          </ChartContainer>
+        </ChartCard>
+
+        {/* Most consulted */}
+        <ChartCard
+          title="Más consultados"
+          description="Unidades pedidas en el período"
+          icon={<MessageCircle className="w-4 h-4 text-primary" />}
+          isEmpty={topConsulted.length === 0}
+          emptyText="No hay consultas en el período elegido"
+        >
+          <ChartContainer config={consultedConfig} className="aspect-auto h-[260px] w-full">
+            <BarChart data={topConsulted} layout="vertical" margin={{ left: 8, right: 16 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+              <YAxis
+                type="category"
+                dataKey="name"
+                width={120}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v: string) => (v.length > 16 ? `${v.slice(0, 15)}…` : v)}
+              />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+              <Bar dataKey="units" fill="var(--color-units)" radius={4} />
+              <Bar dataKey="consultations" fill="var(--color-consultations)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+      </div>
+
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <BarChart3 className="w-3.5 h-3.5" />
+        El período elegido aplica al crecimiento y a las consultas; el resto refleja el catálogo actual.
+      </p>
+    </div>
+  )
+}
+
+export default AnalyticsDashboard
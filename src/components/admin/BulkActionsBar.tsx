@@ -0,0 +1,437 @@
+import { useState } from "react"
+import { motion } from "framer-motion"
+import {
+  AlertTriangle,
+  CheckCircle,
+  FolderInput,
+  MinusCircle,
+  PackageCheck,
+  PackageX,
+  RefreshCw,
+  SlidersHorizontal,
+  Trash2,
+  X,
+  XCircle,
+} from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useBulkProductsMutation } from "@/hooks/use-admin-queries"
+import {
+  BulkItemResult,
+  BulkProductAction,
+  BulkTarget,
+  buildBulkTargets,
+  describeBulkAction,
+} from "@/lib/product-bulk"
+import { Product } from "@/types/product"
+import { Category } from "@/types/categories"
+import { Collection } from "@/types/collections"
+
+/* ======================= TYPES ======================= */
+
+type BulkDialog = "move" | "stock" | "delete" | null
+
+interface BulkRun {
+  action: BulkProductAction
+  targets: BulkTarget[]
+  results: BulkItemResult[]
+  progress: number
+  pending: number
+}
+
+interface BulkActionsBarProps {
+  selected: Product[]
+  categories: Category[]
+  collections: Collection[]
+  onClearSelection: () => void
+  /** Se llama al terminar con los ids que fallaron u omitidos, para dejarlos seleccionados */
+  onComplete: (failedIds: string[]) => void
+}
+
+const KEEP_CURRENT = "__keep__"
+
+/* ======================= RESULTS DIALOG ======================= */
+
+interface BulkResultsDialogProps {
+  run: BulkRun | null
+  isRunning: boolean
+  onRetry: () => void
+  onClose: () => void
+}
+
+const BulkResultsDialog = ({ run, isRunning, onRetry, onClose }: BulkResultsDialogProps) => {
+  const failed = run?.results.filter((r) => !r.ok && !r.skipped) ?? []
+  const skipped = run?.results.filter((r) => r.skipped) ?? []
+  const succeeded = (run?.results.length ?? 0) - failed.length - skipped.length
+
+  return (
+    <Dialog open={run !== null} onOpenChange={(open) => !open && !isRunning && onClose()}>
+      <DialogContent className="max-w-lg border-2">
+        <DialogHeader>
+          <DialogTitle className="text-xl">{run && describeBulkAction(run.action)}</DialogTitle>
+          <DialogDescription>
+            {isRunning
+              ? `Procesando ${run?.progress ?? 0} de ${run?.pending ?? 0}...`
+              : [
+                  `${succeeded} correctos`,
+                  skipped.length > 0 && `${skipped.length} omitidos`,
+                  `${failed.length} con error`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isRunning && (
+          <Progress value={run?.pending ? (run.progress / run.pending) * 100 : 0} className="h-2" />
+        )}
+
+        <ul className="max-h-[45vh] overflow-y-auto divide-y rounded-lg border-2">
+          {run?.results.map((result) => (
+            <li key={result.id} className="flex items-start gap-3 px-4 py-2.5 text-sm">
+              {result.ok ? (
+                <CheckCircle className="w-4 h-4 mt-0.5 text-emerald-500 shrink-0" />
+              ) : result.skipped ? (
+                <MinusCircle className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+              ) : (
+                <XCircle className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+              )}
+              <div className="min-w-0">
+                <p className="font-medium truncate">{result.name}</p>
+                {result.error && (
+                  <p className={`text-xs ${result.skipped ? "text-muted-foreground" : "text-destructive"}`}>
+                    {result.error}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {failed.length > 0 && (
+            <Button variant="outline" onClick={onRetry} disabled={isRunning} className="gap-2">
+              <RefreshCw className={`w-4 h-4 ${isRunning ? "animate-spin" : ""}`} />
+              Reintentar {failed.length} {failed.length === 1 ? "fallido" : "fallidos"}
+            </Button>
+          )}
+          <Button onClick={onClose} disabled={isRunning}>
+            Cerrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/* ======================= MAIN COMPONENT ======================= */
+
+export const BulkActionsBar = ({
+  selected,
+  categories,
+  collections,
+  onClearSelection,
+  onComplete,
+}: BulkActionsBarProps) => {
+  const bulkProducts = useBulkProductsMutation()
+
+  const [dialog, setDialog] = useState<BulkDialog>(null)
+  const [moveCategory, setMoveCategory] = useState(KEEP_CURRENT)
+  const [moveCollection, setMoveCollection] = useState(KEEP_CURRENT)
+  const [stockMode, setStockMode] = useState<"set" | "add">("set")
+  const [stockAmount, setStockAmount] = useState("")
+  const [run, setRun] = useState<BulkRun | null>(null)
+
+  const parsedAmount = Number(stockAmount)
+  const isValidAmount =
+    stockAmount.trim() !== "" &&
+    Number.isInteger(parsedAmount) &&
+    (stockMode === "add" || parsedAmount >= 0)
+
+  // `previous` = corrida anterior al reintentar: sus resultados se actualizan en el lugar
+  const execute = async (action: BulkProductAction, targets: BulkTarget[], previous?: BulkRun) => {
+    const allTargets = previous?.targets ?? targets
+    const pending = targets.filter((t) => !t.skipReason).length
+    setRun({ action, targets: allTargets, results: previous?.results ?? [], progress: 0, pending })
+
+    const results = await bulkProducts.mutateAsync({
+      targets,
+      onProgress: (done) => setRun((current) => current && { ...current, progress: done }),
+    })
+
+    const byId = new Map(results.map((r) => [r.id, r]))
+    const merged = previous ? previous.results.map((r) => byId.get(r.id) ?? r) : results
+
+    setRun({ action, targets: allTargets, results: merged, progress: pending, pending })
+    onComplete(merged.filter((r) => !r.ok).map((r) => r.id))
+  }
+
+  const start = (action: BulkProductAction) => {
+    setDialog(null)
+    execute(action, buildBulkTargets(selected, action, categories, collections))
+  }
+
+  const retryFailed = () => {
+    if (!run) return
+    const failedIds = new Set(run.results.filter((r) => !r.ok && !r.skipped).map((r) => r.id))
+    execute(run.action, run.targets.filter((t) => failedIds.has(t.id)), run)
+  }
+
+  const openMove = () => {
+    setMoveCategory(KEEP_CURRENT)
+    setMoveCollection(KEEP_CURRENT)
+    setDialog("move")
+  }
+
+  const openStock = () => {
+    setStockMode("set")
+    setStockAmount("")
+    setDialog("stock")
+  }
+
+  const count = selected.length
+
+  return (
+    <>
+      {count > 0 && (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="p-4 border-2 border-primary/40 shadow-lg bg-primary/5">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold mr-2">
+                {count} {count === 1 ? "producto seleccionado" : "productos seleccionados"}
+              </span>
+
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => start({ type: "setInStock", inStock: true })}
+                className="gap-2"
+              >
+                <PackageCheck className="w-4 h-4" />
+                En stock
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => start({ type: "setInStock", inStock: false })}
+                className="gap-2"
+              >
+                <PackageX className="w-4 h-4" />
+                Sin stock
+              </Button>
+              <Button size="sm" variant="outline" onClick={openMove} className="gap-2">
+                <FolderInput className="w-4 h-4" />
+                Mover
+              </Button>
+              <Button size="sm" variant="outline" onClick={openStock} className="gap-2">
+                <SlidersHorizontal className="w-4 h-4" />
+                Ajustar stock
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDialog("delete")}
+                className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="w-4 h-4" />
+                Eliminar
+              </Button>
+
+              <Button size="sm" variant="ghost" onClick={onClearSelection} className="gap-2 ml-auto">
+                <X className="w-4 h-4" />
+                Quitar selección
+              </Button>
+            </div>
+          </Card>
+        </motion.div>
+      )}
+
+      {/* Move Dialog */}
+      <Dialog open={dialog === "move"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-md border-2">
+          <DialogHeader>
+            <DialogTitle className="text-xl">Mover {count} productos</DialogTitle>
+            <DialogDescription>Elegí la nueva categoría, colección o ambas</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Categoría</Label>
+              <Select value={moveCategory} onValueChange={setMoveCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP_CURRENT}>No cambiar</SelectItem>
+                  {categories.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Colección</Label>
+              <Select value={moveCollection} onValueChange={setMoveCollection}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP_CURRENT}>No cambiar</SelectItem>
+                  {collections.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancelar
+            </Button>
+            <Button
+              disabled={moveCategory === KEEP_CURRENT && moveCollection === KEEP_CURRENT}
+              onClick={() =>
+                start({
+                  type: "move",
+                  categoryId: moveCategory === KEEP_CURRENT ? undefined : moveCategory,
+                  collectionId: moveCollection === KEEP_CURRENT ? undefined : moveCollection,
+                })
+              }
+            >
+              Mover
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock Dialog */}
+      <Dialog open={dialog === "stock"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-md border-2">
+          <DialogHeader>
+            <DialogTitle className="text-xl">Ajustar stock de {count} productos</DialogTitle>
+            <DialogDescription>
+              Con stock 0 el producto queda sin stock; con más de 0, disponible
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Operación</Label>
+              <Select value={stockMode} onValueChange={(v) => setStockMode(v as "set" | "add")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="set">Fijar en</SelectItem>
+                  <SelectItem value="add">Sumar / restar</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-stock-amount">Cantidad</Label>
+              <Input
+                id="bulk-stock-amount"
+                type="number"
+                step={1}
+                min={stockMode === "set" ? 0 : undefined}
+                placeholder={stockMode === "set" ? "Ej: 10" : "Ej: -2"}
+                value={stockAmount}
+                onChange={(e) => setStockAmount(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancelar
+            </Button>
+            <Button
+              disabled={!isValidAmount}
+              onClick={() => start({ type: "adjustStock", mode: stockMode, amount: parsedAmount })}
+            >
+              Aplicar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={dialog === "delete"} onOpenChange={(open) => !open && setDialog(null)}>
+        <AlertDialogContent className="border-2">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2 text-xl">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              ¿Eliminar {count} {count === 1 ? "producto" : "productos"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="space-y-2">
+              <p>
+                Se eliminarán permanentemente{" "}
+                <span className="font-semibold text-foreground">
+                  {selected
+                    .slice(0, 3)
+                    .map((p) => `"${p.name}"`)
+                    .join(", ")}
+                </span>
+                {count > 3 && ` y ${count - 3} más`}.
+              </p>
+              <p className="text-destructive font-medium">
+                Esta acción no se puede deshacer.
+              </p>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => start({ type: "delete" })}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Eliminar {count}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <BulkResultsDialog
+        run={run}
+        isRunning={bulkProducts.isPending}
+        onRetry={retryFailed}
+        onClose={() => setRun(null)}
+      />
+    </>
+  )
+}
@@ -0,0 +1,442 @@
+import { useMemo, useState } from "react"
+import { motion } from "framer-motion"
+import {
+  ChevronDown,
+  ChevronUp,
+  Filter,
+  Inbox,
+  MessageSquareText,
+  Search,
+  TrendingUp,
+  X,
+} from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import {
+  useAdminConsultationsQuery,
+  useUpdateConsultationStatusMutation,
+} from "@/hooks/use-admin-queries"
+import { getErrorMessage } from "@/config/api"
+import { CONSULTATION_STATUS_LABELS, getDeliveryLabel } from "@/lib/consultation"
+import { normalizeText } from "@/lib/taxonomy"
+import { Consultation, ConsultationStatus } from "@/types/consultations"
+
+/* ======================= TYPES ======================= */
+
+type StatusFilter = ConsultationStatus | "all"
+
+interface TopProduct {
+  productId: string
+  name: string
+  units: number
+  consultations: number
+}
+
+interface ConsultationsInboxProps {
+  enabled: boolean
+  /** Devuelve true si el error ya se manejó (sesión vencida) */
+  onAuthError: (err: unknown) => boolean
+}
+
+/* ======================= HELPERS ======================= */
+
+const STATUS_ORDER: ConsultationStatus[] = ["new", "answered", "sold", "discarded"]
+
+const STATUS_BADGE_CLASSES: Record<ConsultationStatus, string> = {
+  new: "bg-blue-500/20 text-blue-600 dark:text-blue-400 border-blue-500/30",
+  answered: "bg-amber-500/20 text-amber-600 dark:text-amber-400 border-amber-500/30",
+  sold: "bg-emerald-500/20 text-emerald-600 dark:text-emerald-400 border-emerald-500/30",
+  discarded: "bg-muted text-muted-foreground border-border",
+}
+
+const TOP_PRODUCTS_LIMIT = 5
+
+const dateFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+})
+
+function matchesSearch(c: Consultation, term: string) {
+  if (!term) return true
+
+  const haystack = [
+    c.contact?.name,
+    c.contact?.city,
+    ...c.items.map((item) => `${item.name} ${item.note ?? ""}`),
+  ].join(" ")
+
+  return normalizeText(haystack).includes(term)
+}
+
+function getTopProducts(consultations: Consultation[]): TopProduct[] {
+  const byProduct = new Map<string, TopProduct>()
+
+  for (const c of consultations) {
+    for (const item of c.items) {
+      const entry = byProduct.get(item.productId) ?? {
+        productId: item.productId,
+        name: item.name,
+        units: 0,
+        consultations: 0,
+      }
+      entry.units += item.qty
+      entry.consultations += 1
+      byProduct.set(item.productId, entry)
+    }
+  }
+
+  return Array.from(byProduct.values())
+    .sort((a, b) => b.consultations - a.consultations || b.units - a.units)
+    .slice(0, TOP_PRODUCTS_LIMIT)
+}
+
+/* ======================= STATUS BADGE ======================= */
+
+export const ConsultationStatusBadge = ({ status }: { status: ConsultationStatus }) => (
+  <Badge className={`gap-1.5 ${STATUS_BADGE_CLASSES[status]}`}>
+    {CONSULTATION_STATUS_LABELS[status]}
+  </Badge>
+)
+
+/* ======================= CONSULTATION ROW ======================= */
+
+interface ConsultationRowProps {
+  consultation: Consultation
+  onStatusChange: (id: string, status: ConsultationStatus) => void
+}
+
+const ConsultationRow = ({ consultation, onStatusChange }: ConsultationRowProps) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  const units = consultation.items.reduce((total, item) => total + item.qty, 0)
+  const delivery = getDeliveryLabel(consultation.contact?.delivery)
+
+  return (
+    <>
+      <TableRow className="group hover:bg-muted/50 transition-colors">
+        <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+          {dateFormatter.format(new Date(consultation.createdAt))}
+        </TableCell>
+
+        <TableCell>
+          {consultation.contact?.name || consultation.contact?.city ? (
+            <div className="space-y-0.5">
+              <p className="font-semibold">{consultation.contact?.name ?? "Sin nombre"}</p>
+              <p className="text-xs text-muted-foreground">
+                {[consultation.contact?.city, delivery].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+          ) : (
+            <span className="text-muted-foreground text-sm">Anónimo</span>
+          )}
+        </TableCell>
+
+        <TableCell>
+          <ul className="space-y-0.5 text-sm">
+            {consultation.items.map((item) => (
+              <li key={item.productId}>
+                {item.name} <span className="text-muted-foreground">×{item.qty}</span>
+                {item.note && (
+                  <span className="block text-xs text-muted-foreground italic">“{item.note}”</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </TableCell>
+
+        <TableCell className="font-semibold tabular-nums">{units}</TableCell>
+
+        <TableCell>
+          <Select
+            value={consultation.status}
+            onValueChange={(v) => onStatusChange(consultation.id, v as ConsultationStatus)}
+          >
+            <SelectTrigger className="w-[150px] h-9">
+              <SelectValue>
+                <ConsultationStatusBadge status={consultation.status} />
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_ORDER.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {CONSULTATION_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+
+        <TableCell className="text-right">
+          {consultation.message && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="h-8 w-8 p-0"
+              aria-label={isExpanded ? "Ocultar mensaje" : "Ver mensaje"}
+            >
+              {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </Button>
+          )}
+        </TableCell>
+      </TableRow>
+
+      {isExpanded && (
+        <TableRow className="bg-gradient-to-r from-muted/50 to-muted/20">
+          <TableCell colSpan={6} className="py-4">
+            <div className="flex gap-3 text-sm">
+              <div className="p-2 rounded-lg bg-primary/10 shrink-0 h-fit">
+                <MessageSquareText className="w-4 h-4 text-primary" />
+              </div>
+              <pre className="whitespace-pre-wrap font-sans leading-relaxed">{consultation.message}</pre>
+            </div>
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  )
+}
+
+/* ======================= MAIN COMPONENT ======================= */
+
+const ConsultationsInbox = ({ enabled, onAuthError }: ConsultationsInboxProps) => {
+  const { toast } = useToast()
+  const consultationsQuery = useAdminConsultationsQuery({ enabled })
+  const updateStatus = useUpdateConsultationStatusMutation()
+
+  const [search, setSearch] = useState("")
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+
+  const consultations = useMemo(() => consultationsQuery.data ?? [], [consultationsQuery.data])
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<ConsultationStatus, number> = { new: 0, answered: 0, sold: 0, discarded: 0 }
+    for (const c of consultations) counts[c.status]++
+    return counts
+  }, [consultations])
+
+  const filtered = useMemo(() => {
+    const term = normalizeText(search)
+    return consultations.filter(
+      (c) => (statusFilter === "all" || c.status === statusFilter) && matchesSearch(c, term)
+    )
+  }, [consultations, search, statusFilter])
+
+  const topProducts = useMemo(() => getTopProducts(filtered), [filtered])
+  const maxTopCount = topProducts[0]?.consultations ?? 0
+
+  const hasActiveFilters = search !== "" || statusFilter !== "all"
+
+  const handleStatusChange = (id: string, status: ConsultationStatus) => {
+    updateStatus.mutate(
+      { id, status },
+      {
+        onError: (err) => {
+          if (onAuthError(err)) return
+          toast({
+            title: "Error",
+            description: getErrorMessage(err, "No se pudo actualizar el estado"),
+            variant: "destructive",
+          })
+        },
+      }
+    )
+  }
+
+  if (consultationsQuery.isError && !consultationsQuery.data) {
+    return (
+      <Card className="p-10 border-2 text-center space-y-4">
+        <p className="text-muted-foreground">
+          {getErrorMessage(consultationsQuery.error, "No se pudieron cargar las consultas")}
+        </p>
+        <Button variant="outline" onClick={() => consultationsQuery.refetch()}>
+          Reintentar
+        </Button>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Status summary */}
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        {STATUS_ORDER.map((status, i) => (
+          <motion.button
+            key={status}
+            type="button"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: i * 0.05 }}
+            onClick={() => setStatusFilter(statusFilter === status ? "all" : status)}
+            className={`text-left rounded-xl border-2 p-4 transition-all hover:shadow-lg ${
+              statusFilter === status ? "border-primary shadow-lg" : "bg-card"
+            }`}
+          >
+            <ConsultationStatusBadge status={status} />
+            <p className="text-3xl font-black mt-3">{statusCounts[status]}</p>
+          </motion.button>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Filters */}
+        <Card className="p-6 border-2 lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30">
+                <Filter className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+              </div>
+              <h3 className="text-lg font-bold">Filtros</h3>
+            </div>
+            {hasActiveFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSearch("")
+                  setStatusFilter("all")
+                }}
+                className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                <X className="w-4 h-4" />
+                Limpiar
+              </Button>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por cliente, ciudad o producto..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Todos los estados" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos los estados</SelectItem>
+                {STATUS_ORDER.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {CONSULTATION_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-sm text-muted-foreground mt-4">
+            Mostrando <span className="font-bold text-foreground">{filtered.length}</span> de{" "}
+            <span className="font-bold text-foreground">{consultations.length}</span> consultas
+          </p>
+        </Card>
+
+        {/* Most asked products */}
+        <Card className="border-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-bold flex items-center gap-2">
+              <TrendingUp className="w-4 h-4 text-primary" />
+              Más consultados
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {topProducts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Sin datos para los filtros actuales</p>
+            ) : (
+              topProducts.map((p) => (
+                <div key={p.productId} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="font-medium truncate">{p.name}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {p.consultations} × · {p.units} u.
+                    </span>
+                  </div>
+                  <Progress
+                    value={maxTopCount ? (p.consultations / maxTopCount) * 100 : 0}
+                    className="h-1.5"
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Consultations table */}
+      <Card className="border-2 shadow-xl">
+        <div className="rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gradient-to-r from-muted to-muted/50 hover:from-muted hover:to-muted/50">
+                <TableHead className="font-bold">Fecha</TableHead>
+                <TableHead className="font-bold">Cliente</TableHead>
+                <TableHead className="font-bold">Productos</TableHead>
+                <TableHead className="font-bold">Unidades</TableHead>
+                <TableHead className="font-bold">Estado</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {consultationsQuery.isPending ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-40 text-center text-muted-foreground">
+                    Cargando consultas...
+                  </TableCell>
+                </TableRow>
+              ) : filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-64 text-center">
+                    <div className="flex flex-col items-center gap-4 text-muted-foreground">
+                      <div className="p-6 rounded-2xl bg-gradient-to-br from-muted to-muted/50">
+                        <Inbox className="w-16 h-16" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-xl mb-2">No hay consultas</p>
+                        <p className="text-sm">
+                          {hasActiveFilters
+                            ? "No se encontraron consultas con los filtros aplicados"
+                            : "Las consultas enviadas desde el carrito aparecen acá"}
+                        </p>
+                      </div>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((c) => (
+                  <ConsultationRow key={c.id} consultation={c} onStatusChange={handleStatusChange} />
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  )
+}
+
+export default ConsultationsInbox
@@ -0,0 +1,99 @@
+import { useState } from "react"
+import { DateRange } from "react-day-picker"
+import { format, startOfDay, subDays, subMonths } from "date-fns"
+import { es } from "date-fns/locale"
+import { CalendarDays } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+/* ======================= TYPES ======================= */
+
+export interface DateRangeValue {
+  from: Date
+  to: Date
+}
+
+interface DateRangePickerProps {
+  value: DateRangeValue
+  onChange: (value: DateRangeValue) => void
+  /** Fecha más antigua con datos: define el preset "Todo" */
+  earliest: Date
+}
+
+/* ======================= PRESETS ======================= */
+
+const PRESETS: { label: string; from: (today: Date, earliest: Date) => Date }[] = [
+  { label: "30 días", from: (today) => subDays(today, 29) },
+  { label: "90 días", from: (today) => subDays(today, 89) },
+  { label: "12 meses", from: (today) => subMonths(today, 12) },
+  { label: "Todo", from: (_, earliest) => startOfDay(earliest) },
+]
+
+function formatRange({ from, to }: DateRangeValue) {
+  const sameYear = from.getFullYear() === to.getFullYear()
+  return `${format(from, sameYear ? "d MMM" : "d MMM yyyy", { locale: es })} – ${format(to, "d MMM yyyy", { locale: es })}`
+}
+
+/* ======================= COMPONENT ======================= */
+
+export const DateRangePicker = ({ value, onChange, earliest }: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false)
+  // Rango en edición: el calendario deja elegir solo "desde" antes de cerrar
+  const [draft, setDraft] = useState<DateRange | undefined>(value)
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) setDraft(value)
+  }
+
+  const handleSelect = (range: DateRange | undefined) => {
+    setDraft(range)
+    if (range?.from && range.to) {
+      onChange({ from: startOfDay(range.from), to: startOfDay(range.to) })
+      setOpen(false)
+    }
+  }
+
+  const applyPreset = (preset: (typeof PRESETS)[number]) => {
+    const today = startOfDay(new Date())
+    onChange({ from: preset.from(today, earliest), to: today })
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2 border-2 justify-start font-medium">
+          <CalendarDays className="w-4 h-4 text-primary" />
+          {formatRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-0">
+        <div className="flex flex-wrap gap-2 p-3 border-b">
+          {PRESETS.map((preset) => (
+            <Button
+              key={preset.label}
+              variant="secondary"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => applyPreset(preset)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          locale={es}
+          numberOfMonths={2}
+          defaultMonth={subMonths(value.to, 1)}
+          selected={draft}
+          onSelect={handleSelect}
+          disabled={{ after: new Date() }}
+        />
+      </PopoverContent>
+    </Popover>
+  )
+}
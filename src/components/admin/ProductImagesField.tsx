@@ -0,0 +1,203 @@
+import { useState } from "react"
+import { ChevronLeft, ChevronRight, Crop, GripVertical, Star, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ImageDropzone } from "@/components/ImageDropzone"
+import { ImageCropDialog } from "@/components/ImageCropDialog"
+import { useToast } from "@/hooks/use-toast"
+import { moveItem } from "@/lib/taxonomy"
+import { getErrorMessage } from "@/config/api"
+import { processImage, ProcessedImage, SquareCrop } from "@/lib/image-processing"
+import {
+  draftsFromProcessed,
+  MAX_PRODUCT_IMAGES,
+  ProductImageDraft,
+  revokeDrafts,
+} from "@/lib/product-images"
+
+interface ProductImagesFieldProps {
+  images: ProductImageDraft[]
+  onChange: (images: ProductImageDraft[]) => void
+}
+
+/** Galería editable: arrastrar para ordenar, la primera es la portada */
+export const ProductImagesField = ({ images, onChange }: ProductImagesFieldProps) => {
+  const { toast } = useToast()
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [overIndex, setOverIndex] = useState<number | null>(null)
+  const [cropping, setCropping] = useState<ProductImageDraft | null>(null)
+
+  const remaining = MAX_PRODUCT_IMAGES - images.length
+
+  const handleAdd = (results: ProcessedImage[]) => {
+    const accepted = results.slice(0, remaining)
+    if (accepted.length < results.length) {
+      toast({
+        title: "Algunas imágenes no se agregaron",
+        description: `Se admiten hasta ${MAX_PRODUCT_IMAGES} imágenes por producto`,
+        variant: "destructive",
+      })
+    }
+    if (accepted.length) onChange([...images, ...draftsFromProcessed(accepted)])
+  }
+
+  // Se recorta el original: recortar la versión ya comprimida perdería calidad
+  const handleCrop = async (crop: SquareCrop) => {
+    const target = cropping
+    setCropping(null)
+    if (!target?.original) return
+
+    try {
+      const [cropped] = draftsFromProcessed([await processImage(target.original, { crop })])
+      revokeDrafts([target])
+      onChange(images.map((image) => (image.key === target.key ? { ...cropped, key: target.key } : image)))
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "No se pudo recortar la imagen"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRemove = (index: number) => {
+    revokeDrafts([images[index]])
+    onChange(images.filter((_, i) => i !== index))
+  }
+
+  const handleDrop = (to: number) => {
+    if (dragIndex !== null) onChange(moveItem(images, dragIndex, to))
+    setDragIndex(null)
+    setOverIndex(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      {images.length > 0 && (
+        <ul className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+          {images.map((image, index) => (
+            <li
+              key={image.key}
+              draggable
+              onDragStart={(e) => {
+                setDragIndex(index)
+                e.dataTransfer.effectAllowed = "move"
+              }}
+              onDragOver={(e) => {
+                e.preventDefault()
+                setOverIndex(index)
+              }}
+              onDragLeave={() => setOverIndex((current) => (current === index ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault()
+                handleDrop(index)
+              }}
+              onDragEnd={() => {
+                setDragIndex(null)
+                setOverIndex(null)
+              }}
+              className={`group relative aspect-square rounded-lg border-2 overflow-hidden bg-muted cursor-grab active:cursor-grabbing transition-all ${
+                index === 0 ? "border-primary" : "border-border"
+              } ${dragIndex === index ? "opacity-40" : ""} ${
+                overIndex === index && dragIndex !== index ? "ring-2 ring-primary ring-offset-2" : ""
+              }`}
+            >
+              <img src={image.url} alt="" className="w-full h-full object-cover" draggable={false} />
+
+              <GripVertical className="absolute top-1 left-1 w-4 h-4 text-white drop-shadow opacity-0 group-hover:opacity-100 transition-opacity" />
+
+              {index === 0 ? (
+                <Badge className="absolute bottom-1 left-1 h-5 px-1.5 text-[10px] gap-1">
+                  <Star className="w-3 h-3 fill-current" />
+                  Portada
+                </Badge>
+              ) : (
+                image.file && (
+                  <Badge variant="secondary" className="absolute bottom-1 left-1 h-5 px-1.5 text-[10px]">
+                    Nueva
+                  </Badge>
+                )
+              )}
+
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                onClick={() => handleRemove(index)}
+                aria-label={`Quitar imagen ${index + 1}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+
+              {/* Alternativa al arrastre para teclado y pantallas táctiles */}
+              <div className="absolute bottom-1 right-1 flex gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                {image.original && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setCropping(image)}
+                    aria-label={`Recortar imagen ${index + 1}`}
+                    title="Recortar cuadrado"
+                  >
+                    <Crop className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+                {index > 0 && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => onChange(moveItem(images, index, 0))}
+                    aria-label={`Usar imagen ${index + 1} como portada`}
+                    title="Usar como portada"
+                  >
+                    <Star className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === 0}
+                  onClick={() => onChange(moveItem(images, index, index - 1))}
+                  aria-label={`Mover imagen ${index + 1} antes`}
+                >
+                  <ChevronLeft className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === images.length - 1}
+                  onClick={() => onChange(moveItem(images, index, index + 1))}
+                  aria-label={`Mover imagen ${index + 1} después`}
+                >
+                  <ChevronRight className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ImageDropzone multiple onImagesSelect={handleAdd} disabled={remaining <= 0} />
+
+      <p className="text-xs text-muted-foreground">
+        {images.length}/{MAX_PRODUCT_IMAGES} imágenes · Arrastrá para ordenar; la primera es la portada
+      </p>
+
+      <ImageCropDialog
+        file={cropping?.original ?? null}
+        onCancel={() => setCropping(null)}
+        onConfirm={handleCrop}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,452 @@
+import { useMemo, useState } from "react"
+import {
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  FileSpreadsheet,
+  RefreshCw,
+  Upload,
+  XCircle,
+} from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useImportProductsMutation } from "@/hooks/use-admin-queries"
+import { downloadFile } from "@/lib/download"
+import { formatPrice } from "@/lib/price"
+import {
+  buildImportRows,
+  ColumnMapping,
+  guessColumnMapping,
+  IMPORT_FIELD_LABELS,
+  IMPORT_TEMPLATE_CSV,
+  ImportField,
+  ImportFileError,
+  ImportRow,
+  ImportRowResult,
+  parseImportFile,
+  ParsedImportFile,
+} from "@/lib/product-import"
+import { Product } from "@/types/product"
+import { Category } from "@/types/categories"
+import { Collection } from "@/types/collections"
+
+/* ======================= TYPES ======================= */
+
+type ImportStep = "select" | "preview" | "importing" | "done"
+
+interface ProductImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  products: Product[]
+  categories: Category[]
+  collections: Collection[]
+}
+
+const IGNORE_COLUMN = "__ignore__"
+
+/* ======================= HELPERS ======================= */
+
+function downloadTemplate() {
+  downloadFile(IMPORT_TEMPLATE_CSV, "plantilla-productos.csv", "text/csv;charset=utf-8")
+}
+
+// Sin columnas de precio el payload no los trae y se conservan los actuales
+function formatRowPrice({ listPrice, salePrice, currency, priceOnRequest }: ImportRow["payload"]) {
+  if (listPrice === undefined) return "Sin cambios"
+  if (priceOnRequest) return "A consultar"
+  if (listPrice === null) return "—"
+  return formatPrice(salePrice ?? listPrice, currency)
+}
+
+const ActionBadge = ({ action }: { action: ImportRow["action"] }) =>
+  action === "create" ? (
+    <Badge className="bg-emerald-500/20 text-emerald-600 dark:text-emerald-400 border-emerald-500/30">
+      Nuevo
+    </Badge>
+  ) : (
+    <Badge className="bg-blue-500/20 text-blue-600 dark:text-blue-400 border-blue-500/30">
+      Actualizar
+    </Badge>
+  )
+
+/* ======================= STEPS ======================= */
+
+const FileStep = ({ onFile }: { onFile: (file: File) => void }) => {
+  const [isDragging, setIsDragging] = useState(false)
+
+  return (
+    <div className="space-y-4">
+      <label
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          const file = e.dataTransfer.files?.[0]
+          if (file) onFile(file)
+        }}
+        className={`border-2 border-dashed rounded-lg p-10 flex flex-col items-center gap-3 cursor-pointer text-center transition-colors ${
+          isDragging ? "border-primary bg-primary/5" : "hover:border-primary/50"
+        }`}
+      >
+        <div className="p-4 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5">
+          <Upload className="w-8 h-8 text-primary" />
+        </div>
+        <span className="font-semibold">Arrastrá o hacé click para elegir un archivo</span>
+        <span className="text-sm text-muted-foreground">CSV (coma o punto y coma) o JSON</span>
+        <input
+          type="file"
+          hidden
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onFile(file)
+            e.target.value = ""
+          }}
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+        <p>
+          Las filas con <span className="font-semibold text-foreground">id</span> o con el nombre de
+          un producto existente lo actualizan; el resto se crean.
+        </p>
+        <Button variant="outline" size="sm" onClick={downloadTemplate} className="gap-2 shrink-0">
+          <Download className="w-4 h-4" />
+          Plantilla
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface MappingEditorProps {
+  headers: string[]
+  mapping: ColumnMapping
+  onChange: (mapping: ColumnMapping) => void
+}
+
+const MappingEditor = ({ headers, mapping, onChange }: MappingEditorProps) => {
+  const setField = (header: string, value: string) => {
+    const field = value === IGNORE_COLUMN ? null : (value as ImportField)
+    const next: ColumnMapping = { ...mapping, [header]: field }
+
+    // Un campo solo puede venir de una columna
+    if (field) {
+      for (const other of headers) {
+        if (other !== header && next[other] === field) next[other] = null
+      }
+    }
+
+    onChange(next)
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {headers.map((header) => (
+        <div key={header} className="flex items-center gap-3">
+          <Label className="w-32 truncate font-mono text-xs" title={header}>
+            {header}
+          </Label>
+          <Select value={mapping[header] ?? IGNORE_COLUMN} onValueChange={(v) => setField(header, v)}>
+            <SelectTrigger className="h-9 flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={IGNORE_COLUMN}>Ignorar</SelectItem>
+              {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                <SelectItem key={field} value={field}>
+                  {IMPORT_FIELD_LABELS[field]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/* ======================= MAIN COMPONENT ======================= */
+
+export const ProductImportDialog = ({
+  open,
+  onOpenChange,
+  products,
+  categories,
+  collections,
+}: ProductImportDialogProps) => {
+  const { toast } = useToast()
+  const importProducts = useImportProductsMutation()
+
+  const [step, setStep] = useState<ImportStep>("select")
+  const [fileName, setFileName] = useState("")
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [progress, setProgress] = useState(0)
+  const [results, setResults] = useState<ImportRowResult[]>([])
+
+  const rows = useMemo(
+    () => (parsed ? buildImportRows(parsed, mapping, { products, categories, collections }) : []),
+    [parsed, mapping, products, categories, collections]
+  )
+  const validRows = rows.filter((r) => r.errors.length === 0)
+  const invalidCount = rows.length - validRows.length
+  const hasNameColumn = Object.values(mapping).some((f) => f === "name" || f === "id")
+
+  const categoryNames = useMemo(() => new Map(categories.map((c) => [c.id, c.name])), [categories])
+  const collectionNames = useMemo(() => new Map(collections.map((c) => [c.id, c.name])), [collections])
+
+  // En CSV es la fila de la planilla; en JSON, la posición del producto
+  const lineLabel = parsed?.format === "json" ? "N°" : "Fila"
+
+  const reset = () => {
+    setStep("select")
+    setFileName("")
+    setParsed(null)
+    setMapping({})
+    setProgress(0)
+    setResults([])
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    // No se puede cerrar a mitad de la importación
+    if (step === "importing") return
+    onOpenChange(next)
+    if (!next) reset()
+  }
+
+  const handleFile = async (file: File) => {
+    try {
+      const result = parseImportFile(file.name, await file.text())
+      setFileName(file.name)
+      setParsed(result)
+      setMapping(guessColumnMapping(result.headers))
+      setStep("preview")
+    } catch (err) {
+      toast({
+        title: "No se pudo leer el archivo",
+        description: err instanceof ImportFileError ? err.message : "Formato no reconocido",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleImport = async () => {
+    setStep("importing")
+    setProgress(0)
+
+    const report = await importProducts.mutateAsync({ rows: validRows, onProgress: setProgress })
+
+    setResults(report)
+    setStep("done")
+
+    const failed = report.filter((r) => !r.ok).length
+    toast({
+      title: failed ? "Importación con errores" : "Importación completa",
+      description: `${report.length - failed} de ${report.length} productos guardados`,
+      variant: failed ? "destructive" : "default",
+    })
+  }
+
+  const succeeded = results.filter((r) => r.ok).length
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto border-2">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl">
+            <FileSpreadsheet className="w-5 h-5" />
+            Importar productos
+          </DialogTitle>
+          <DialogDescription>
+            {step === "select" && "Cargá varios productos a la vez desde un archivo CSV o JSON"}
+            {step === "preview" && `${fileName} · ${rows.length} filas`}
+            {step === "importing" && "Guardando productos, no cierres esta ventana..."}
+            {step === "done" && `${succeeded} de ${results.length} productos guardados`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "select" && <FileStep onFile={handleFile} />}
+
+        {step === "preview" && parsed && (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <h4 className="font-semibold">Columnas</h4>
+              <MappingEditor headers={parsed.headers} mapping={mapping} onChange={setMapping} />
+              {!hasNameColumn && (
+                <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="w-4 h-4" />
+                  Asigná una columna a Nombre (o a ID para actualizar)
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{validRows.filter((r) => r.action === "create").length} nuevos</Badge>
+              <Badge variant="secondary">{validRows.filter((r) => r.action === "update").length} a actualizar</Badge>
+              {invalidCount > 0 && (
+                <Badge variant="destructive">
+                  {invalidCount} con errores (no se importan)
+                </Badge>
+              )}
+            </div>
+
+            <div className="rounded-lg border-2 max-h-[40vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">{lineLabel}</TableHead>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Acción</TableHead>
+                    <TableHead>Categoría</TableHead>
+                    <TableHead>Colección</TableHead>
+                    <TableHead>Stock</TableHead>
+                    <TableHead>Precio</TableHead>
+                    <TableHead>Validación</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line} className={row.errors.length ? "bg-destructive/5" : ""}>
+                      <TableCell className="text-muted-foreground tabular-nums">{row.line}</TableCell>
+                      <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                      <TableCell>
+                        <ActionBadge action={row.action} />
+                      </TableCell>
+                      <TableCell>{categoryNames.get(row.payload.categoryId) ?? "—"}</TableCell>
+                      <TableCell>{collectionNames.get(row.payload.collectionId) ?? "—"}</TableCell>
+                      <TableCell className="tabular-nums">
+                        {row.payload.inStock ? row.payload.stockQty : "Sin stock"}
+                      </TableCell>
+                      <TableCell className="tabular-nums whitespace-nowrap">
+                        {formatRowPrice(row.payload)}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <CheckCircle className="w-4 h-4 text-emerald-500" />
+                        ) : (
+                          <ul className="text-xs text-destructive space-y-0.5">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="py-10 space-y-4">
+            <Progress value={validRows.length ? (progress / validRows.length) * 100 : 0} className="h-3" />
+            <p className="text-center text-sm text-muted-foreground">
+              {progress} de {validRows.length} productos
+            </p>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="rounded-lg border-2 max-h-[50vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-14">{lineLabel}</TableHead>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Acción</TableHead>
+                  <TableHead>Resultado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.line}>
+                    <TableCell className="text-muted-foreground tabular-nums">{result.line}</TableCell>
+                    <TableCell className="font-medium">{result.name}</TableCell>
+                    <TableCell>
+                      <ActionBadge action={result.action} />
+                    </TableCell>
+                    <TableCell>
+                      {result.ok ? (
+                        <span className="flex items-center gap-2 text-sm text-emerald-600 dark:text-emerald-400">
+                          <CheckCircle className="w-4 h-4" />
+                          {result.action === "create" ? "Creado" : "Actualizado"}
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-2 text-sm text-destructive">
+                          <XCircle className="w-4 h-4 shrink-0" />
+                          {result.error}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Elegir otro archivo
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0} className="gap-2">
+                <Upload className="w-4 h-4" />
+                Importar {validRows.length} {validRows.length === 1 ? "producto" : "productos"}
+              </Button>
+            </>
+          )}
+          {step === "importing" && (
+            <Button disabled className="gap-2">
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              Importando...
+            </Button>
+          )}
+          {step === "done" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Importar otro archivo
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Cerrar</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
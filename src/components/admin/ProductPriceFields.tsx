@@ -0,0 +1,111 @@
+import { DollarSign, MessageCircle } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatPrice, getPriceInfo, parsePriceDraft, PriceDraft, SUPPORTED_CURRENCIES } from "@/lib/price"
+
+interface ProductPriceFieldsProps {
+  value: PriceDraft
+  onChange: (value: PriceDraft) => void
+}
+
+/** Precio de lista, oferta y moneda; todo opcional */
+export const ProductPriceFields = ({ value, onChange }: ProductPriceFieldsProps) => {
+  const parsed = parsePriceDraft(value)
+  const info = parsed.value ? getPriceInfo(parsed.value) : null
+  // Una moneda guardada que no está en la lista se sigue pudiendo elegir
+  const currencies = SUPPORTED_CURRENCIES.includes(value.currency as (typeof SUPPORTED_CURRENCIES)[number])
+    ? SUPPORTED_CURRENCIES
+    : [value.currency, ...SUPPORTED_CURRENCIES]
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border-2 bg-muted/30">
+      <div className="grid gap-4 sm:grid-cols-[1fr_1fr_7rem]">
+        <div className="space-y-2">
+          <Label htmlFor="listPrice" className="flex items-center gap-2">
+            <DollarSign className="w-4 h-4" />
+            Precio de lista
+          </Label>
+          <Input
+            id="listPrice"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            placeholder="Sin precio"
+            value={value.listPrice}
+            onChange={(e) => onChange({ ...value, listPrice: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="salePrice">Precio de oferta</Label>
+          <Input
+            id="salePrice"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            placeholder="Opcional"
+            value={value.salePrice}
+            onChange={(e) => onChange({ ...value, salePrice: e.target.value })}
+            aria-invalid={Boolean(parsed.error && value.salePrice)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Moneda</Label>
+          <Select value={value.currency} onValueChange={(currency) => onChange({ ...value, currency })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <MessageCircle className="w-5 h-5 text-muted-foreground" />
+          <div>
+            <Label htmlFor="priceOnRequest" className="text-base font-semibold cursor-pointer">
+              Precio a consultar
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Oculta el precio en la tienda aunque esté cargado
+            </p>
+          </div>
+        </div>
+        <Switch
+          id="priceOnRequest"
+          checked={value.priceOnRequest}
+          onCheckedChange={(priceOnRequest) => onChange({ ...value, priceOnRequest })}
+        />
+      </div>
+
+      <p className={`text-sm ${parsed.error ? "text-destructive" : "text-muted-foreground"}`} role="status">
+        {parsed.error
+          ? parsed.error
+          : info?.kind === "price"
+            ? `En la tienda: ${formatPrice(info.amount, info.currency)}${
+                info.discountPercent ? ` (${info.discountPercent}% off)` : ""
+              }`
+            : "En la tienda: precio a consultar"}
+      </p>
+    </div>
+  )
+}
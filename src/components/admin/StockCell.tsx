@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react"
+import { AlertTriangle } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { StockChange } from "@/lib/stock"
+import { Product } from "@/types/product"
+
+interface StockCellProps {
+  product: Product
+  isLowStock: boolean
+  onChange: (product: Product, change: StockChange) => void
+}
+
+/** Cantidad editable + interruptor de disponibilidad, sin abrir el diálogo */
+export const StockCell = ({ product, isLowStock, onChange }: StockCellProps) => {
+  const [draft, setDraft] = useState(String(product.stockQty ?? 0))
+  // Sin unidades solo se puede habilitar cargando una cantidad
+  const canEnable = (product.stockQty ?? 0) > 0
+
+  // El valor del servidor (o el rollback) pisa el borrador
+  useEffect(() => {
+    setDraft(String(product.stockQty ?? 0))
+  }, [product.stockQty])
+
+  const commit = () => {
+    const qty = Number(draft)
+    if (draft.trim() === "" || !Number.isInteger(qty) || qty < 0) {
+      setDraft(String(product.stockQty ?? 0))
+      return
+    }
+    if (qty !== (product.stockQty ?? 0)) onChange(product, { stockQty: qty })
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <Input
+        type="number"
+        inputMode="numeric"
+        min={0}
+        step={1}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur()
+          if (e.key === "Escape") {
+            setDraft(String(product.stockQty ?? 0))
+            e.currentTarget.blur()
+          }
+        }}
+        aria-label={`Stock de ${product.name}`}
+        className={`h-8 w-20 tabular-nums ${
+          isLowStock ? "border-amber-500/60 text-amber-700 dark:text-amber-400 font-semibold" : ""
+        }`}
+      />
+      <Switch
+        checked={product.inStock}
+        onCheckedChange={(checked) => onChange(product, { inStock: checked })}
+        disabled={!product.inStock && !canEnable}
+        title={!product.inStock && !canEnable ? "Cargá una cantidad para habilitarlo" : undefined}
+        aria-label={product.inStock ? "Marcar sin stock" : "Marcar en stock"}
+      />
+      {isLowStock ? (
+        <span className="flex items-center gap-1 text-xs font-semibold text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          Bajo
+        </span>
+      ) : (
+        !product.inStock && <span className="text-xs font-semibold text-red-600 dark:text-red-400">Sin stock</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,632 @@
+import { useMemo, useState } from "react"
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  FolderTree,
+  Image as ImageIcon,
+  Layers,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Tag,
+  Trash2,
+} from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ImageDropzone } from "@/components/ImageDropzone"
+import { useToast } from "@/hooks/use-toast"
+import {
+  useDeleteCategoryMutation,
+  useDeleteCollectionMutation,
+  useReorderCategoriesMutation,
+  useReorderCollectionsMutation,
+  useSaveCategoryMutation,
+  useSaveCollectionMutation,
+} from "@/hooks/use-admin-queries"
+import { FieldErrors, getErrorMessage, isApiError } from "@/config/api"
+import {
+  countProductsBySlug,
+  getSlugError,
+  MAX_TAXONOMY_NAME_LENGTH,
+  moveItem,
+  slugify,
+  TaxonomyItem,
+  TaxonomyKind,
+} from "@/lib/taxonomy"
+import { Product } from "@/types/product"
+import { Category } from "@/types/categories"
+import { Collection } from "@/types/collections"
+
+/* ======================= TYPES ======================= */
+
+interface TaxonomyFormValues {
+  name: string
+  slug: string
+  description: string
+  imageFile: File | null
+  /** Quitar la imagen guardada sin subir otra */
+  removeImage: boolean
+}
+
+interface TaxonomyPanelProps {
+  kind: TaxonomyKind
+  items: TaxonomyItem[]
+  products: Product[]
+  isReordering: boolean
+  onSave: (id: string | undefined, values: TaxonomyFormValues) => Promise<unknown>
+  onDelete: (id: string, reassignTo?: string | null) => Promise<unknown>
+  onReorder: (ids: string[]) => Promise<unknown>
+  onAuthError: (err: unknown) => boolean
+}
+
+interface TaxonomyManagerProps {
+  products: Product[]
+  categories: Category[]
+  collections: Collection[]
+  onAuthError: (err: unknown) => boolean
+}
+
+/* ======================= HELPERS ======================= */
+
+// Ambas son femeninas: los textos usan "la"/"nueva" sin distinguir
+const LABELS: Record<TaxonomyKind, { singular: string; plural: string }> = {
+  category: { singular: "categoría", plural: "Categorías" },
+  collection: { singular: "colección", plural: "Colecciones" },
+}
+
+// Valor del Select para "dejar sin asignar" (Radix no admite value vacío)
+const UNASSIGNED = "__none__"
+
+const emptyForm = (): TaxonomyFormValues => ({
+  name: "",
+  slug: "",
+  description: "",
+  imageFile: null,
+  removeImage: false,
+})
+
+/* ======================= PANEL ======================= */
+
+function TaxonomyPanel({
+  kind,
+  items,
+  products,
+  isReordering,
+  onSave,
+  onDelete,
+  onReorder,
+  onAuthError,
+}: TaxonomyPanelProps) {
+  const { toast } = useToast()
+  const labels = LABELS[kind]
+  const hasImage = kind === "collection"
+
+  const counts = useMemo(() => countProductsBySlug(products, kind), [products, kind])
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<TaxonomyItem | null>(null)
+  const [form, setForm] = useState<TaxonomyFormValues>(emptyForm)
+  // Al editar, el slug no sigue al nombre: cambiarlo rompe los links existentes
+  const [slugTouched, setSlugTouched] = useState(false)
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [toDelete, setToDelete] = useState<TaxonomyItem | null>(null)
+  const [reassignTo, setReassignTo] = useState("")
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const slugError = getSlugError(form.slug, items, editing?.id)
+  const nameError =
+    form.name.trim().length > 0 && form.name.trim().length < 2
+      ? "Mínimo 2 caracteres"
+      : null
+  const canSave = form.name.trim().length >= 2 && !slugError && !isSaving
+
+  const deleteCount = toDelete ? counts.get(toDelete.slug) ?? 0 : 0
+  const reassignOptions = items.filter((item) => item.id !== toDelete?.id)
+
+  /* ======================= FORM ======================= */
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm(emptyForm())
+    setSlugTouched(false)
+    setServerErrors({})
+    setDialogOpen(true)
+  }
+
+  const openEdit = (item: TaxonomyItem) => {
+    setEditing(item)
+    setForm({
+      name: item.name,
+      slug: item.slug,
+      description: item.description ?? "",
+      imageFile: null,
+      removeImage: false,
+    })
+    setSlugTouched(true)
+    setServerErrors({})
+    setDialogOpen(true)
+  }
+
+  const handleNameChange = (name: string) => {
+    setForm((prev) => ({ ...prev, name, slug: slugTouched ? prev.slug : slugify(name) }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave) return
+
+    setIsSaving(true)
+    try {
+      await onSave(editing?.id, { ...form, name: form.name.trim() })
+
+      setDialogOpen(false)
+      toast({
+        title: editing ? "Actualizado" : "Creado",
+        description: `La ${labels.singular} "${form.name.trim()}" se guardó correctamente`,
+      })
+    } catch (err) {
+      if (onAuthError(err)) return
+
+      if (isApiError(err)) setServerErrors(err.fieldErrors)
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, `No se pudo guardar la ${labels.singular}`),
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /* ======================= DELETE ======================= */
+
+  const openDelete = (item: TaxonomyItem) => {
+    setToDelete(item)
+    setReassignTo("")
+  }
+
+  const handleDelete = async () => {
+    if (!toDelete) return
+
+    setIsDeleting(true)
+    try {
+      await onDelete(
+        toDelete.id,
+        deleteCount > 0 ? (reassignTo === UNASSIGNED ? null : reassignTo) : undefined
+      )
+
+      setToDelete(null)
+      toast({
+        title: "Eliminado",
+        description:
+          deleteCount > 0
+            ? `Se eliminó "${toDelete.name}" y se reasignaron ${deleteCount} productos`
+            : `Se eliminó "${toDelete.name}"`,
+      })
+    } catch (err) {
+      if (onAuthError(err)) return
+
+      // El conteo local estaba desactualizado: la lista se recarga y el diálogo pide destino
+      const conflict = isApiError(err) && err.status === 409
+      toast({
+        title: conflict ? "Tiene productos asignados" : "Error",
+        description: conflict
+          ? "Elegí a dónde mover sus productos antes de eliminarla"
+          : getErrorMessage(err, `No se pudo eliminar la ${labels.singular}`),
+        variant: "destructive",
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  /* ======================= REORDER ======================= */
+
+  const handleMove = async (index: number, offset: number) => {
+    const next = moveItem(items, index, index + offset)
+    if (next === items) return
+
+    try {
+      await onReorder(next.map((item) => item.id))
+    } catch (err) {
+      if (onAuthError(err)) return
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "No se pudo guardar el orden"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  /* ======================= RENDER ======================= */
+
+  const Icon = kind === "category" ? Tag : Layers
+
+  return (
+    <Card className="border-2 overflow-hidden">
+      <CardHeader className="border-b-2 bg-muted/30">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <Icon className="w-5 h-5" />
+            {labels.plural}
+            <Badge variant="secondary" className="ml-1">
+              {items.length}
+            </Badge>
+          </CardTitle>
+          <Button size="sm" onClick={openCreate} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Nueva {labels.singular}
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableHead className="w-24">Orden</TableHead>
+              {hasImage && <TableHead className="w-20">Imagen</TableHead>}
+              <TableHead>Nombre</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead className="text-right">Productos</TableHead>
+              <TableHead className="text-right">Acciones</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={hasImage ? 6 : 5} className="text-center py-10 text-muted-foreground">
+                  Todavía no hay {labels.plural.toLowerCase()}
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((item, index) => {
+                const count = counts.get(item.slug) ?? 0
+
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === 0 || isReordering}
+                          onClick={() => handleMove(index, -1)}
+                          aria-label={`Subir ${item.name}`}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === items.length - 1 || isReordering}
+                          onClick={() => handleMove(index, 1)}
+                          aria-label={`Bajar ${item.name}`}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    {hasImage && (
+                      <TableCell>
+                        {item.imageUrl ? (
+                          <img
+                            src={item.imageUrl}
+                            alt=""
+                            className="w-12 h-12 rounded-md object-cover border"
+                          />
+                        ) : (
+                          <div className="w-12 h-12 rounded-md border-2 border-dashed flex items-center justify-center text-muted-foreground">
+                            <ImageIcon className="w-4 h-4" />
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <p className="font-semibold">{item.name}</p>
+                      {item.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-1">{item.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{item.slug}</code>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      <Badge variant={count > 0 ? "outline" : "secondary"}>{count}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEdit(item)}
+                          aria-label={`Editar ${item.name}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDelete(item)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950"
+                          aria-label={`Eliminar ${item.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto border-2">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-2xl">
+              {editing ? <Pencil className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+              {editing ? `Editar ${labels.singular}` : `Nueva ${labels.singular}`}
+            </DialogTitle>
+            <DialogDescription>
+              El slug se usa en las URLs del catálogo y no puede repetirse
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-5 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor={`${kind}-name`}>Nombre *</Label>
+              <Input
+                id={`${kind}-name`}
+                value={form.name}
+                maxLength={MAX_TAXONOMY_NAME_LENGTH}
+                onChange={(e) => handleNameChange(e.target.value)}
+                autoFocus
+              />
+              {(nameError ?? serverErrors.name) && (
+                <p className="text-xs text-destructive">{nameError ?? serverErrors.name}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`${kind}-slug`}>Slug *</Label>
+                {slugTouched && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    onClick={() => {
+                      setSlugTouched(false)
+                      setForm((prev) => ({ ...prev, slug: slugify(prev.name) }))
+                    }}
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    Generar desde el nombre
+                  </Button>
+                )}
+              </div>
+              <Input
+                id={`${kind}-slug`}
+                value={form.slug}
+                onChange={(e) => {
+                  setSlugTouched(true)
+                  setForm({ ...form, slug: e.target.value.toLowerCase() })
+                }}
+                className="font-mono text-sm"
+              />
+              {form.slug && (slugError ?? serverErrors.slug) ? (
+                <p className="text-xs text-destructive">{slugError ?? serverErrors.slug}</p>
+              ) : (
+                editing &&
+                form.slug !== editing.slug && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400">
+                    Los links que usen "{editing.slug}" dejarán de funcionar
+                  </p>
+                )
+              )}
+            </div>
+
+            {hasImage && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor={`${kind}-description`}>Descripción</Label>
+                  <Textarea
+                    id={`${kind}-description`}
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    rows={3}
+                    maxLength={500}
+                    className="resize-none"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="flex items-center gap-2">
+                      <ImageIcon className="w-4 h-4" />
+                      Imagen
+                    </Label>
+                    {(form.imageFile || (editing?.imageUrl && !form.removeImage)) && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs text-red-600"
+                        onClick={() => setForm({ ...form, imageFile: null, removeImage: true })}
+                      >
+                        Quitar imagen
+                      </Button>
+                    )}
+                  </div>
+                  <ImageDropzone
+                    // Remontar limpia el preview local al quitar la imagen
+                    key={form.removeImage && !form.imageFile ? "removed" : "current"}
+                    preview={form.removeImage ? undefined : editing?.imageUrl}
+                    onImageSelect={(file) => setForm({ ...form, imageFile: file, removeImage: false })}
+                  />
+                </div>
+              </>
+            )}
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={!canSave}>
+                {isSaving ? "Guardando..." : "Guardar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Dialog */}
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && !isDeleting && setToDelete(null)}>
+        <AlertDialogContent className="border-2">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2 text-xl">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              ¿Eliminar "{toDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteCount > 0
+                ? `Tiene ${deleteCount} ${deleteCount === 1 ? "producto asignado" : "productos asignados"}. Elegí a dónde moverlos antes de eliminarla.`
+                : "No tiene productos asignados. Esta acción no se puede deshacer."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {deleteCount > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <FolderTree className="w-4 h-4" />
+                Mover productos a
+              </Label>
+              <Select value={reassignTo} onValueChange={setReassignTo}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Elegí otra ${labels.singular}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {reassignOptions.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={UNASSIGNED}>Dejar sin {labels.singular}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancelar</AlertDialogCancel>
+            <Button
+              onClick={handleDelete}
+              disabled={isDeleting || (deleteCount > 0 && !reassignTo)}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {isDeleting ? "Eliminando..." : deleteCount > 0 ? "Mover y eliminar" : "Eliminar"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
+
+/* ======================= MAIN COMPONENT ======================= */
+
+export function TaxonomyManager({ products, categories, collections, onAuthError }: TaxonomyManagerProps) {
+  const saveCategory = useSaveCategoryMutation()
+  const removeCategory = useDeleteCategoryMutation()
+  const reorderCategories = useReorderCategoriesMutation()
+
+  const saveCollection = useSaveCollectionMutation()
+  const removeCollection = useDeleteCollectionMutation()
+  const reorderCollections = useReorderCollectionsMutation()
+
+  return (
+    <div className="space-y-8">
+      <TaxonomyPanel
+        kind="collection"
+        items={collections}
+        products={products}
+        isReordering={reorderCollections.isPending}
+        onSave={(id, values) =>
+          saveCollection.mutateAsync({
+            id,
+            payload: {
+              name: values.name,
+              slug: values.slug,
+              description: values.description.trim(),
+              imageUrl: values.removeImage ? null : undefined,
+            },
+            imageFile: values.imageFile,
+          })
+        }
+        onDelete={(id, reassignTo) => removeCollection.mutateAsync({ id, reassignTo })}
+        onReorder={(ids) => reorderCollections.mutateAsync(ids)}
+        onAuthError={onAuthError}
+      />
+
+      <TaxonomyPanel
+        kind="category"
+        items={categories}
+        products={products}
+        isReordering={reorderCategories.isPending}
+        onSave={(id, values) =>
+          saveCategory.mutateAsync({ id, payload: { name: values.name, slug: values.slug } })
+        }
+        onDelete={(id, reassignTo) => removeCategory.mutateAsync({ id, reassignTo })}
+        onReorder={(ids) => reorderCategories.mutateAsync(ids)}
+        onAuthError={onAuthError}
+      />
+    </div>
+  )
+}
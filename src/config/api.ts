@@ -1,12 +1,137 @@
 export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || "").replace(/\/$/, "")
 export const WHATSAPP_NUMBER = import.meta.env.VITE_WHATSAPP_PHONE
 
+/** Modo offline: las rutas /v1 se resuelven con fixtures locales (src/mocks) */
+export const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === "true"
+
 export function getAuthToken(): string | null {
   return localStorage.getItem("mikeco_token")
 }
 
+/* =======================
+   Errors
+======================= */
+export type ApiErrorCode =
+  | "NETWORK_ERROR"
+  | "CONFIG_ERROR"
+  | "BAD_REQUEST"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "VALIDATION_ERROR"
+  | "SERVER_ERROR"
+  | "INVALID_RESPONSE"
+  | "UNKNOWN"
+  | (string & {})
+
+export type FieldErrors = Record<string, string>
+
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: ApiErrorCode
+  readonly fieldErrors: FieldErrors
+  readonly cause?: unknown
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: ApiErrorCode; fieldErrors?: FieldErrors; cause?: unknown } = {}
+  ) {
+    super(message)
+    this.name = "ApiError"
+    this.status = options.status ?? 0
+    this.code = options.code ?? codeFromStatus(this.status)
+    this.fieldErrors = options.fieldErrors ?? {}
+    this.cause = options.cause
+  }
+
+  /** El request nunca llegó al servidor (offline, DNS, CORS) */
+  get isNetworkError() {
+    return this.code === "NETWORK_ERROR"
+  }
+
+  get isUnauthorized() {
+    return this.status === 401
+  }
+
+  get isNotFound() {
+    return this.status === 404
+  }
+
+  get isValidationError() {
+    return this.status === 422 || this.code === "VALIDATION_ERROR"
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError"
+}
+
+/** Mensaje listo para mostrar en un toast o estado de error */
+export function getErrorMessage(error: unknown, fallback = "Error desconocido"): string {
+  if (isApiError(error)) {
+    if (error.isNetworkError) return "No se pudo conectar con el servidor"
+    return error.message || fallback
+  }
+  if (error instanceof Error) return error.message || fallback
+  if (typeof error === "string") return error
+  return fallback
+}
+
+function codeFromStatus(status: number): ApiErrorCode {
+  if (status === 0) return "UNKNOWN"
+  if (status === 400) return "BAD_REQUEST"
+  if (status === 401) return "UNAUTHORIZED"
+  if (status === 403) return "FORBIDDEN"
+  if (status === 404) return "NOT_FOUND"
+  if (status === 409) return "CONFLICT"
+  if (status === 422) return "VALIDATION_ERROR"
+  return "SERVER_ERROR"
+}
+
+/**
+ * Acepta los formatos que devuelve el backend:
+ * - { errors: { campo: "msg" } }
+ * - { errors: [{ path: "campo", message: "msg" }] }
+ * - { details: { fieldErrors: { campo: ["msg"] } } } (zod flatten)
+ */
+function parseFieldErrors(data: unknown): FieldErrors {
+  if (!data || typeof data !== "object") return {}
+
+  const body = data as Record<string, unknown>
+  const details = body.details as Record<string, unknown> | undefined
+  const source = body.fieldErrors ?? details?.fieldErrors ?? body.errors
+
+  const result: FieldErrors = {}
+
+  if (Array.isArray(source)) {
+    for (const entry of source) {
+      if (!entry || typeof entry !== "object") continue
+      const { path, field, message } = entry as { path?: unknown; field?: unknown; message?: unknown }
+      const key = Array.isArray(path) ? path.join(".") : String(path ?? field ?? "")
+      if (key && typeof message === "string") result[key] = message
+    }
+    return result
+  }
+
+  if (source && typeof source === "object") {
+    for (const [key, value] of Object.entries(source)) {
+      const message = Array.isArray(value) ? value[0] : value
+      if (typeof message === "string") result[key] = message
+    }
+  }
+
+  return result
+}
+
 function normalizeBaseUrl(base: string) {
-  if (!base) throw new Error("VITE_API_BASE_URL no está configurado")
+  if (!base) {
+    throw new ApiError("VITE_API_BASE_URL no está configurado", { code: "CONFIG_ERROR" })
+  }
 
   // Si no tiene protocolo, asumimos https (Vercel)
   if (!base.startsWith("http")) {
@@ -20,7 +145,7 @@ export async function apiFetch<T>(
   path: string,
   options: RequestInit & { auth?: boolean } = {}
 ): Promise<T> {
-  const base = normalizeBaseUrl(API_BASE_URL)
+  const base = USE_MOCK_API ? "" : normalizeBaseUrl(API_BASE_URL)
   const url = `${base}${path.startsWith("/") ? path : `/${path}`}`
 
   const headers = new Headers(options.headers)
@@ -36,24 +161,41 @@ export async function apiFetch<T>(
     }
   }
 
-  const res = await fetch(url, {
-    ...options,
-    headers,
-    credentials: "omit",
-    cache: "no-store",
-  })
+  let res: Response
+
+  try {
+    if (USE_MOCK_API) {
+      const { mockFetch } = await import("@/mocks/server")
+      res = await mockFetch(url, { ...options, headers })
+    } else {
+      res = await fetch(url, {
+        ...options,
+        headers,
+        credentials: "omit",
+        cache: "no-store",
+      })
+    }
+  } catch (e) {
+    // Los abort se propagan tal cual para que los hooks los ignoren
+    if (isAbortError(e)) throw e
+    throw new ApiError("No se pudo conectar con el servidor", { code: "NETWORK_ERROR", cause: e })
+  }
 
   if (!res.ok) {
     let message = `${res.status} ${res.statusText}`
+    let code: ApiErrorCode | undefined
+    let fieldErrors: FieldErrors = {}
 
     try {
       const data = await res.json()
       message = data?.error || data?.message || message
+      code = typeof data?.code === "string" ? data.code : undefined
+      fieldErrors = parseFieldErrors(data)
     } catch {
       // Puede ser HTML (404 de Vercel) o texto plano
     }
 
-    throw new Error(message)
+    throw new ApiError(message, { status: res.status, code, fieldErrors })
   }
 
   if (res.status === 204) {
@@ -65,5 +207,13 @@ export async function apiFetch<T>(
     return undefined as T
   }
 
-  return JSON.parse(text) as T
+  try {
+    return JSON.parse(text) as T
+  } catch (e) {
+    throw new ApiError("Respuesta inválida del backend", {
+      status: res.status,
+      code: "INVALID_RESPONSE",
+      cause: e,
+    })
+  }
 }
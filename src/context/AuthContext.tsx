@@ -1,5 +1,6 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from "react";
-import { apiFetch } from "@/config/api";
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
+import { isApiError } from "@/config/api";
+import { login as loginRequest } from "@/services/auth.service";
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -26,10 +27,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
-      const res = await apiFetch<{ token: string }>("/v1/auth/login", {
-        method: "POST",
-        body: JSON.stringify({ email, password }),
-      });
+      const res = await loginRequest(email, password);
 
       localStorage.setItem(TOKEN_KEY, res.token);
       setToken(res.token);
@@ -37,14 +35,20 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     } catch (e) {
       localStorage.removeItem(TOKEN_KEY);
       setToken(null);
+
+      // Credenciales inválidas → false; red o servidor caído → se propaga
+      if (isApiError(e) && (e.isNetworkError || e.status >= 500)) {
+        throw e;
+      }
       return false;
     }
   };
 
-  const logout = () => {
+  // Estable: se usa como dependencia de efectos en el panel
+  const logout = useCallback(() => {
     localStorage.removeItem(TOKEN_KEY);
     setToken(null);
-  };
+  }, []);
 
   return (
     <AuthContext.Provider
@@ -6,25 +6,71 @@ import {
   useEffect,
   ReactNode,
   useMemo,
+  useRef,
 } from "react";
-import { Product, CartItem } from "@/types/product";
+import { useQueryClient } from "@tanstack/react-query";
+import { Product } from "@/types/product";
+import { CartItem, PersistedCartLine } from "@/types/cart";
+import { clampQuantity, getMaxQuantity } from "@/lib/cart";
+import {
+  CART_STORAGE_KEY,
+  mergeCartLines,
+  parseStoredCart,
+  placeholderFromLine,
+  sameCartLines,
+  serializeCart,
+  toCartLines,
+} from "@/lib/cart-storage";
+import { queryKeys } from "@/lib/query";
+import { MAX_NOTE_LENGTH } from "@/lib/consultation";
+import { isApiError } from "@/config/api";
+import { getProduct } from "@/services/products.service";
 
 /* =======================
    Types
    ======================= */
+export type CartItemStatus = "available" | "out_of_stock" | "not_found";
+
+export interface CartRevalidationResult {
+  /** Productos sin stock o eliminados del catálogo */
+  unavailable: string[];
+  /** Productos cuya cantidad se redujo por el stock actual */
+  adjusted: string[];
+}
+
+export interface CartImportEntry {
+  product: Product;
+  quantity: number;
+}
+
 interface CartContextType {
   items: CartItem[];
-  addToCart: (product: Product) => void;
+  addToCart: (product: Product, quantity?: number) => void;
   removeFromCart: (productId: string) => void;
+  /** Suma (o reemplaza) un conjunto de productos, p. ej. desde un link compartido */
+  importItems: (entries: CartImportEntry[], options?: { replace?: boolean }) => void;
+  updateQuantity: (productId: string, quantity: number) => void;
+  increment: (productId: string) => void;
+  decrement: (productId: string) => void;
+  updateNote: (productId: string, note: string) => void;
   clearCart: () => void;
   isInCart: (productId: string) => boolean;
+  getQuantity: (productId: string) => number;
+  /** Unidades totales (suma de cantidades) */
   itemCount: number;
+  /** Productos distintos en la consulta */
+  lineCount: number;
+  /** Estado según la última revalidación contra el catálogo */
+  itemStatus: Record<string, CartItemStatus>;
+  unavailableCount: number;
+  isRevalidating: boolean;
+  /** Sin argumentos revalida todo el carrito */
+  revalidate: (productIds?: string[]) => Promise<CartRevalidationResult>;
+  removeUnavailable: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-const STORAGE_KEY = "lego-consult-cart";
-
 /* =======================
    Storage Helper (Safari-safe)
    ======================= */
@@ -50,46 +96,254 @@ const safeStorage = {
    Provider
    ======================= */
 export const CartProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
   const [items, setItems] = useState<CartItem[]>([]);
+  const [itemStatus, setItemStatus] = useState<Record<string, CartItemStatus>>({});
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [restored, setRestored] = useState(false);
+
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  // Último estado leído o escrito en storage: base del merge entre pestañas
+  const syncedLinesRef = useRef<PersistedCartLine[]>([]);
 
   /* Load from storage */
+  // Solo se guardan ids y cantidades: los datos del producto llegan al revalidar
   useEffect(() => {
-    const stored = safeStorage.getItem(STORAGE_KEY);
-    if (!stored) return;
+    const lines = parseStoredCart(safeStorage.getItem(CART_STORAGE_KEY));
+    syncedLinesRef.current = lines;
+    setItems(lines.map(placeholderFromLine));
+    setRestored(true);
+  }, []);
+
+  /* Persist */
+  useEffect(() => {
+    // No pisar lo guardado antes de haberlo leído
+    if (!restored) return;
+    // Hidratar productos no cambia lo guardado; tampoco lo que ya vino de otra pestaña
+    const lines = toCartLines(items);
+    if (sameCartLines(lines, syncedLinesRef.current)) return;
+    syncedLinesRef.current = lines;
+    safeStorage.setItem(CART_STORAGE_KEY, serializeCart(items));
+  }, [items, restored]);
+
+  /* Revalidation */
+  // Compara cada item con el catálogo actual: nombre, imagen y stock pueden
+  // haber cambiado desde que se guardó el carrito
+  const revalidate = useCallback(async (productIds?: string[]): Promise<CartRevalidationResult> => {
+    const snapshot = productIds
+      ? itemsRef.current.filter((item) => productIds.includes(item.id))
+      : itemsRef.current;
+    if (snapshot.length === 0) return { unavailable: [], adjusted: [] };
+
+    setIsRevalidating(true);
 
     try {
-      const parsed = JSON.parse(stored);
-      if (Array.isArray(parsed)) {
-        setItems(parsed);
-      } else {
-        setItems([]);
-      }
-    } catch (e) {
-      console.warn("Error al cargar carrito:", e);
-      setItems([]);
+      const results = await Promise.all(
+        snapshot.map(async (item) => {
+          try {
+            const product = await queryClient.fetchQuery({
+              queryKey: queryKeys.products.detail(item.id),
+              queryFn: ({ signal }) => getProduct(item.id, { signal }),
+              staleTime: 0,
+              retry: false,
+            });
+            const status: CartItemStatus = product.inStock ? "available" : "out_of_stock";
+            return { id: item.id, product, status };
+          } catch (e) {
+            if (isApiError(e) && e.isNotFound) {
+              return { id: item.id, product: null, status: "not_found" as const };
+            }
+            // Sin conexión o error del servidor: no marcamos el item
+            return { id: item.id, product: null, status: null };
+          }
+        })
+      );
+
+      const byId = new Map(results.map((r) => [r.id, r]));
+
+      const refreshItem = (item: CartItem): CartItem => {
+        const fresh = byId.get(item.id)?.product;
+        if (!fresh) return item;
+
+        const quantity = fresh.inStock
+          ? clampQuantity(item.quantity, getMaxQuantity(fresh))
+          : item.quantity;
+
+        return { ...item, ...fresh, quantity };
+      };
+
+      const adjusted = snapshot
+        .filter((item) => refreshItem(item).quantity < item.quantity)
+        .map((item) => item.id);
+
+      setItems((prev) => prev.map(refreshItem));
+
+      setItemStatus((prev) => {
+        const next = { ...prev };
+        for (const r of results) {
+          if (r.status) next[r.id] = r.status;
+        }
+        return next;
+      });
+
+      return {
+        unavailable: results
+          .filter((r) => r.status === "out_of_stock" || r.status === "not_found")
+          .map((r) => r.id),
+        adjusted,
+      };
+    } finally {
+      setIsRevalidating(false);
     }
-  }, []);
+  }, [queryClient]);
 
-  /* Persist */
+  /* Revalidar al restaurar desde storage */
+  useEffect(() => {
+    if (!restored) return;
+    void revalidate();
+  }, [restored, revalidate]);
+
+  /* Cross-tab sync */
+  // Se combinan los cambios de las dos pestañas por producto (ver mergeCartLines)
+  // y el resultado se guarda para que la otra pestaña también lo reciba
   useEffect(() => {
-    safeStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-  }, [items]);
+    const handleStorage = (event: StorageEvent) => {
+      // key null = localStorage.clear() desde otra pestaña
+      if (event.key !== null && event.key !== CART_STORAGE_KEY) return;
+
+      const incoming = parseStoredCart(event.newValue);
+      const local = toCartLines(itemsRef.current);
+      const merged = mergeCartLines(syncedLinesRef.current, local, incoming);
+      const current = new Map(itemsRef.current.map((item) => [item.id, item]));
+
+      const next = merged.map((line) => {
+        const existing = current.get(line.productId);
+        return existing
+          ? { ...existing, quantity: line.quantity, note: line.note }
+          : placeholderFromLine(line);
+      });
+
+      syncedLinesRef.current = merged;
+      // Había cambios locales que la otra pestaña no tiene
+      if (!sameCartLines(merged, incoming)) {
+        safeStorage.setItem(CART_STORAGE_KEY, serializeCart(next));
+      }
+      if (sameCartLines(merged, local)) return;
+
+      itemsRef.current = next;
+      setItems(next);
+
+      const missing = merged
+        .filter((line) => !current.has(line.productId))
+        .map((line) => line.productId);
+      if (missing.length > 0) void revalidate(missing);
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [revalidate]);
 
   /* Actions */
-  const addToCart = useCallback((product: Product) => {
+  const addToCart = useCallback((product: Product, quantity = 1) => {
     if (!product.inStock) return;
 
+    const max = getMaxQuantity(product);
+
     setItems((prev) => {
-      const exists = prev.some((item) => item.id === product.id);
-      if (exists) return prev;
+      const existing = prev.find((item) => item.id === product.id);
+
+      if (existing) {
+        return prev.map((item) =>
+          item.id === product.id
+            ? { ...item, ...product, quantity: clampQuantity(item.quantity + quantity, max) }
+            : item
+        );
+      }
 
       const newItem: CartItem = {
         ...product,
-        quantity: 1,
+        quantity: clampQuantity(quantity, max),
       };
 
       return [...prev, newItem];
     });
+    setItemStatus((prev) => ({ ...prev, [product.id]: "available" }));
+  }, []);
+
+  const updateQuantity = useCallback((productId: string, quantity: number) => {
+    setItems((prev) => {
+      // Bajar a 0 equivale a quitar el producto
+      if (quantity < 1) return prev.filter((item) => item.id !== productId);
+
+      return prev.map((item) =>
+        item.id === productId
+          ? { ...item, quantity: clampQuantity(quantity, getMaxQuantity(item)) }
+          : item
+      );
+    });
+  }, []);
+
+  const increment = useCallback((productId: string) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === productId
+          ? { ...item, quantity: clampQuantity(item.quantity + 1, getMaxQuantity(item)) }
+          : item
+      )
+    );
+  }, []);
+
+  // No baja de 1: para quitar el producto se usa removeFromCart
+  const decrement = useCallback((productId: string) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === productId
+          ? { ...item, quantity: Math.max(item.quantity - 1, 1) }
+          : item
+      )
+    );
+  }, []);
+
+  const importItems = useCallback(
+    (entries: CartImportEntry[], { replace = false }: { replace?: boolean } = {}) => {
+      const available = entries.filter((entry) => entry.product.inStock);
+
+      setItems((prev) => {
+        const next = new Map(replace ? [] : prev.map((item) => [item.id, item]));
+
+        for (const { product, quantity } of available) {
+          const existing = next.get(product.id);
+          const total = (existing?.quantity ?? 0) + quantity;
+
+          next.set(product.id, {
+            ...existing,
+            ...product,
+            quantity: clampQuantity(total, getMaxQuantity(product)),
+          });
+        }
+
+        return Array.from(next.values());
+      });
+
+      setItemStatus((prev) => {
+        const next = replace ? {} : { ...prev };
+        for (const { product } of available) next[product.id] = "available";
+        return next;
+      });
+    },
+    []
+  );
+
+  const updateNote = useCallback((productId: string, note: string) => {
+    const trimmed = note.slice(0, MAX_NOTE_LENGTH);
+
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === productId ? { ...item, note: trimmed || undefined } : item
+      )
+    );
   }, []);
 
   const removeFromCart = useCallback((productId: string) => {
@@ -98,14 +352,43 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
 
   const clearCart = useCallback(() => {
     setItems([]);
+    setItemStatus({});
   }, []);
 
+  const removeUnavailable = useCallback(() => {
+    setItems((prev) =>
+      prev.filter((item) => {
+        const status = itemStatus[item.id];
+        return status !== "out_of_stock" && status !== "not_found";
+      })
+    );
+  }, [itemStatus]);
+
   const isInCart = useCallback(
     (productId: string) => items.some((item) => item.id === productId),
     [items]
   );
 
-  const itemCount = useMemo(() => items.length, [items]);
+  const getQuantity = useCallback(
+    (productId: string) => items.find((item) => item.id === productId)?.quantity ?? 0,
+    [items]
+  );
+
+  const itemCount = useMemo(
+    () => items.reduce((total, item) => total + item.quantity, 0),
+    [items]
+  );
+
+  const lineCount = items.length;
+
+  const unavailableCount = useMemo(
+    () =>
+      items.filter((item) => {
+        const status = itemStatus[item.id];
+        return status === "out_of_stock" || status === "not_found";
+      }).length,
+    [items, itemStatus]
+  );
 
   return (
     <CartContext.Provider
@@ -113,9 +396,21 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         items,
         addToCart,
         removeFromCart,
+        importItems,
+        updateQuantity,
+        increment,
+        decrement,
+        updateNote,
         clearCart,
         isInCart,
+        getQuantity,
         itemCount,
+        lineCount,
+        itemStatus,
+        unavailableCount,
+        isRevalidating,
+        revalidate,
+        removeUnavailable,
       }}
     >
       {children}
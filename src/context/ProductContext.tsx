@@ -1,55 +1,9 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from "react"
+import { createContext, useContext, ReactNode } from "react"
 import { Product } from "@/types/product"
-import { apiFetch } from "@/config/api"
-
-/* =======================
-   Backend DTO
-======================= */
-interface ProductApiDTO {
-  id: string
-  name: string
-  image?: string | null
-  description?: string | null
-  inStock: boolean
-
-  category?: string | null
-  categorySlug?: string | null
-
-  collection?: string | null
-  collectionSlug?: string | null
-}
-
-/* =======================
-   API Response
-======================= */
-interface ProductListResponse {
-  items: ProductApiDTO[]
-  total: number
-  page: number
-  limit: number
-}
-
-/* =======================
-   Mapper backend → frontend
-======================= */
-function mapProductFromApi(p: ProductApiDTO): Product {
-  return {
-    id: p.id,
-    name: p.name,
-    image: p.image ?? "",
-    description: p.description ?? "",
-    inStock: p.inStock,
-
-    // 🔥 Slugs reales para filtros
-    category: p.categorySlug ?? null,
-    categorySlug: p.categorySlug ?? null,
-
-    collection: p.collectionSlug ?? "",
-    collectionSlug: p.collectionSlug ?? "",
-  }
-}
-
+import { getErrorMessage } from "@/config/api"
+import { useProductsQuery } from "@/hooks/use-catalog-queries"
 
+const ALL_PRODUCTS_QUERY = { limit: 1000 }
 
 /* =======================
    Context types
@@ -67,41 +21,18 @@ const ProductContext = createContext<ProductContextType | undefined>(undefined)
    Provider
 ======================= */
 export const ProductProvider = ({ children }: { children: ReactNode }) => {
-  const [products, setProducts] = useState<Product[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const query = useProductsQuery(ALL_PRODUCTS_QUERY)
 
   const reload = async () => {
-    setIsLoading(true)
-    setError(null)
-
-    try {
-      const res = await apiFetch<ProductListResponse>("/v1/products?limit=1000")
-
-      if (!res || !Array.isArray(res.items)) {
-        throw new Error("Respuesta inválida del backend")
-      }
-
-      const mapped = res.items.map(mapProductFromApi)
-      setProducts(mapped)
-    } catch (e) {
-      setProducts([])
-      setError(e instanceof Error ? e.message : "Error cargando productos")
-    } finally {
-      setIsLoading(false)
-    }
+    await query.refetch()
   }
 
-  useEffect(() => {
-    void reload()
-  }, [])
-
   return (
     <ProductContext.Provider
       value={{
-        products,
-        isLoading,
-        error,
+        products: query.data?.items ?? [],
+        isLoading: query.isPending,
+        error: query.error ? getErrorMessage(query.error, "Error cargando productos") : null,
         reload,
       }}
     >
@@ -0,0 +1,341 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { queryKeys } from "@/lib/query"
+import { ImportRow, runImportInBatches } from "@/lib/product-import"
+import { BulkItemResult, BulkTarget } from "@/lib/product-bulk"
+import { runInBatches } from "@/lib/batch"
+import { ProductImageDraft, resolveImageOrder, sameImages } from "@/lib/product-images"
+import { getErrorMessage, isApiError } from "@/config/api"
+import { CategoryPayload, CollectionPayload, ProductPayload } from "@/types/api"
+import { Product } from "@/types/product"
+import { Category } from "@/types/categories"
+import { Collection } from "@/types/collections"
+import { Consultation, ConsultationStatus } from "@/types/consultations"
+import {
+  createCategory,
+  createCollection,
+  createProduct,
+  deleteCategory,
+  deleteCollection,
+  deleteProduct,
+  fetchAllAdminConsultations,
+  fetchAllAdminProducts,
+  reorderCategories,
+  reorderCollections,
+  setProductImages,
+  updateCategory,
+  updateCollection,
+  updateConsultationStatus,
+  updateProduct,
+  uploadCollectionImage,
+  uploadProductImages,
+} from "@/services/admin.service"
+
+export function useAdminProductsQuery({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.admin.products,
+    queryFn: fetchAllAdminProducts,
+    enabled,
+  })
+}
+
+/** Tras cualquier cambio en admin, el catálogo público queda desactualizado */
+export function useInvalidateCatalog() {
+  const queryClient = useQueryClient()
+
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.products }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.collections }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all }),
+    ])
+}
+
+export interface SaveProductInput {
+  id?: string
+  payload: ProductPayload
+  /** Galería como quedó en el formulario; sin esto no se toca */
+  images?: ProductImageDraft[]
+}
+
+export function useSaveProductMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: async ({ id, payload, images }: SaveProductInput) => {
+      const saved = id ? await updateProduct(id, payload) : await createProduct(payload)
+      if (!images) return saved
+
+      const files = images.flatMap((draft) => (draft.file ? [draft.file] : []))
+      const gallery = files.length ? await uploadProductImages(saved.id, files) : saved.images
+
+      // Las nuevas vuelven al final de la galería: se reordenan como las dejó el admin
+      const order = resolveImageOrder(images, gallery.slice(gallery.length - files.length))
+      if (!sameImages(order, gallery)) {
+        await setProductImages(saved.id, order)
+      }
+
+      return saved
+    },
+    onSettled: invalidateCatalog,
+  })
+}
+
+export interface UpdateStockInput {
+  id: string
+  /** Payload completo (el backend solo acepta PUT) con el stock ya aplicado */
+  payload: ProductPayload
+}
+
+/** Edición inline de stock: optimista, revierte solo ese producto si falla */
+export function useUpdateStockMutation() {
+  const queryClient = useQueryClient()
+
+  const patchProduct = (id: string, patch: Pick<Product, "stockQty" | "inStock">) =>
+    queryClient.setQueryData<Product[]>(queryKeys.admin.products, (list) =>
+      list?.map((p) => (p.id === id ? { ...p, ...patch } : p))
+    )
+
+  return useMutation({
+    mutationFn: ({ id, payload }: UpdateStockInput) => updateProduct(id, payload),
+
+    onMutate: async ({ id, payload }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.admin.products })
+      const previous = queryClient
+        .getQueryData<Product[]>(queryKeys.admin.products)
+        ?.find((p) => p.id === id)
+
+      patchProduct(id, { stockQty: payload.stockQty, inStock: payload.inStock })
+
+      return { previous }
+    },
+    onError: (_err, { id }, context) => {
+      // Otras ediciones en curso no se pisan: se revierte solo este producto
+      if (context?.previous) {
+        patchProduct(id, { stockQty: context.previous.stockQty, inStock: context.previous.inStock })
+      }
+    },
+    // La respuesta del PUT ya es la fila actualizada: no hace falta volver a pedir todo el admin
+    onSuccess: (saved) => {
+      queryClient.setQueryData<Product[]>(queryKeys.admin.products, (list) =>
+        list?.map((p) => (p.id === saved.id ? saved : p))
+      )
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  })
+}
+
+export function useDeleteProductMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteProduct(id),
+    onSettled: invalidateCatalog,
+  })
+}
+
+/** Mensaje por item en operaciones masivas: prioriza el error de campo del backend */
+function describeItemError(err: unknown) {
+  return (
+    (isApiError(err) ? Object.values(err.fieldErrors)[0] : undefined) ??
+    getErrorMessage(err, "No se pudo guardar")
+  )
+}
+
+export interface ImportProductsInput {
+  rows: ImportRow[]
+  onProgress?: (done: number) => void
+}
+
+/** Alta/actualización masiva; devuelve el resultado de cada fila */
+export function useImportProductsMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: ({ rows, onProgress }: ImportProductsInput) =>
+      runImportInBatches(
+        rows,
+        (row) =>
+          row.productId ? updateProduct(row.productId, row.payload) : createProduct(row.payload),
+        describeItemError,
+        onProgress
+      ),
+    onSettled: invalidateCatalog,
+  })
+}
+
+export interface BulkProductsInput {
+  targets: BulkTarget[]
+  onProgress?: (done: number) => void
+}
+
+/** Actualiza o elimina varios productos; devuelve el resultado de cada uno */
+export function useBulkProductsMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: async ({ targets, onProgress }: BulkProductsInput): Promise<BulkItemResult[]> => {
+      const sendable = targets.filter((target) => !target.skipReason)
+      const settled = await runInBatches(
+        sendable,
+        (target): Promise<unknown> =>
+          target.payload ? updateProduct(target.id, target.payload) : deleteProduct(target.id),
+        { onProgress }
+      )
+      const outcomes = new Map(sendable.map((target, i) => [target.id, settled[i]]))
+
+      return targets.map((target) => {
+        const outcome = outcomes.get(target.id)
+        if (!outcome) {
+          return { id: target.id, name: target.name, ok: false, skipped: true, error: target.skipReason }
+        }
+        return {
+          id: target.id,
+          name: target.name,
+          ok: outcome.status === "fulfilled",
+          error: outcome.status === "rejected" ? describeItemError(outcome.reason) : undefined,
+        }
+      })
+    },
+    onSettled: invalidateCatalog,
+  })
+}
+
+/* =======================
+   Categorías y colecciones
+======================= */
+export interface DeleteTaxonomyInput {
+  id: string
+  /** Destino de los productos asignados (null = sin asignar) */
+  reassignTo?: string | null
+}
+
+export function useSaveCategoryMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: ({ id, payload }: { id?: string; payload: CategoryPayload }) =>
+      id ? updateCategory(id, payload) : createCategory(payload),
+    onSettled: invalidateCatalog,
+  })
+}
+
+export function useDeleteCategoryMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: ({ id, reassignTo }: DeleteTaxonomyInput) => deleteCategory(id, { reassignTo }),
+    onSettled: invalidateCatalog,
+  })
+}
+
+export interface SaveCollectionInput {
+  id?: string
+  payload: CollectionPayload
+  imageFile?: File | null
+}
+
+export function useSaveCollectionMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: async ({ id, payload, imageFile }: SaveCollectionInput) => {
+      const saved = id ? await updateCollection(id, payload) : await createCollection(payload)
+
+      if (imageFile) {
+        await uploadCollectionImage(saved.id, imageFile)
+      }
+
+      return saved
+    },
+    onSettled: invalidateCatalog,
+  })
+}
+
+export function useDeleteCollectionMutation() {
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: ({ id, reassignTo }: DeleteTaxonomyInput) => deleteCollection(id, { reassignTo }),
+    onSettled: invalidateCatalog,
+  })
+}
+
+/** Reordena la lista cacheada al instante y la restaura si el backend rechaza el orden */
+function useReorderMutation<T extends { id: string }>(
+  queryKey: readonly unknown[],
+  reorder: (ids: string[]) => Promise<void>
+) {
+  const queryClient = useQueryClient()
+  const invalidateCatalog = useInvalidateCatalog()
+
+  return useMutation({
+    mutationFn: (ids: string[]) => reorder(ids),
+
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<T[]>(queryKey)
+
+      queryClient.setQueryData<T[]>(queryKey, (list) => {
+        if (!list) return list
+        const byId = new Map(list.map((item) => [item.id, item]))
+        return ids.map((id) => byId.get(id)).filter((item): item is T => Boolean(item))
+      })
+
+      return { previous }
+    },
+    onError: (_err, _ids, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous)
+      }
+    },
+    onSettled: invalidateCatalog,
+  })
+}
+
+export function useReorderCategoriesMutation() {
+  return useReorderMutation<Category>(queryKeys.categories.list(), reorderCategories)
+}
+
+export function useReorderCollectionsMutation() {
+  return useReorderMutation<Collection>(queryKeys.collections, reorderCollections)
+}
+
+/* =======================
+   Consultas
+======================= */
+export function useAdminConsultationsQuery({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.admin.consultations,
+    queryFn: fetchAllAdminConsultations,
+    enabled,
+  })
+}
+
+export function useUpdateConsultationStatusMutation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ConsultationStatus }) =>
+      updateConsultationStatus(id, status),
+
+    // Cambio optimista: el select responde al instante y se revierte si falla
+    onMutate: async ({ id, status }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.admin.consultations })
+      const previous = queryClient.getQueryData<Consultation[]>(queryKeys.admin.consultations)
+
+      queryClient.setQueryData<Consultation[]>(queryKeys.admin.consultations, (list) =>
+        list?.map((c) => (c.id === id ? { ...c, status } : c))
+      )
+
+      return { previous }
+    },
+    onError: (_err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.admin.consultations, context.previous)
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.consultations }),
+  })
+}
@@ -0,0 +1,109 @@
+import { useCallback } from "react"
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query"
+
+import { queryKeys } from "@/lib/query"
+import {
+  getProduct,
+  getProductFacets,
+  listProducts,
+  ProductFacetsQuery,
+  ProductListQuery,
+} from "@/services/products.service"
+import { listCategories } from "@/services/categories.service"
+import { listCollections } from "@/services/collections.service"
+
+// Prefetch por hover: no repetir mientras el dato siga fresco
+const PREFETCH_STALE_TIME = 30 * 1000
+
+export function useCollectionsQuery() {
+  return useQuery({
+    queryKey: queryKeys.collections,
+    queryFn: ({ signal }) => listCollections({ signal }),
+  })
+}
+
+export function useCategoriesQuery(
+  collection?: string | null,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.categories.list(collection),
+    queryFn: ({ signal }) => listCategories({ collection }, { signal }),
+    enabled,
+  })
+}
+
+export function useProductsQuery(
+  query: ProductListQuery,
+  { keepPrevious = false, enabled = true }: { keepPrevious?: boolean; enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.products.list(query),
+    queryFn: ({ signal }) => listProducts(query, { signal }),
+    placeholderData: keepPrevious ? keepPreviousData : undefined,
+    enabled,
+  })
+}
+
+/** Páginas acumuladas para el scroll infinito; la cache se reutiliza mientras no cambien los filtros */
+export function useInfiniteProductsQuery(
+  query: Omit<ProductListQuery, "page">,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.products.infinite(query),
+    queryFn: ({ pageParam, signal }) => listProducts({ ...query, page: pageParam }, { signal }),
+    initialPageParam: 1,
+    getNextPageParam: (last) =>
+      last.page * last.limit < last.total && last.items.length > 0 ? last.page + 1 : undefined,
+    enabled,
+  })
+}
+
+/** Conteos por faceta; se mantienen los anteriores mientras cargan los nuevos */
+export function useProductFacetsQuery(query: ProductFacetsQuery) {
+  return useQuery({
+    queryKey: queryKeys.products.facets(query),
+    queryFn: ({ signal }) => getProductFacets(query, { signal }),
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useProductQuery(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.detail(id ?? ""),
+    queryFn: ({ signal }) => getProduct(id as string, { signal }),
+    enabled: Boolean(id),
+  })
+}
+
+/** Un query por id: comparte cache con el detalle de cada producto */
+export function useProductsByIds(ids: string[]) {
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: queryKeys.products.detail(id),
+      queryFn: ({ signal }: { signal: AbortSignal }) => getProduct(id, { signal }),
+    })),
+  })
+}
+
+export function usePrefetchProduct() {
+  const queryClient = useQueryClient()
+
+  return useCallback(
+    (id: string) => {
+      void queryClient.prefetchQuery({
+        queryKey: queryKeys.products.detail(id),
+        queryFn: ({ signal }) => getProduct(id, { signal }),
+        staleTime: PREFETCH_STALE_TIME,
+      })
+    },
+    [queryClient]
+  )
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+  clearHistory,
+  ConsultationHistoryEntry,
+  HISTORY_KEY,
+  readHistory,
+  removeFromHistory,
+} from "@/lib/consultation-history"
+import { getPendingConsultations, QUEUE_KEY } from "@/lib/consultation-queue"
+import { subscribeStoredList } from "@/lib/stored-list"
+
+const readPendingIds = () => new Set(getPendingConsultations().map((p) => p.id))
+
+/** Valor derivado de una lista en localStorage, releído cuando cambia (en cualquier pestaña) */
+function useStoredList<T>(key: string, read: () => T): T {
+  const [value, setValue] = useState<T>(read)
+
+  useEffect(() => subscribeStoredList(key, () => setValue(read())), [key, read])
+
+  return value
+}
+
+/** Historial de consultas sincronizado con localStorage (y otras pestañas) */
+export function useConsultationHistory() {
+  const entries = useStoredList<ConsultationHistoryEntry[]>(HISTORY_KEY, readHistory)
+
+  const remove = useCallback((id: string) => removeFromHistory(id), [])
+  const clear = useCallback(() => clearHistory(), [])
+
+  return { entries, remove, clear }
+}
+
+/** Ids de la cola que siguen esperando ser registrados por la API */
+export function usePendingConsultationIds() {
+  return useStoredList<Set<string>>(QUEUE_KEY, readPendingIds)
+}
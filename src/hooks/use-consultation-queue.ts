@@ -0,0 +1,25 @@
+import { useEffect } from "react"
+import { flushConsultationQueue } from "@/lib/consultation-queue"
+
+// Reintento periódico mientras la pestaña siga abierta
+const RETRY_INTERVAL_MS = 5 * 60 * 1000
+
+/** Reenvía consultas pendientes al abrir la app y al recuperar conexión */
+export function useConsultationQueue() {
+  useEffect(() => {
+    const flush = () => {
+      if (!navigator.onLine) return
+      void flushConsultationQueue()
+    }
+
+    flush()
+
+    window.addEventListener("online", flush)
+    const interval = window.setInterval(flush, RETRY_INTERVAL_MS)
+
+    return () => {
+      window.removeEventListener("online", flush)
+      window.clearInterval(interval)
+    }
+  }, [])
+}
@@ -0,0 +1,67 @@
+import { useEffect, useLayoutEffect, useRef } from "react"
+import { useLocation, useNavigationType } from "react-router-dom"
+
+const STORAGE_KEY = "catalog-scroll"
+// Solo hacen falta las últimas entradas del historial
+const MAX_ENTRIES = 30
+
+type ScrollPositions = Record<string, number>
+
+function readPositions(): ScrollPositions {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "{}") as ScrollPositions
+  } catch {
+    return {}
+  }
+}
+
+function savePosition(key: string, y: number) {
+  try {
+    const entries = Object.entries(readPositions()).filter(([k]) => k !== key)
+    const next = Object.fromEntries([...entries, [key, y]].slice(-MAX_ENTRIES))
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch {
+    // Storage lleno o bloqueado: se vuelve arriba de todo
+  }
+}
+
+/**
+ * Guarda el scroll por entrada del historial y lo restaura al volver con "atrás"
+ * (POP), cuando `ready` indica que el contenido ya está renderizado
+ */
+export function useScrollRestoration(ready: boolean) {
+  const location = useLocation()
+  const navigationType = useNavigationType()
+  const positionRef = useRef(window.scrollY)
+  const restoredKeyRef = useRef<string | null>(null)
+
+  // Se lee en el scroll y no al desmontar: para entonces la página nueva ya
+  // puede haber achicado el documento y el navegador recortó el scroll
+  useEffect(() => {
+    const handleScroll = () => {
+      positionRef.current = window.scrollY
+    }
+    window.addEventListener("scroll", handleScroll, { passive: true })
+    return () => window.removeEventListener("scroll", handleScroll)
+  }, [])
+
+  useLayoutEffect(() => {
+    const key = location.key
+    return () => savePosition(key, positionRef.current)
+  }, [location.key])
+
+  useEffect(() => {
+    if (!ready || navigationType !== "POP" || restoredKeyRef.current === location.key) return
+
+    const y = readPositions()[location.key]
+    if (y === undefined) return
+
+    // Después del ScrollToTop global, que corre en el efecto del padre
+    const frame = requestAnimationFrame(() => {
+      restoredKeyRef.current = location.key
+      window.scrollTo({ top: y, left: 0, behavior: "instant" as ScrollBehavior })
+      positionRef.current = y
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [ready, navigationType, location.key])
+}
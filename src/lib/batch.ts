@@ -0,0 +1,25 @@
+/* =======================
+   Operaciones masivas contra la API
+   Lotes chicos en paralelo: más rápido que de a uno sin saturar el backend
+======================= */
+export const DEFAULT_BATCH_SIZE = 5
+
+/**
+ * Ejecuta `task` para cada item, de a `batchSize` por vez. Un item que falla
+ * no corta el resto. `onProgress` recibe la cantidad de items terminados.
+ */
+export async function runInBatches<T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  { batchSize = DEFAULT_BATCH_SIZE, onProgress }: { batchSize?: number; onProgress?: (done: number) => void } = {}
+): Promise<PromiseSettledResult<R>[]> {
+  const settled: PromiseSettledResult<R>[] = []
+
+  for (let start = 0; start < items.length; start += batchSize) {
+    const batch = items.slice(start, start + batchSize)
+    settled.push(...(await Promise.allSettled(batch.map(task))))
+    onProgress?.(settled.length)
+  }
+
+  return settled
+}
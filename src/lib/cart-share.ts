@@ -0,0 +1,47 @@
+import type { PersistedCartLine } from "@/types/cart"
+import { clampQuantity, MAX_QTY_PER_ITEM } from "@/lib/cart"
+
+/* =======================
+   Links de carrito compartido
+   /carrito?items=id:qty,id:qty
+======================= */
+export const SHARED_CART_PATH = "/carrito"
+
+// Un link curado no debería traer más que esto; evita URLs abusivas
+const MAX_SHARED_LINES = 100
+const PRODUCT_ID_PATTERN = /^[\w-]+$/
+
+export function encodeShareItems(items: { id: string; quantity: number }[]): string {
+  // Los ids son [\w-], no necesitan escape y el link queda legible
+  return items.map((item) => `${item.id}:${item.quantity}`).join(",")
+}
+
+/** Tolera qty faltante (id solo = 1), ids repetidos (se suman) y basura */
+export function parseShareItems(value: string | null): PersistedCartLine[] {
+  if (!value) return []
+
+  const quantities = new Map<string, number>()
+
+  for (const chunk of value.split(",")) {
+    const [rawId, rawQty] = chunk.split(":")
+    const productId = (rawId ?? "").trim()
+    if (!productId || !PRODUCT_ID_PATTERN.test(productId)) continue
+
+    const qty = rawQty === undefined ? 1 : Number(rawQty)
+    if (!Number.isFinite(qty) || qty < 1) continue
+
+    quantities.set(productId, (quantities.get(productId) ?? 0) + Math.floor(qty))
+    if (quantities.size >= MAX_SHARED_LINES) break
+  }
+
+  return Array.from(quantities, ([productId, quantity]) => ({
+    productId,
+    quantity: clampQuantity(quantity, MAX_QTY_PER_ITEM),
+  }))
+}
+
+/** URL absoluta, respetando el base path de Vite (GitHub Pages) */
+export function buildShareUrl(items: { id: string; quantity: number }[]): string {
+  const base = import.meta.env.BASE_URL.replace(/\/$/, "")
+  return `${window.location.origin}${base}${SHARED_CART_PATH}?items=${encodeShareItems(items)}`
+}
@@ -0,0 +1,187 @@
+import type { CartItem, PersistedCart, PersistedCartLine } from "@/types/cart"
+import { clampQuantity, getMaxQuantity, MAX_QTY_PER_ITEM } from "@/lib/cart"
+import { DEFAULT_CURRENCY, getLinePrice } from "@/lib/price"
+
+export const CART_STORAGE_KEY = "lego-consult-cart"
+
+/**
+ * v0: array crudo de CartItem con el snapshot completo del producto
+ *     (algunos sin quantity, otros con qty)
+ * v1: { version, updatedAt, items: [{ productId, quantity, note, name?, unitPrice?, currency? }] }
+ */
+export const CART_STORAGE_VERSION = 1
+
+/* =======================
+   Migraciones
+======================= */
+type Migration = (data: unknown) => unknown
+
+const migrations: Record<number, Migration> = {
+  0: (data) => {
+    const legacy = Array.isArray(data) ? data : []
+
+    return {
+      version: 1,
+      updatedAt: new Date().toISOString(),
+      items: legacy
+        .filter((item) => item && typeof item === "object" && item.id)
+        .map((item) => ({
+          productId: String(item.id),
+          quantity: clampQuantity(Number(item.quantity ?? item.qty ?? 1), getMaxQuantity(item)),
+        })),
+    }
+  },
+}
+
+function detectVersion(data: unknown): number {
+  if (Array.isArray(data)) return 0
+  if (data && typeof data === "object" && typeof (data as PersistedCart).version === "number") {
+    return (data as PersistedCart).version
+  }
+  return -1
+}
+
+function sanitizeLine(line: unknown): PersistedCartLine | null {
+  if (!line || typeof line !== "object") return null
+
+  const { productId, quantity, note, name, unitPrice, currency } = line as Partial<PersistedCartLine>
+  if (typeof productId !== "string" || !productId) return null
+
+  const hasPrice =
+    typeof unitPrice === "number" && Number.isFinite(unitPrice) && typeof currency === "string"
+
+  return {
+    productId,
+    quantity: clampQuantity(Number(quantity ?? 1), MAX_QTY_PER_ITEM),
+    ...(typeof note === "string" && note.trim() ? { note } : {}),
+    ...(typeof name === "string" && name ? { name } : {}),
+    ...(hasPrice ? { unitPrice, currency } : {}),
+  }
+}
+
+/* =======================
+   API
+======================= */
+
+/** Lee cualquier formato conocido y lo lleva a la versión actual */
+export function parseStoredCart(raw: string | null): PersistedCartLine[] {
+  if (!raw) return []
+
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    return []
+  }
+
+  let version = detectVersion(data)
+
+  // Versiones desconocidas (o futuras) se descartan en lugar de romper la app
+  if (version < 0 || version > CART_STORAGE_VERSION) return []
+
+  while (version < CART_STORAGE_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) return []
+    data = migrate(data)
+    version = detectVersion(data)
+  }
+
+  const items = (data as PersistedCart).items
+  if (!Array.isArray(items)) return []
+
+  const seen = new Set<string>()
+  return items
+    .map(sanitizeLine)
+    .filter((line): line is PersistedCartLine => {
+      if (!line || seen.has(line.productId)) return false
+      seen.add(line.productId)
+      return true
+    })
+}
+
+export function toCartLines(items: CartItem[]): PersistedCartLine[] {
+  return items.map((item) => ({
+    productId: item.id,
+    quantity: item.quantity,
+    ...(item.note ? { note: item.note } : {}),
+    ...(item.name ? { name: item.name } : {}),
+    ...getLinePrice(item),
+  }))
+}
+
+export function serializeCart(items: CartItem[]): string {
+  const payload: PersistedCart = {
+    version: CART_STORAGE_VERSION,
+    updatedAt: new Date().toISOString(),
+    items: toCartLines(items),
+  }
+
+  return JSON.stringify(payload)
+}
+
+const sameLine = (a?: PersistedCartLine, b?: PersistedCartLine) =>
+  a?.quantity === b?.quantity &&
+  a?.note === b?.note &&
+  a?.name === b?.name &&
+  a?.unitPrice === b?.unitPrice &&
+  a?.currency === b?.currency
+
+/**
+ * Merge de tres vías para el sync entre pestañas, por productId.
+ * base es lo último que esta pestaña leyó o escribió en storage: lo que cambió
+ * de un solo lado se toma de ese lado (bajas incluidas). Si la misma línea cambió
+ * en las dos, una edición le gana a una baja y queda la cantidad mayor.
+ */
+export function mergeCartLines(
+  base: PersistedCartLine[],
+  local: PersistedCartLine[],
+  incoming: PersistedCartLine[]
+): PersistedCartLine[] {
+  const byId = (lines: PersistedCartLine[]) => new Map(lines.map((l) => [l.productId, l]))
+  const prev = byId(base)
+  const mine = byId(local)
+  const theirs = byId(incoming)
+  const ids = new Set([...mine.keys(), ...theirs.keys()])
+
+  return Array.from(ids).flatMap((id) => {
+    const a = mine.get(id)
+    const b = theirs.get(id)
+
+    if (sameLine(b, prev.get(id))) return a ? [a] : []
+    if (sameLine(a, prev.get(id))) return b ? [b] : []
+    if (!a || !b) return a ? [a] : b ? [b] : []
+
+    // La copia de nombre y precio más reciente es la que llega
+    const note = b.note ?? a.note
+    return [{ ...a, ...b, quantity: Math.max(a.quantity, b.quantity), ...(note ? { note } : {}) }]
+  })
+}
+
+/** Mismo contenido, sin importar el orden de las líneas */
+export function sameCartLines(a: PersistedCartLine[], b: PersistedCartLine[]): boolean {
+  const other = new Map(b.map((l) => [l.productId, l]))
+  return a.length === b.length && a.every((line) => sameLine(line, other.get(line.productId)))
+}
+
+/** Item mínimo mientras se trae el producto del catálogo, con la copia guardada si la hay */
+export function placeholderFromLine(line: PersistedCartLine): CartItem {
+  return {
+    id: line.productId,
+    name: line.name ?? "",
+    description: "",
+    image: "",
+    images: [],
+    inStock: true,
+    category: null,
+    collection: null,
+    categorySlug: null,
+    collectionSlug: null,
+    listPrice: line.unitPrice ?? null,
+    salePrice: null,
+    currency: line.currency ?? DEFAULT_CURRENCY,
+    priceOnRequest: false,
+    stockQty: null,
+    quantity: line.quantity,
+    note: line.note,
+  }
+}
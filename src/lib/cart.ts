@@ -0,0 +1,27 @@
+import type { Product } from "@/types/product"
+
+/* =======================
+   Límites de cantidad
+======================= */
+
+/** Tope por línea cuando el producto no informa stock */
+export const MAX_QTY_PER_ITEM = 99
+
+/**
+ * Cantidad máxima que se puede consultar de un producto.
+ * Si el backend expone stockQty se respeta; si no, se usa el tope general.
+ */
+export function getMaxQuantity(product: Pick<Product, "stockQty">): number {
+  const stock = product.stockQty
+
+  if (typeof stock === "number" && Number.isFinite(stock) && stock > 0) {
+    return Math.min(Math.floor(stock), MAX_QTY_PER_ITEM)
+  }
+
+  return MAX_QTY_PER_ITEM
+}
+
+export function clampQuantity(quantity: number, max: number): number {
+  const safe = Number.isFinite(quantity) ? Math.floor(quantity) : 1
+  return Math.min(Math.max(safe, 1), Math.max(max, 1))
+}
@@ -0,0 +1,112 @@
+import {
+  DEFAULT_PRODUCT_SORT,
+  isProductSort,
+  ProductSort,
+} from "@/services/products.service"
+
+/* =======================
+   Estado del catálogo en el URL
+   El URL es la fuente de verdad: se puede guardar, compartir y volver con "atrás".
+   Los valores por defecto no se escriben para que los links queden cortos.
+======================= */
+export interface CatalogParams {
+  // Varios valores se combinan con OR (?category=a&category=b)
+  categories: string[]
+  collections: string[]
+  search: string
+  inStock: boolean
+  minPrice: number | null
+  maxPrice: number | null
+  sort: ProductSort
+  page: number
+}
+
+export const DEFAULT_CATALOG_PARAMS: CatalogParams = {
+  categories: [],
+  collections: [],
+  search: "",
+  inStock: false,
+  minPrice: null,
+  maxPrice: null,
+  sort: DEFAULT_PRODUCT_SORT,
+  page: 1,
+}
+
+const readPrice = (value: string | null) => {
+  if (value === null || value.trim() === "") return null
+  const n = Number(value)
+  return Number.isFinite(n) && n >= 0 ? n : null
+}
+
+const readSlugs = (values: string[]) => [...new Set(values.filter(Boolean))]
+
+const readPage = (value: string | null) => {
+  const n = Number(value)
+  return Number.isInteger(n) && n > 0 ? n : 1
+}
+
+/** Valores inválidos (a mano o de links viejos) caen al valor por defecto */
+export function parseCatalogParams(params: URLSearchParams): CatalogParams {
+  const sort = params.get("sort")
+
+  return {
+    categories: readSlugs(params.getAll("category")),
+    collections: readSlugs(params.getAll("collection")),
+    search: params.get("search") ?? "",
+    inStock: params.get("inStock") === "true",
+    minPrice: readPrice(params.get("minPrice")),
+    maxPrice: readPrice(params.get("maxPrice")),
+    sort: isProductSort(sort) ? sort : DEFAULT_PRODUCT_SORT,
+    page: readPage(params.get("page")),
+  }
+}
+
+export function serializeCatalogParams(value: CatalogParams): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const slug of value.collections) params.append("collection", slug)
+  for (const slug of value.categories) params.append("category", slug)
+  if (value.search.trim()) params.set("search", value.search)
+  if (value.inStock) params.set("inStock", "true")
+  if (value.minPrice !== null) params.set("minPrice", String(value.minPrice))
+  if (value.maxPrice !== null) params.set("maxPrice", String(value.maxPrice))
+  if (value.sort !== DEFAULT_PRODUCT_SORT) params.set("sort", value.sort)
+  if (value.page > 1) params.set("page", String(value.page))
+  return params
+}
+
+/** Cualquier cambio que no sea de página vuelve a la primera */
+export function applyCatalogChange(
+  current: CatalogParams,
+  patch: Partial<CatalogParams>
+): CatalogParams {
+  return { ...current, ...patch, page: patch.page ?? 1 }
+}
+
+/** Agrega o quita un slug de una selección múltiple */
+export function toggleSlug(selected: string[], slug: string): string[] {
+  return selected.includes(slug) ? selected.filter((s) => s !== slug) : [...selected, slug]
+}
+
+/* =======================
+   Modo de listado (preferencia del dispositivo, no va en el URL)
+   En "infinite" el parámetro page indica cuántas páginas hay cargadas
+======================= */
+export type CatalogViewMode = "infinite" | "pages"
+
+const VIEW_MODE_KEY = "catalog-view-mode"
+
+export function readViewMode(): CatalogViewMode {
+  try {
+    return localStorage.getItem(VIEW_MODE_KEY) === "pages" ? "pages" : "infinite"
+  } catch {
+    return "infinite"
+  }
+}
+
+export function saveViewMode(mode: CatalogViewMode) {
+  try {
+    localStorage.setItem(VIEW_MODE_KEY, mode)
+  } catch {
+    // Sin storage la preferencia dura lo que la pestaña
+  }
+}
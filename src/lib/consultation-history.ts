@@ -0,0 +1,53 @@
+import type { ConsultationContact } from "@/services/consultations.service"
+import { readStoredList, writeStoredList } from "@/lib/stored-list"
+
+/* =======================
+   Historial local de consultas enviadas
+======================= */
+export const HISTORY_KEY = "lego-consult-history"
+const MAX_ENTRIES = 30
+
+export interface ConsultationHistoryItem {
+  productId: string
+  name: string
+  image?: string
+  qty: number
+  note?: string
+}
+
+export interface ConsultationHistoryEntry {
+  id: string
+  sentAt: string
+  items: ConsultationHistoryItem[]
+  contact?: ConsultationContact
+  message: string
+  /** Id en la cola de reenvío si la API no la registró al enviarla */
+  pendingId?: string
+}
+
+export function readHistory(): ConsultationHistoryEntry[] {
+  return readStoredList<ConsultationHistoryEntry>(HISTORY_KEY)
+}
+
+function writeHistory(entries: ConsultationHistoryEntry[]) {
+  writeStoredList(HISTORY_KEY, entries.slice(0, MAX_ENTRIES))
+}
+
+export function addToHistory(entry: Omit<ConsultationHistoryEntry, "id" | "sentAt">) {
+  const full: ConsultationHistoryEntry = {
+    ...entry,
+    id: `h-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    sentAt: new Date().toISOString(),
+  }
+
+  writeHistory([full, ...readHistory()])
+  return full
+}
+
+export function removeFromHistory(id: string) {
+  writeHistory(readHistory().filter((entry) => entry.id !== id))
+}
+
+export function clearHistory() {
+  writeHistory([])
+}
@@ -0,0 +1,113 @@
+import { isApiError } from "@/config/api"
+import {
+  createConsultation,
+  ConsultationContact,
+  ConsultationItemPayload,
+} from "@/services/consultations.service"
+import { readStoredList, writeStoredList } from "@/lib/stored-list"
+
+/* =======================
+   Cola de consultas pendientes
+   Si la API no responde, el cliente igual abre WhatsApp y la consulta se
+   reenvía más tarde para que el negocio conserve el registro
+======================= */
+export const QUEUE_KEY = "lego-consult-pending"
+
+// Pasado este tiempo la consulta ya se resolvió por WhatsApp: no tiene sentido reenviarla
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+const MAX_ATTEMPTS = 20
+
+export interface PendingConsultation {
+  id: string
+  createdAt: string
+  attempts: number
+  items: ConsultationItemPayload[]
+  contact?: ConsultationContact
+}
+
+const readQueue = () => readStoredList<PendingConsultation>(QUEUE_KEY)
+const writeQueue = (queue: PendingConsultation[]) => writeStoredList(QUEUE_KEY, queue)
+
+/** Errores que justifican reintentar: sin conexión o falla del servidor */
+export function isRetryableConsultationError(error: unknown): boolean {
+  if (!isApiError(error)) return false
+  return error.isNetworkError || error.status >= 500 || error.code === "INVALID_RESPONSE"
+}
+
+export function enqueueConsultation(
+  items: ConsultationItemPayload[],
+  contact?: ConsultationContact
+): PendingConsultation {
+  const entry: PendingConsultation = {
+    id: `pending-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    items,
+    contact,
+  }
+
+  writeQueue([...readQueue(), entry])
+  return entry
+}
+
+export function getPendingConsultations(): PendingConsultation[] {
+  return readQueue()
+}
+
+let flushing: Promise<number> | null = null
+
+/**
+ * Reenvía las consultas pendientes en orden. Devuelve cuántas se enviaron.
+ * Las que fallan por validación (4xx) se descartan: reintentar no las arregla.
+ * Entre pestañas se coordina con un Web Lock: si otra ya está reenviando, esta no
+ * hace nada y así ninguna consulta se manda dos veces.
+ */
+export function flushConsultationQueue(): Promise<number> {
+  if (flushing) return flushing
+
+  flushing = (
+    typeof navigator !== "undefined" && navigator.locks
+      ? navigator.locks.request(QUEUE_KEY, { ifAvailable: true }, (lock) =>
+          lock ? sendQueue() : 0
+        )
+      : sendQueue()
+  ).finally(() => {
+    flushing = null
+  })
+
+  return flushing
+}
+
+async function sendQueue(): Promise<number> {
+  let sent = 0
+  const now = Date.now()
+
+  for (const entry of readQueue()) {
+    const expired =
+      now - new Date(entry.createdAt).getTime() > MAX_AGE_MS || entry.attempts >= MAX_ATTEMPTS
+
+    let done = expired
+    if (!expired) {
+      try {
+        await createConsultation(entry.items, entry.contact, entry.createdAt)
+        sent++
+        done = true
+      } catch (e) {
+        done = !isRetryableConsultationError(e)
+      }
+    }
+
+    // Releer en cada paso: otra pestaña pudo encolar mientras tanto
+    const queue = readQueue()
+    writeQueue(
+      done
+        ? queue.filter((q) => q.id !== entry.id)
+        : queue.map((q) => (q.id === entry.id ? { ...q, attempts: q.attempts + 1 } : q))
+    )
+
+    // Si seguimos sin conexión no tiene sentido probar el resto ahora
+    if (!done) break
+  }
+
+  return sent
+}
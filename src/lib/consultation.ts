@@ -0,0 +1,59 @@
+import { z } from "zod"
+import type { ConsultationStatus } from "@/types/consultations"
+
+/* =======================
+   Datos opcionales de la consulta
+======================= */
+export const MAX_NOTE_LENGTH = 200
+
+const DELIVERY_VALUES = ["retiro", "envio", "a_coordinar"] as const
+
+export type DeliveryPreference = (typeof DELIVERY_VALUES)[number]
+
+export const DELIVERY_LABELS: Record<DeliveryPreference, string> = {
+  retiro: "Retiro en persona",
+  envio: "Envío a domicilio",
+  a_coordinar: "A coordinar",
+}
+
+export function getDeliveryLabel(value: string | undefined): string | undefined {
+  return value && value in DELIVERY_LABELS
+    ? DELIVERY_LABELS[value as DeliveryPreference]
+    : undefined
+}
+
+// Todos los campos son opcionales: solo se valida lo que el cliente completa
+const optionalText = z
+  .string()
+  .trim()
+  .max(60, "Máximo 60 caracteres")
+  .refine((value) => value === "" || value.length >= 2, "Ingresá al menos 2 caracteres")
+  .optional()
+
+export const contactSchema = z.object({
+  name: optionalText,
+  city: optionalText,
+  delivery: z.enum(DELIVERY_VALUES).optional(),
+})
+
+export type ContactFormValues = z.infer<typeof contactSchema>
+
+/** Descarta campos vacíos para no mandar strings en blanco al backend */
+export function compactContact(values: ContactFormValues): ContactFormValues | undefined {
+  const contact: ContactFormValues = {}
+  if (values.name?.trim()) contact.name = values.name.trim()
+  if (values.city?.trim()) contact.city = values.city.trim()
+  if (values.delivery) contact.delivery = values.delivery
+
+  return Object.keys(contact).length > 0 ? contact : undefined
+}
+
+/* =======================
+   Estados (panel admin)
+======================= */
+export const CONSULTATION_STATUS_LABELS: Record<ConsultationStatus, string> = {
+  new: "Nueva",
+  answered: "Respondida",
+  sold: "Vendida",
+  discarded: "Descartada",
+}
@@ -0,0 +1,103 @@
+/* =======================
+   CSV mínimo (RFC 4180)
+   Comillas dobles, "" escapadas y saltos de línea dentro de campos.
+   Excel en español exporta con ";": el separador se detecta en la cabecera
+======================= */
+const CANDIDATE_DELIMITERS = [",", ";", "\t"] as const
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  let best: string = ","
+  let bestCount = 0
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+/** Devuelve las filas como arrays de celdas; descarta filas vacías */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "")
+  const delimiter = detectDelimiter(source)
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some((value) => value.trim() !== "")) rows.push(row)
+    row = []
+    cell = ""
+  }
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) endRow()
+  return rows
+}
+
+// Excel y Sheets ejecutan como fórmula un texto que empieza así (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/** Con ' adelante la planilla lo muestra como texto */
+function neutralizeFormula(value: string) {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value
+}
+
+/** Inverso de neutralizeFormula, para volver a importar un export sin pasar por una planilla */
+export function restoreFormulaText(value: string) {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+function escapeCell(value: string, delimiter: string) {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Inverso de parseCsv. Con BOM para que Excel respete los acentos.
+ * Los textos que parecen fórmulas salen con ' adelante; los números quedan tal cual.
+ */
+export function toCsv(rows: (string | number | boolean)[][], delimiter = ","): string {
+  const body = rows
+    .map((row) =>
+      row
+        .map((cell) =>
+          escapeCell(typeof cell === "string" ? neutralizeFormula(cell) : String(cell), delimiter)
+        )
+        .join(delimiter)
+    )
+    .join("\r\n")
+
+  return `\uFEFF${body}\r\n`
+}
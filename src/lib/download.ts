@@ -0,0 +1,22 @@
+/* =======================
+   Descarga de archivos generados en el navegador
+======================= */
+export function downloadFile(content: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Algunos navegadores leen el blob después del click
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** "catalogo" → "catalogo-2026-10-19" */
+export function datedFileName(base: string, extension: string, date = new Date()) {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-")
+  return `${base}-${day}.${extension}`
+}
@@ -0,0 +1,175 @@
+/* =======================
+   Procesamiento de imágenes en el navegador antes de subirlas
+   Redimensiona, recodifica (WebP o JPEG) y al pasar por canvas descarta el EXIF
+======================= */
+export const MAX_INPUT_BYTES = 25 * 1024 * 1024
+export const DEFAULT_MAX_DIMENSION = 1600
+export const DEFAULT_QUALITY = 0.82
+
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"]
+
+export interface SquareCrop {
+  /** En píxeles de la imagen original, ya orientada */
+  x: number
+  y: number
+  size: number
+}
+
+export interface ImageProcessOptions {
+  maxDimension?: number
+  quality?: number
+  crop?: SquareCrop | null
+}
+
+export interface ProcessedImage {
+  file: File
+  /** Archivo elegido por el admin, para volver a recortar sin recomprimir dos veces */
+  original: File
+  width: number
+  height: number
+  originalSize: number
+  size: number
+}
+
+export class ImageProcessingError extends Error {
+  readonly fileName: string
+
+  constructor(message: string, fileName: string) {
+    super(message)
+    this.name = "ImageProcessingError"
+    this.fileName = fileName
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/** Mensaje de error o null si el archivo se puede procesar */
+export function validateImageFile(file: File): string | null {
+  if (!file.type.startsWith("image/")) return "No es una imagen"
+  if (!ACCEPTED_TYPES.includes(file.type)) return "Formato no soportado (usá JPG, PNG, WebP, GIF o AVIF)"
+  if (file.size > MAX_INPUT_BYTES) {
+    return `Pesa ${formatBytes(file.size)}; el máximo es ${formatBytes(MAX_INPUT_BYTES)}`
+  }
+  return null
+}
+
+/** createImageBitmap aplica la orientación EXIF; el <img> es el respaldo para navegadores viejos */
+async function decodeImage(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" })
+    } catch {
+      // Safari < 15 no acepta opciones: se sigue con <img>
+    }
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const img = new Image()
+    img.src = url
+    await img.decode()
+    return img
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function sourceSize(source: ImageBitmap | HTMLImageElement) {
+  return source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height }
+}
+
+/** Tamaño ya orientado, para ubicar el recorte sobre la imagen que ve el admin */
+export async function readImageSize(file: File): Promise<{ width: number; height: number }> {
+  const source = await decodeImage(file)
+  const size = sourceSize(source)
+  if (!(source instanceof HTMLImageElement)) source.close()
+  return size
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+}
+
+function renamed(name: string, type: string) {
+  const base = name.replace(/\.[^.]+$/, "") || "imagen"
+  return `${base}.${type === "image/webp" ? "webp" : "jpg"}`
+}
+
+export async function processImage(file: File, options: ImageProcessOptions = {}): Promise<ProcessedImage> {
+  const { maxDimension = DEFAULT_MAX_DIMENSION, quality = DEFAULT_QUALITY, crop = null } = options
+
+  const invalid = validateImageFile(file)
+  if (invalid) throw new ImageProcessingError(invalid, file.name)
+
+  let source: ImageBitmap | HTMLImageElement
+  try {
+    source = await decodeImage(file)
+  } catch {
+    throw new ImageProcessingError("No se pudo leer la imagen", file.name)
+  }
+
+  const natural = sourceSize(source)
+  const region = crop
+    ? { x: crop.x, y: crop.y, width: crop.size, height: crop.size }
+    : { x: 0, y: 0, ...natural }
+
+  const ratio = Math.min(1, maxDimension / Math.max(region.width, region.height))
+  const width = Math.max(1, Math.round(region.width * ratio))
+  const height = Math.max(1, Math.round(region.height * ratio))
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new ImageProcessingError("El navegador no permite procesar imágenes", file.name)
+
+  ctx.imageSmoothingQuality = "high"
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height)
+  if (!(source instanceof HTMLImageElement)) source.close()
+
+  // Safari no codifica WebP: toBlob devuelve PNG y se reintenta en JPEG (sin alfa, fondo blanco)
+  let blob = await canvasToBlob(canvas, "image/webp", quality)
+  if (!blob || blob.type !== "image/webp") {
+    ctx.globalCompositeOperation = "destination-over"
+    ctx.fillStyle = "#fff"
+    ctx.fillRect(0, 0, width, height)
+    blob = await canvasToBlob(canvas, "image/jpeg", quality)
+  }
+  if (!blob) throw new ImageProcessingError("No se pudo comprimir la imagen", file.name)
+
+  return {
+    file: new File([blob], renamed(file.name, blob.type), { type: blob.type, lastModified: Date.now() }),
+    original: file,
+    width,
+    height,
+    originalSize: file.size,
+    size: blob.size,
+  }
+}
+
+/** Procesa varias imágenes; las que fallan vuelven como errores sin frenar al resto */
+export async function processImages(files: File[], options?: ImageProcessOptions) {
+  const processed: ProcessedImage[] = []
+  const errors: ImageProcessingError[] = []
+
+  // De a una: varias fotos de celular decodificadas a la vez pueden agotar la memoria
+  for (const file of files) {
+    try {
+      processed.push(await processImage(file, options))
+    } catch (err) {
+      errors.push(
+        err instanceof ImageProcessingError
+          ? err
+          : new ImageProcessingError("No se pudo procesar la imagen", file.name)
+      )
+    }
+  }
+
+  return { processed, errors }
+}
@@ -0,0 +1,170 @@
+import type { Product } from "@/types/product"
+import type { ProductPayload } from "@/types/api"
+
+/* =======================
+   Precios
+   Todo es opcional: sin precio de lista el producto se sigue consultando por WhatsApp
+======================= */
+export const DEFAULT_CURRENCY = import.meta.env.VITE_CURRENCY || "ARS"
+export const SUPPORTED_CURRENCIES = ["ARS", "USD", "EUR"] as const
+
+type Priced = Pick<Product, "listPrice" | "salePrice" | "currency" | "priceOnRequest">
+
+export type PriceInfo =
+  | { kind: "none" }
+  | { kind: "onRequest" }
+  | {
+      kind: "price"
+      amount: number
+      currency: string
+      /** Precio de lista tachado cuando hay oferta */
+      original?: number
+      discountPercent?: number
+    }
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+export function formatPrice(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const key = `${currency}:${Number.isInteger(amount)}`
+  let formatter = formatters.get(key)
+
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat("es-AR", {
+        style: "currency",
+        currency,
+        maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+      })
+    } catch {
+      // Código de moneda inválido desde el backend: número sin símbolo
+      formatter = new Intl.NumberFormat("es-AR", { maximumFractionDigits: 2 })
+    }
+    formatters.set(key, formatter)
+  }
+
+  return formatter.format(amount)
+}
+
+/** La oferta solo cuenta si es menor al precio de lista */
+export function getPriceInfo(product: Priced): PriceInfo {
+  if (product.priceOnRequest) return { kind: "onRequest" }
+  if (product.listPrice == null) return { kind: "none" }
+
+  const currency = product.currency || DEFAULT_CURRENCY
+  const { listPrice, salePrice } = product
+
+  if (salePrice != null && salePrice < listPrice) {
+    return {
+      kind: "price",
+      amount: salePrice,
+      currency,
+      original: listPrice,
+      discountPercent: Math.round((1 - salePrice / listPrice) * 100),
+    }
+  }
+
+  return { kind: "price", amount: listPrice, currency }
+}
+
+/** Precio que paga el cliente, o null si hay que consultarlo */
+export function getEffectivePrice(product: Priced): number | null {
+  const info = getPriceInfo(product)
+  return info.kind === "price" ? info.amount : null
+}
+
+/** Precio efectivo solo si está en esa moneda: montos en monedas distintas no se comparan */
+export function getEffectivePriceIn(product: Priced, currency: string): number | null {
+  const info = getPriceInfo(product)
+  return info.kind === "price" && info.currency === currency ? info.amount : null
+}
+
+/** Campos de precio para una línea de consulta (vacío si no hay precio publicado) */
+export function getLinePrice(product: Priced): { unitPrice?: number; currency?: string } {
+  const info = getPriceInfo(product)
+  return info.kind === "price" ? { unitPrice: info.amount, currency: info.currency } : {}
+}
+
+export interface SubtotalEstimate {
+  /** Un total por moneda: no se convierten entre sí */
+  totals: { currency: string; amount: number }[]
+  /** Unidades sin precio publicado */
+  unpricedCount: number
+}
+
+/** Suma precio unitario × cantidad; las líneas sin precio solo se cuentan */
+export function sumLines(
+  lines: { unitPrice?: number | null; currency?: string; quantity: number }[]
+): SubtotalEstimate {
+  const totals = new Map<string, number>()
+  let unpricedCount = 0
+
+  for (const { unitPrice, currency = DEFAULT_CURRENCY, quantity } of lines) {
+    if (unitPrice == null) {
+      unpricedCount += quantity
+      continue
+    }
+    totals.set(currency, (totals.get(currency) ?? 0) + unitPrice * quantity)
+  }
+
+  return {
+    totals: Array.from(totals, ([currency, amount]) => ({ currency, amount })),
+    unpricedCount,
+  }
+}
+
+export function estimateSubtotal(lines: { product: Priced; quantity: number }[]): SubtotalEstimate {
+  return sumLines(lines.map(({ product, quantity }) => ({ ...getLinePrice(product), quantity })))
+}
+
+export function formatSubtotal({ totals }: SubtotalEstimate): string {
+  return totals.map((t) => formatPrice(t.amount, t.currency)).join(" + ")
+}
+
+/* =======================
+   Formulario del admin
+======================= */
+export interface PriceDraft {
+  listPrice: string
+  salePrice: string
+  currency: string
+  priceOnRequest: boolean
+}
+
+type PricePayload = Required<Pick<ProductPayload, "listPrice" | "salePrice" | "currency" | "priceOnRequest">>
+
+export function priceDraftFromProduct(product?: Priced): PriceDraft {
+  return {
+    listPrice: product?.listPrice != null ? String(product.listPrice) : "",
+    salePrice: product?.salePrice != null ? String(product.salePrice) : "",
+    currency: product?.currency || DEFAULT_CURRENCY,
+    priceOnRequest: product?.priceOnRequest ?? false,
+  }
+}
+
+/** Vacío es null (sin precio); undefined si no es un número válido */
+function parsePriceInput(value: string): number | null | undefined {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  const amount = Number(trimmed.replace(",", "."))
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) / 100 : undefined
+}
+
+export function parsePriceDraft(
+  draft: PriceDraft
+): { value: PricePayload; error?: undefined } | { value?: undefined; error: string } {
+  const listPrice = parsePriceInput(draft.listPrice)
+  const salePrice = parsePriceInput(draft.salePrice)
+
+  if (listPrice === undefined) return { error: "El precio de lista no es válido" }
+  if (salePrice === undefined) return { error: "El precio de oferta no es válido" }
+  if (salePrice !== null && listPrice === null) {
+    return { error: "La oferta requiere un precio de lista" }
+  }
+  if (salePrice !== null && listPrice !== null && salePrice >= listPrice) {
+    return { error: "La oferta debe ser menor al precio de lista" }
+  }
+
+  return {
+    value: { listPrice, salePrice, currency: draft.currency, priceOnRequest: draft.priceOnRequest },
+  }
+}
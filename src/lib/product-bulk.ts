@@ -0,0 +1,113 @@
+import type { Product } from "@/types/product"
+import type { Category } from "@/types/categories"
+import type { Collection } from "@/types/collections"
+import type { ProductPayload } from "@/types/api"
+import { applyStockChange } from "@/lib/stock"
+
+/* =======================
+   Acciones masivas sobre productos del admin
+   El backend no tiene endpoint masivo: cada producto se guarda con su PUT
+======================= */
+export type BulkProductAction =
+  | { type: "setInStock"; inStock: boolean }
+  | { type: "move"; categoryId?: string; collectionId?: string }
+  | { type: "adjustStock"; mode: "set" | "add"; amount: number }
+  | { type: "delete" }
+
+export interface BulkTarget {
+  id: string
+  name: string
+  /** Body del PUT; sin payload el producto se elimina */
+  payload?: ProductPayload
+  /** La acción no aplica a este producto: no se envía y se informa el motivo */
+  skipReason?: string
+}
+
+export interface BulkItemResult {
+  id: string
+  name: string
+  ok: boolean
+  /** No se envió (ver BulkTarget.skipReason); reintentar no cambia nada */
+  skipped?: boolean
+  error?: string
+}
+
+/** El PUT reemplaza todo: se parte de los datos actuales del producto */
+export function productToPayload(
+  product: Product,
+  categories: Category[],
+  collections: Collection[]
+): ProductPayload {
+  return {
+    name: product.name,
+    description: product.description,
+    categoryId: categories.find((c) => c.slug === product.categorySlug)?.id ?? "",
+    collectionId: collections.find((c) => c.slug === product.collectionSlug)?.id ?? "",
+    inStock: product.inStock,
+    stockQty: product.stockQty ?? 0,
+    listPrice: product.listPrice,
+    salePrice: product.salePrice,
+    currency: product.currency,
+    priceOnRequest: product.priceOnRequest,
+  }
+}
+
+export function applyBulkAction(payload: ProductPayload, action: BulkProductAction): ProductPayload {
+  switch (action.type) {
+    case "setInStock":
+      return { ...payload, ...applyStockChange(payload, { inStock: action.inStock }) }
+    case "move":
+      return {
+        ...payload,
+        categoryId: action.categoryId ?? payload.categoryId,
+        collectionId: action.collectionId ?? payload.collectionId,
+      }
+    case "adjustStock": {
+      const stockQty = Math.max(
+        0,
+        action.mode === "set" ? action.amount : payload.stockQty + action.amount
+      )
+      return { ...payload, stockQty, inStock: stockQty > 0 }
+    }
+    case "delete":
+      return payload
+  }
+}
+
+export function buildBulkTargets(
+  products: Product[],
+  action: BulkProductAction,
+  categories: Category[],
+  collections: Collection[]
+): BulkTarget[] {
+  return products.map((p) => ({
+    id: p.id,
+    name: p.name,
+    payload:
+      action.type === "delete"
+        ? undefined
+        : applyBulkAction(productToPayload(p, categories, collections), action),
+    skipReason: getSkipReason(p, action),
+  }))
+}
+
+// El PUT saldría bien pero el producto no quedaría como pide la acción
+function getSkipReason(product: Product, action: BulkProductAction): string | undefined {
+  if (action.type === "setInStock" && action.inStock && !product.stockQty) {
+    return "Sin unidades: cargá stock para habilitarlo"
+  }
+  return undefined
+}
+
+export function describeBulkAction(action: BulkProductAction): string {
+  switch (action.type) {
+    case "setInStock":
+      return action.inStock ? "Marcar en stock" : "Marcar sin stock"
+    case "move":
+      return "Mover"
+    case "adjustStock":
+      return action.mode === "set" ? `Stock = ${action.amount}` : `Stock ${action.amount >= 0 ? "+" : ""}${action.amount}`
+    case "delete":
+      return "Eliminar"
+  }
+}
@@ -0,0 +1,220 @@
+import type { Product } from "@/types/product"
+import { toCsv } from "@/lib/csv"
+import { formatPrice, getPriceInfo } from "@/lib/price"
+
+/* =======================
+   Exportación del catálogo (CSV / JSON / lista imprimible)
+   Las columnas coinciden con las que reconoce la importación masiva,
+   así un export editado en una planilla se puede volver a importar
+======================= */
+const CSV_HEADERS = [
+  "id",
+  "nombre",
+  "descripcion",
+  "categoria",
+  "coleccion",
+  "stock",
+  "disponible",
+  "precio",
+  "oferta",
+  "moneda",
+  "precio_a_consultar",
+]
+
+const UNGROUPED_COLLECTION = "Sin colección"
+const UNGROUPED_CATEGORY = "Sin categoría"
+
+export function buildProductsCsv(products: Product[]): string {
+  return toCsv([
+    CSV_HEADERS,
+    ...products.map((p) => [
+      p.id,
+      p.name,
+      p.description,
+      p.category ?? "",
+      p.collection ?? "",
+      p.stockQty ?? 0,
+      p.inStock ? "si" : "no",
+      p.listPrice ?? "",
+      p.salePrice ?? "",
+      p.currency,
+      p.priceOnRequest ? "si" : "no",
+    ]),
+  ])
+}
+
+export function buildProductsJson(products: Product[], exportedAt = new Date()): string {
+  const items = products.map((p) => ({
+    id: p.id,
+    name: p.name,
+    description: p.description,
+    category: p.category,
+    categorySlug: p.categorySlug,
+    collection: p.collection,
+    collectionSlug: p.collectionSlug,
+    inStock: p.inStock,
+    stockQty: p.stockQty ?? 0,
+    listPrice: p.listPrice,
+    salePrice: p.salePrice,
+    currency: p.currency,
+    priceOnRequest: p.priceOnRequest,
+    image: p.image || null,
+    images: p.images,
+  }))
+
+  return JSON.stringify({ exportedAt: exportedAt.toISOString(), total: items.length, items }, null, 2)
+}
+
+/* =======================
+   Lista imprimible
+======================= */
+interface PrintGroup {
+  collection: string
+  categories: { category: string; products: Product[] }[]
+}
+
+/** Colección → categoría → productos, todo en orden alfabético */
+export function groupForPrint(products: Product[]): PrintGroup[] {
+  const byCollection = new Map<string, Map<string, Product[]>>()
+
+  for (const p of products) {
+    const collection = p.collection ?? UNGROUPED_COLLECTION
+    const category = p.category ?? UNGROUPED_CATEGORY
+    const categories = byCollection.get(collection) ?? new Map<string, Product[]>()
+    categories.set(category, [...(categories.get(category) ?? []), p])
+    byCollection.set(collection, categories)
+  }
+
+  const compare = (a: string, b: string) => a.localeCompare(b, "es")
+
+  return Array.from(byCollection, ([collection, categories]) => ({
+    collection,
+    categories: Array.from(categories, ([category, items]) => ({
+      category,
+      products: [...items].sort((a, b) => compare(a.name, b.name)),
+    })).sort((a, b) => compare(a.category, b.category)),
+  })).sort((a, b) => compare(a.collection, b.collection))
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+// La hoja se abre como blob: las rutas relativas no resolverían
+function absoluteUrl(src: string) {
+  try {
+    return new URL(src, window.location.href).href
+  } catch {
+    return ""
+  }
+}
+
+const PRINT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111; margin: 24px; font-size: 12px; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #111; padding-bottom: 8px; margin-bottom: 16px; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 15px; margin: 20px 0 6px; padding: 4px 8px; background: #f1f1f4; border-radius: 4px; }
+  h3 { font-size: 12px; margin: 10px 0 4px; text-transform: uppercase; letter-spacing: .04em; color: #555; }
+  .meta { color: #555; text-align: right; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 4px 6px; border-bottom: 1px solid #e5e5e5; text-align: left; vertical-align: middle; }
+  th { font-size: 10px; color: #666; text-transform: uppercase; }
+  .thumb { width: 44px; }
+  .thumb img { width: 40px; height: 40px; object-fit: cover; border-radius: 4px; border: 1px solid #ddd; display: block; }
+  .qty { width: 70px; text-align: right; font-variant-numeric: tabular-nums; font-weight: 600; }
+  .price { width: 110px; text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .price s { color: #888; font-size: 10px; margin-right: 4px; }
+  .out { color: #b45309; }
+  .toolbar { position: fixed; top: 12px; right: 12px; }
+  .toolbar button { font: inherit; padding: 6px 14px; border-radius: 6px; border: 1px solid #111; background: #111; color: #fff; cursor: pointer; }
+  section { break-inside: avoid-page; }
+  tr { break-inside: avoid; }
+  @media print {
+    body { margin: 0; }
+    .toolbar { display: none; }
+    h2 { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`
+
+function renderPrice(p: Product) {
+  const info = getPriceInfo(p)
+  if (info.kind === "onRequest") return "Consultar"
+  if (info.kind === "none") return "—"
+
+  const original = info.original ? `<s>${escapeHtml(formatPrice(info.original, info.currency))}</s>` : ""
+  return original + escapeHtml(formatPrice(info.amount, info.currency))
+}
+
+function renderRow(p: Product) {
+  const image = p.image ? absoluteUrl(p.image) : ""
+  const qty = p.inStock ? String(p.stockQty ?? "—") : "Sin stock"
+
+  return `<tr>
+    <td class="thumb">${image ? `<img src="${escapeHtml(image)}" alt="">` : ""}</td>
+    <td>${escapeHtml(p.name)}</td>
+    <td class="price">${renderPrice(p)}</td>
+    <td class="qty${p.inStock ? "" : " out"}">${qty}</td>
+  </tr>`
+}
+
+export function buildPrintableCatalog(
+  products: Product[],
+  { title = "Lista de stock", subtitle = "", printedAt = new Date() } = {}
+): string {
+  const groups = groupForPrint(products)
+  const units = products.reduce((total, p) => total + (p.inStock ? p.stockQty ?? 0 : 0), 0)
+
+  const sections = groups
+    .map(
+      (group) => `<section>
+  <h2>${escapeHtml(group.collection)}</h2>
+  ${group.categories
+    .map(
+      ({ category, products: items }) => `<h3>${escapeHtml(category)} · ${items.length}</h3>
+  <table>
+    <thead><tr><th></th><th>Producto</th><th class="price">Precio</th><th class="qty">Stock</th></tr></thead>
+    <tbody>${items.map(renderRow).join("")}</tbody>
+  </table>`
+    )
+    .join("\n")}
+</section>`
+    )
+    .join("\n")
+
+  return `<!doctype html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Imprimir / PDF</button></div>
+<header>
+  <div>
+    <h1>${escapeHtml(title)}</h1>
+    ${subtitle ? `<div>${escapeHtml(subtitle)}</div>` : ""}
+  </div>
+  <div class="meta">
+    ${printedAt.toLocaleDateString("es-AR")}<br>
+    ${products.length} productos · ${units} unidades
+  </div>
+</header>
+${sections}
+</body>
+</html>`
+}
+
+/** Abre la lista en una pestaña nueva; devuelve false si el navegador la bloqueó */
+export function openPrintableCatalog(html: string): boolean {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html;charset=utf-8" }))
+  const opened = window.open(url, "_blank")
+  // La pestaña necesita el blob mientras carga
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  return opened !== null
+}
@@ -0,0 +1,58 @@
+import type { Product } from "@/types/product"
+import type { ProcessedImage } from "@/lib/image-processing"
+
+/* =======================
+   Galería de producto en el admin
+   El orden del array es el de la galería: la primera imagen es la portada
+======================= */
+export const MAX_PRODUCT_IMAGES = 12
+
+export interface ProductImageDraft {
+  key: string
+  /** URL guardada o object URL para previsualizar un archivo nuevo */
+  url: string
+  /** Presente solo en imágenes que todavía no se subieron (ya optimizada) */
+  file?: File
+  /** Archivo tal como lo eligió el admin, para recortar sin recomprimir dos veces */
+  original?: File
+}
+
+let draftSeq = 0
+const nextKey = () => `img-${++draftSeq}`
+
+export function draftsFromProduct(product: Product): ProductImageDraft[] {
+  return product.images.map((url) => ({ key: nextKey(), url }))
+}
+
+export function draftsFromProcessed(results: ProcessedImage[]): ProductImageDraft[] {
+  return results.map(({ file, original }) => ({
+    key: nextKey(),
+    url: URL.createObjectURL(file),
+    file,
+    original,
+  }))
+}
+
+/** Libera los object URLs de los archivos sin subir */
+export function revokeDrafts(drafts: ProductImageDraft[]) {
+  for (const draft of drafts) {
+    if (draft.file) URL.revokeObjectURL(draft.url)
+  }
+}
+
+export function hasNewImages(drafts: ProductImageDraft[]): boolean {
+  return drafts.some((draft) => draft.file)
+}
+
+/**
+ * Orden final de la galería: las subidas nuevas quedan al final del servidor,
+ * acá se ubican donde el admin las dejó
+ */
+export function resolveImageOrder(drafts: ProductImageDraft[], uploadedUrls: string[]): string[] {
+  let next = 0
+  return drafts.map((draft) => (draft.file ? uploadedUrls[next++] : draft.url))
+}
+
+export function sameImages(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((url, i) => url === b[i])
+}
@@ -0,0 +1,351 @@
+import type { Product } from "@/types/product"
+import type { Category } from "@/types/categories"
+import type { Collection } from "@/types/collections"
+import type { ProductPayload } from "@/types/api"
+import { parseCsv, restoreFormulaText } from "@/lib/csv"
+import { runInBatches } from "@/lib/batch"
+import { normalizeText } from "@/lib/taxonomy"
+import { parsePriceDraft, priceDraftFromProduct } from "@/lib/price"
+import { applyStockChange } from "@/lib/stock"
+
+/* =======================
+   Importación masiva de productos (CSV / JSON)
+   archivo → columnas → mapeo a campos → filas validadas → lotes
+======================= */
+export const MAX_IMPORT_ROWS = 500
+
+export type ImportField =
+  | "id"
+  | "name"
+  | "description"
+  | "category"
+  | "collection"
+  | "inStock"
+  | "stockQty"
+  | "listPrice"
+  | "salePrice"
+  | "currency"
+  | "priceOnRequest"
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  id: "ID (actualizar)",
+  name: "Nombre",
+  description: "Descripción",
+  category: "Categoría",
+  collection: "Colección",
+  inStock: "Disponible",
+  stockQty: "Stock",
+  listPrice: "Precio de lista",
+  salePrice: "Precio de oferta",
+  currency: "Moneda",
+  priceOnRequest: "Precio a consultar",
+}
+
+// Cabeceras reconocidas automáticamente (ya normalizadas)
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  id: ["id", "productid"],
+  name: ["name", "nombre", "producto", "minifigura"],
+  description: ["description", "descripcion", "detalle"],
+  category: ["category", "categoria", "categoryslug", "categoryid"],
+  collection: ["collection", "coleccion", "collectionslug", "collectionid"],
+  inStock: ["instock", "disponible", "enstock", "stockdisponible"],
+  stockQty: ["stockqty", "stock", "cantidad", "qty", "unidades"],
+  listPrice: ["listprice", "precio", "preciolista", "preciodelista"],
+  salePrice: ["saleprice", "oferta", "preciooferta", "preciodeoferta"],
+  currency: ["currency", "moneda"],
+  priceOnRequest: ["priceonrequest", "precioaconsultar", "consultarprecio", "aconsultar"],
+}
+
+const PRICE_FIELDS: ImportField[] = ["listPrice", "salePrice", "currency", "priceOnRequest"]
+
+/** Cabecera del archivo → campo del formulario (null = ignorar) */
+export type ColumnMapping = Record<string, ImportField | null>
+
+export interface ParsedImportFile {
+  format: "csv" | "json"
+  headers: string[]
+  records: Record<string, string>[]
+}
+
+export interface ImportRow {
+  /** Fila de la planilla en CSV (la 1 es la cabecera); en JSON, número de producto */
+  line: number
+  name: string
+  action: "create" | "update"
+  productId?: string
+  payload: ProductPayload
+  errors: string[]
+}
+
+export interface ImportContext {
+  products: Product[]
+  categories: Category[]
+  collections: Collection[]
+}
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImportFileError"
+  }
+}
+
+/* =======================
+   Helpers
+======================= */
+function normalizeKey(value: string) {
+  return normalizeText(value).replace(/[^a-z0-9]/g, "")
+}
+
+function stringifyCell(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+const TRUE_VALUES = ["si", "true", "1", "yes", "x", "disponible"]
+const FALSE_VALUES = ["no", "false", "0", "agotado"]
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = normalizeText(value)
+  if (TRUE_VALUES.includes(normalized)) return true
+  if (FALSE_VALUES.includes(normalized)) return false
+  return null
+}
+
+/** Busca por id, slug o nombre, sin importar mayúsculas ni acentos */
+function resolveByIdSlugOrName<T extends { id: string; slug: string; name: string }>(
+  items: T[],
+  value: string
+): T | undefined {
+  const normalized = normalizeText(value)
+  return items.find(
+    (item) =>
+      item.id === value.trim() ||
+      normalizeText(item.slug) === normalized ||
+      normalizeText(item.name) === normalized
+  )
+}
+
+/* =======================
+   Lectura del archivo
+======================= */
+export function parseImportFile(fileName: string, text: string): ParsedImportFile {
+  const isJson = fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text)
+  const parsed = isJson ? parseJsonRecords(text) : parseCsvRecords(text)
+
+  if (parsed.records.length === 0) throw new ImportFileError("El archivo no tiene productos")
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`El archivo supera el máximo de ${MAX_IMPORT_ROWS} productos`)
+  }
+
+  return parsed
+}
+
+function parseCsvRecords(text: string): ParsedImportFile {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) throw new ImportFileError("El archivo está vacío")
+
+  const headers = header.map((h, i) => h.trim() || `Columna ${i + 1}`)
+  const records = rows.map((cells) =>
+    Object.fromEntries(headers.map((h, i) => [h, restoreFormulaText((cells[i] ?? "").trim())]))
+  )
+
+  return { format: "csv", headers, records }
+}
+
+function parseJsonRecords(text: string): ParsedImportFile {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ImportFileError("El JSON no es válido")
+  }
+
+  // Acepta un array o { items | products: [...] }
+  const list = Array.isArray(data)
+    ? data
+    : (data as { items?: unknown; products?: unknown } | null)?.items ??
+      (data as { products?: unknown } | null)?.products
+
+  if (!Array.isArray(list)) throw new ImportFileError("El JSON debe ser una lista de productos")
+
+  const objects = list.filter(
+    (item): item is Record<string, unknown> => typeof item === "object" && item !== null
+  )
+  const headers = Array.from(new Set(objects.flatMap((item) => Object.keys(item))))
+  const records = objects.map((item) =>
+    Object.fromEntries(headers.map((h) => [h, stringifyCell(item[h]).trim()]))
+  )
+
+  return { format: "json", headers, records }
+}
+
+/** Sugiere el mapeo a partir de los nombres de columna */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>()
+
+  return Object.fromEntries(
+    headers.map((header) => {
+      const key = normalizeKey(header)
+      const field = (Object.keys(FIELD_ALIASES) as ImportField[]).find(
+        (f) => !used.has(f) && FIELD_ALIASES[f].includes(key)
+      )
+      if (field) used.add(field)
+      return [header, field ?? null]
+    })
+  )
+}
+
+/* =======================
+   Validación fila por fila
+======================= */
+export function buildImportRows(
+  file: ParsedImportFile,
+  mapping: ColumnMapping,
+  { products, categories, collections }: ImportContext
+): ImportRow[] {
+  const columnFor = Object.fromEntries(
+    Object.entries(mapping)
+      .filter((entry): entry is [string, ImportField] => entry[1] !== null)
+      .map(([header, field]) => [field, header])
+  ) as Partial<Record<ImportField, string>>
+
+  const productsById = new Map(products.map((p) => [p.id, p]))
+  const productsByName = new Map(products.map((p) => [normalizeText(p.name), p]))
+  const seenNames = new Map<string, number>()
+  const lineLabel = file.format === "csv" ? "la fila" : "el producto"
+
+  return file.records.map((record, index) => {
+    const line = file.format === "csv" ? index + 2 : index + 1
+    const errors: string[] = []
+    const read = (field: ImportField) => {
+      const column = columnFor[field]
+      return column ? (record[column] ?? "").trim() : ""
+    }
+
+    // Existente: por id explícito o, si no hay id, por nombre exacto
+    const rawId = read("id")
+    let existing: Product | undefined
+    if (rawId) {
+      existing = productsById.get(rawId)
+      if (!existing) errors.push(`No existe un producto con id "${rawId}"`)
+    } else {
+      existing = productsByName.get(normalizeText(read("name")))
+    }
+
+    const name = read("name") || existing?.name || ""
+    if (!name) errors.push("Falta el nombre")
+
+    if (name) {
+      const key = normalizeText(name)
+      const firstLine = seenNames.get(key)
+      if (firstLine) errors.push(`Nombre repetido en ${lineLabel} ${firstLine}`)
+      else seenNames.set(key, line)
+    }
+
+    const rawCategory = read("category")
+    const category = rawCategory
+      ? resolveByIdSlugOrName(categories, rawCategory)
+      : categories.find((c) => c.slug === existing?.categorySlug)
+    if (rawCategory && !category) errors.push(`La categoría "${rawCategory}" no existe`)
+
+    const rawCollection = read("collection")
+    const collection = rawCollection
+      ? resolveByIdSlugOrName(collections, rawCollection)
+      : collections.find((c) => c.slug === existing?.collectionSlug)
+    if (rawCollection && !collection) errors.push(`La colección "${rawCollection}" no existe`)
+
+    const rawQty = read("stockQty")
+    let stockQty = existing?.stockQty ?? 0
+    if (rawQty) {
+      const qty = Number(rawQty)
+      if (Number.isInteger(qty) && qty >= 0) stockQty = qty
+      else errors.push(`Stock inválido: "${rawQty}"`)
+    }
+
+    const rawInStock = read("inStock")
+    let inStock = rawQty ? stockQty > 0 : existing?.inStock ?? stockQty > 0
+    if (rawInStock) {
+      const parsed = parseBoolean(rawInStock)
+      if (parsed === null) errors.push(`Disponibilidad inválida: "${rawInStock}" (usá sí/no)`)
+      else inStock = parsed
+    }
+
+    // Con 0 unidades no puede quedar disponible, diga lo que diga la columna
+    const stock = applyStockChange({ inStock, stockQty }, {})
+
+    // Sin columnas de precio se conservan los del producto; una celda vacía borra el precio
+    let prices: Partial<ProductPayload> = {}
+    if (PRICE_FIELDS.some((field) => columnFor[field])) {
+      const draft = priceDraftFromProduct(existing)
+      if (columnFor.listPrice) draft.listPrice = read("listPrice")
+      if (columnFor.salePrice) draft.salePrice = read("salePrice")
+
+      const rawCurrency = read("currency").toUpperCase()
+      if (rawCurrency && /^[A-Z]{3}$/.test(rawCurrency)) draft.currency = rawCurrency
+      else if (rawCurrency) errors.push(`Moneda inválida: "${read("currency")}"`)
+
+      const rawOnRequest = read("priceOnRequest")
+      if (rawOnRequest) {
+        const parsed = parseBoolean(rawOnRequest)
+        if (parsed === null) errors.push(`Precio a consultar inválido: "${rawOnRequest}" (usá sí/no)`)
+        else draft.priceOnRequest = parsed
+      }
+
+      const result = parsePriceDraft(draft)
+      if (result.error) errors.push(result.error)
+      else prices = result.value
+    }
+
+    return {
+      line,
+      name,
+      action: existing ? "update" : "create",
+      productId: existing?.id,
+      payload: {
+        name,
+        description: read("description") || existing?.description || "",
+        categoryId: category?.id ?? "",
+        collectionId: collection?.id ?? "",
+        ...stock,
+        ...prices,
+      },
+      errors,
+    }
+  })
+}
+
+/* =======================
+   Ejecución en lotes
+======================= */
+export interface ImportRowResult {
+  line: number
+  name: string
+  action: ImportRow["action"]
+  ok: boolean
+  error?: string
+}
+
+/** Guarda las filas en lotes; una fila que falla no corta el resto */
+export async function runImportInBatches(
+  rows: ImportRow[],
+  save: (row: ImportRow) => Promise<unknown>,
+  describeError: (error: unknown) => string,
+  onProgress?: (done: number) => void
+): Promise<ImportRowResult[]> {
+  const settled = await runInBatches(rows, save, { onProgress })
+
+  return settled.map((outcome, i) => ({
+    line: rows[i].line,
+    name: rows[i].name,
+    action: rows[i].action,
+    ok: outcome.status === "fulfilled",
+    error: outcome.status === "rejected" ? describeError(outcome.reason) : undefined,
+  }))
+}
+
+/** Plantilla descargable con las columnas reconocidas */
+export const IMPORT_TEMPLATE_CSV =
+  "nombre,descripcion,categoria,coleccion,stock,disponible,precio,oferta,moneda\n" +
+  '"Luke Skywalker","Minifigura original",jedi,star-wars,3,si,15000,,ARS\n'
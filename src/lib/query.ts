@@ -0,0 +1,47 @@
+import { QueryClient } from "@tanstack/react-query"
+import { isApiError } from "@/config/api"
+import type { ProductFacetsQuery, ProductListQuery } from "@/services/products.service"
+
+/* =======================
+   Query keys compartidas
+======================= */
+export const queryKeys = {
+  collections: ["collections"] as const,
+  categories: {
+    all: ["categories"] as const,
+    list: (collection?: string | null) =>
+      ["categories", "list", collection ?? "all"] as const,
+  },
+  products: {
+    all: ["products"] as const,
+    list: (query: ProductListQuery) => ["products", "list", query] as const,
+    infinite: (query: Omit<ProductListQuery, "page">) => ["products", "infinite", query] as const,
+    detail: (id: string) => ["products", "detail", id] as const,
+    facets: (query: ProductFacetsQuery) => ["products", "facets", query] as const,
+  },
+  admin: {
+    products: ["admin", "products"] as const,
+    consultations: ["admin", "consultations"] as const,
+  },
+}
+
+/* =======================
+   Client
+======================= */
+const MAX_RETRIES = 2
+
+// Los 4xx no se reintentan: el resultado no va a cambiar
+const shouldRetry = (failureCount: number, error: unknown) => {
+  if (isApiError(error) && error.status >= 400 && error.status < 500) return false
+  return failureCount < MAX_RETRIES
+}
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000,
+      refetchOnWindowFocus: false,
+      retry: shouldRetry,
+    },
+  },
+})
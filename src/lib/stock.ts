@@ -0,0 +1,61 @@
+import type { Product } from "@/types/product"
+
+/* =======================
+   Stock en el admin
+   Umbral de "stock bajo" configurable, guardado en este navegador
+======================= */
+const LOW_STOCK_KEY = "mikeco_low_stock_threshold"
+export const DEFAULT_LOW_STOCK_THRESHOLD = 3
+export const MAX_LOW_STOCK_THRESHOLD = 999
+
+export function readLowStockThreshold(): number {
+  try {
+    const stored = Number(localStorage.getItem(LOW_STOCK_KEY))
+    return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_LOW_STOCK_THRESHOLD
+  } catch {
+    return DEFAULT_LOW_STOCK_THRESHOLD
+  }
+}
+
+export function saveLowStockThreshold(value: number) {
+  try {
+    localStorage.setItem(LOW_STOCK_KEY, String(value))
+  } catch (e) {
+    console.warn("No se pudo guardar el umbral de stock:", e)
+  }
+}
+
+/** Disponible pero con pocas unidades; sin cantidad cargada no se puede saber */
+export function isLowStock(product: Product, threshold: number): boolean {
+  return (
+    product.inStock &&
+    product.stockQty != null &&
+    product.stockQty > 0 &&
+    product.stockQty <= threshold
+  )
+}
+
+export interface StockChange {
+  stockQty?: number
+  inStock?: boolean
+}
+
+/**
+ * Aplica un cambio de stock derivando la disponibilidad:
+ * llegar a 0 lo deja sin stock y reponer desde 0 lo vuelve a habilitar.
+ * Con 0 unidades no se puede marcar disponible: primero hay que cargar cantidad.
+ */
+export function applyStockChange(
+  current: { stockQty: number; inStock: boolean },
+  change: StockChange
+): { stockQty: number; inStock: boolean } {
+  if (change.stockQty === undefined) {
+    const inStock = (change.inStock ?? current.inStock) && current.stockQty > 0
+    return { stockQty: current.stockQty, inStock }
+  }
+
+  const stockQty = Math.max(0, change.stockQty)
+  const inStock = stockQty === 0 ? false : current.stockQty === 0 ? true : current.inStock
+
+  return { stockQty, inStock }
+}
@@ -0,0 +1,44 @@
+/* =======================
+   Listas guardadas en localStorage
+   Lectura tolerante, escritura con aviso y suscripción a cambios de esta
+   pestaña y de las demás
+======================= */
+const CHANGE_EVENT = "stored-list-change"
+
+export function readStoredList<T>(key: string): T[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) || "[]")
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** Una lista vacía borra la clave */
+export function writeStoredList<T>(key: string, list: T[]) {
+  try {
+    if (list.length === 0) localStorage.removeItem(key)
+    else localStorage.setItem(key, JSON.stringify(list))
+  } catch (e) {
+    console.warn(`No se pudo guardar ${key}:`, e)
+  }
+  // El evento storage no llega a la pestaña que escribe
+  window.dispatchEvent(new CustomEvent<string>(CHANGE_EVENT, { detail: key }))
+}
+
+/** Avisa cada cambio de `key`; devuelve la función para desuscribirse */
+export function subscribeStoredList(key: string, onChange: () => void): () => void {
+  const handleLocal = (event: Event) => {
+    if ((event as CustomEvent<string>).detail === key) onChange()
+  }
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === null || event.key === key) onChange()
+  }
+
+  window.addEventListener(CHANGE_EVENT, handleLocal)
+  window.addEventListener("storage", handleStorage)
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, handleLocal)
+    window.removeEventListener("storage", handleStorage)
+  }
+}
@@ -0,0 +1,63 @@
+import type { Product } from "@/types/product"
+
+/* =======================
+   Categorías y colecciones en el admin
+   Mismas reglas de slug que el backend, para avisar antes de guardar
+======================= */
+export type TaxonomyKind = "category" | "collection"
+
+export interface TaxonomyItem {
+  id: string
+  name: string
+  slug: string
+  description?: string
+  imageUrl?: string
+}
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+export const MAX_TAXONOMY_NAME_LENGTH = 60
+
+/** Sin tildes, sin mayúsculas y sin espacios en los extremos: para comparar y buscar */
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase()
+}
+
+export function slugify(value: string): string {
+  return normalizeText(value)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+/** Mensaje de error del slug o null si se puede usar */
+export function getSlugError(slug: string, items: TaxonomyItem[], currentId?: string): string | null {
+  if (!slug) return "El slug es requerido"
+  if (!SLUG_PATTERN.test(slug)) return "Solo letras minúsculas, números y guiones"
+
+  const taken = items.find((item) => item.slug === slug && item.id !== currentId)
+  return taken ? `Ya lo usa "${taken.name}"` : null
+}
+
+/** Productos por slug de categoría o colección */
+export function countProductsBySlug(products: Product[], kind: TaxonomyKind): Map<string, number> {
+  const counts = new Map<string, number>()
+
+  for (const p of products) {
+    const slug = kind === "category" ? p.categorySlug : p.collectionSlug
+    if (slug) counts.set(slug, (counts.get(slug) ?? 0) + 1)
+  }
+
+  return counts
+}
+
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= list.length || from === to) return list
+
+  const next = [...list]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
@@ -0,0 +1,60 @@
+import { getDeliveryLabel } from "@/lib/consultation"
+import { formatPrice, formatSubtotal, sumLines } from "@/lib/price"
+
+/* =======================
+   Plantilla del mensaje de consulta
+   Debe coincidir con el formato que arma el backend en /v1/consultations
+======================= */
+export interface MessageItem {
+  name: string
+  qty: number
+  note?: string
+  /** Precio unitario publicado; sin él el producto queda "a consultar" */
+  unitPrice?: number
+  currency?: string
+}
+
+export interface MessageContact {
+  name?: string
+  city?: string
+  delivery?: string
+}
+
+export const MESSAGE_GREETING = "¡Hola! Quiero consultar por estos productos:"
+
+export function buildConsultationMessage(items: MessageItem[], contact?: MessageContact): string {
+  const lines = items.flatMap((item) => [
+    `• ${item.name} x${item.qty}` +
+      (item.unitPrice != null ? ` — ${formatPrice(item.unitPrice, item.currency)} c/u` : ""),
+    ...(item.note ? [`  Nota: ${item.note}`] : []),
+  ])
+
+  const estimate = sumLines(items.map((item) => ({ ...item, quantity: item.qty })))
+  const totalLines = estimate.totals.length
+    ? [
+        "",
+        `Total estimado: ${formatSubtotal(estimate)}`,
+        ...(estimate.unpricedCount
+          ? [`(sin contar ${estimate.unpricedCount} a consultar)`]
+          : []),
+      ]
+    : []
+
+  const contactLines = [
+    contact?.name && `Nombre: ${contact.name}`,
+    contact?.city && `Ciudad: ${contact.city}`,
+    contact?.delivery && `Entrega: ${getDeliveryLabel(contact.delivery) ?? contact.delivery}`,
+  ].filter(Boolean) as string[]
+
+  return [
+    MESSAGE_GREETING,
+    "",
+    ...lines,
+    ...totalLines,
+    ...(contactLines.length ? ["", "Mis datos:", ...contactLines] : []),
+  ].join("\n")
+}
+
+export function buildWhatsAppUrl(phone: string, message: string): string {
+  return `https://wa.me/${phone.replace(/\D/g, "")}?text=${encodeURIComponent(message)}`
+}
@@ -1,6 +1,7 @@
 import React from "react";
 import { createRoot } from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
+import { QueryClientProvider } from "@tanstack/react-query";
 
 import App from "./App";
 import "./index.css";
@@ -8,17 +9,20 @@ import "./index.css";
 import { AuthProvider } from "@/context/AuthContext";
 import { CartProvider } from "@/context/CartContext";
 import { ProductProvider } from "@/context/ProductContext";
+import { queryClient } from "@/lib/query";
 
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <AuthProvider>
-      <ProductProvider>
-        <CartProvider>
-          <BrowserRouter basename="/JediCollector71">
-            <App />
-          </BrowserRouter>
-        </CartProvider>
-      </ProductProvider>
-    </AuthProvider>
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <ProductProvider>
+          <CartProvider>
+            <BrowserRouter basename="/JediCollector71">
+              <App />
+            </BrowserRouter>
+          </CartProvider>
+        </ProductProvider>
+      </AuthProvider>
+    </QueryClientProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,230 @@
+import { buildConsultationMessage } from "@/lib/whatsapp-message"
+import { getLinePrice } from "@/lib/price"
+
+/* =======================
+   Datos semilla del modo mock
+======================= */
+export interface MockCategory {
+  id: string
+  name: string
+  slug: string
+}
+
+export interface MockCollection {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  imageUrl: string | null
+}
+
+export interface MockProduct {
+  id: string
+  name: string
+  description: string
+  /** Portada: siempre images[0], para clientes que no conocen images */
+  image: string | null
+  images: string[]
+  inStock: boolean
+  stockQty: number
+  featured: boolean
+  categoryId: string | null
+  collectionId: string | null
+  listPrice: number | null
+  salePrice: number | null
+  currency: string
+  priceOnRequest: boolean
+  createdAt: string
+}
+
+export type MockConsultationStatus = "new" | "answered" | "sold" | "discarded"
+
+export interface MockConsultationItem {
+  productId: string
+  name: string
+  qty: number
+  note?: string
+  unitPrice?: number
+  currency?: string
+}
+
+export interface MockConsultationContact {
+  name?: string
+  city?: string
+  delivery?: string
+}
+
+export interface MockConsultation {
+  id: string
+  createdAt: string
+  status: MockConsultationStatus
+  items: MockConsultationItem[]
+  contact?: MockConsultationContact
+  whatsappMessage: string
+}
+
+export const MOCK_ADMIN_EMAIL = "admin@jedicollector.local"
+export const MOCK_ADMIN_PASSWORD = "admin123"
+
+const PLACEHOLDER_IMAGE = `${import.meta.env.BASE_URL}placeholder.svg`
+
+export const collections: MockCollection[] = [
+  {
+    id: "col-star-wars",
+    name: "Star Wars",
+    slug: "star-wars",
+    description: "Clones, Jedi, Sith y cazarrecompensas de toda la galaxia",
+    imageUrl: null,
+  },
+  {
+    id: "col-marvel",
+    name: "Marvel",
+    slug: "marvel",
+    description: "Héroes y villanos del universo Marvel",
+    imageUrl: null,
+  },
+  {
+    id: "col-harry-potter",
+    name: "Harry Potter",
+    slug: "harry-potter",
+    description: "Magos, brujas y criaturas de Hogwarts",
+    imageUrl: null,
+  },
+]
+
+export const categories: MockCategory[] = [
+  { id: "cat-clones", name: "Clones", slug: "clones" },
+  { id: "cat-rancor-battalion", name: "Rancor Battalion", slug: "rancor-battalion" },
+  { id: "cat-jedi", name: "Jedi", slug: "jedi" },
+  { id: "cat-sith", name: "Sith", slug: "sith" },
+  { id: "cat-mandalorianos", name: "Mandalorianos", slug: "mandalorianos" },
+  { id: "cat-avengers", name: "Avengers", slug: "avengers" },
+  { id: "cat-x-men", name: "X-Men", slug: "x-men" },
+  { id: "cat-hogwarts", name: "Hogwarts", slug: "hogwarts" },
+]
+
+type Seed = [name: string, categoryId: string, collectionId: string, stockQty: number, featured?: boolean]
+
+const seeds: Seed[] = [
+  ["Clone Trooper Fase 2", "cat-clones", "col-star-wars", 8, true],
+  ["Capitán Rex", "cat-clones", "col-star-wars", 3, true],
+  ["Comandante Cody", "cat-clones", "col-star-wars", 2],
+  ["ARC Trooper Fives", "cat-clones", "col-star-wars", 0],
+  ["Clone Pilot", "cat-clones", "col-star-wars", 5],
+  ["Rancor Battalion Trooper", "cat-rancor-battalion", "col-star-wars", 12, true],
+  ["Rancor Battalion Sargento", "cat-rancor-battalion", "col-star-wars", 4],
+  ["Rancor Battalion Heavy Gunner", "cat-rancor-battalion", "col-star-wars", 6],
+  ["Rancor Battalion Comandante", "cat-rancor-battalion", "col-star-wars", 1],
+  ["Obi-Wan Kenobi", "cat-jedi", "col-star-wars", 4, true],
+  ["Anakin Skywalker", "cat-jedi", "col-star-wars", 2],
+  ["Ahsoka Tano", "cat-jedi", "col-star-wars", 0],
+  ["Mace Windu", "cat-jedi", "col-star-wars", 3],
+  ["Darth Vader", "cat-sith", "col-star-wars", 5],
+  ["Darth Maul", "cat-sith", "col-star-wars", 2],
+  ["Conde Dooku", "cat-sith", "col-star-wars", 0],
+  ["Din Djarin", "cat-mandalorianos", "col-star-wars", 3],
+  ["Bo-Katan Kryze", "cat-mandalorianos", "col-star-wars", 2],
+  ["Iron Man Mark 85", "cat-avengers", "col-marvel", 4],
+  ["Capitán América", "cat-avengers", "col-marvel", 6],
+  ["Thor", "cat-avengers", "col-marvel", 0],
+  ["Black Widow", "cat-avengers", "col-marvel", 3],
+  ["Wolverine", "cat-x-men", "col-marvel", 2],
+  ["Cyclops", "cat-x-men", "col-marvel", 1],
+  ["Storm", "cat-x-men", "col-marvel", 0],
+  ["Harry Potter", "cat-hogwarts", "col-harry-potter", 5],
+  ["Hermione Granger", "cat-hogwarts", "col-harry-potter", 4],
+  ["Ron Weasley", "cat-hogwarts", "col-harry-potter", 3],
+  ["Albus Dumbledore", "cat-hogwarts", "col-harry-potter", 1],
+  ["Severus Snape", "cat-hogwarts", "col-harry-potter", 0],
+]
+
+// Precio de lista por categoría; Hogwarts queda sin precio (a consultar)
+const CATEGORY_PRICES: Record<string, number> = {
+  "cat-clones": 14000,
+  "cat-rancor-battalion": 18500,
+  "cat-jedi": 16000,
+  "cat-sith": 17500,
+  "cat-mandalorianos": 21000,
+  "cat-avengers": 13000,
+  "cat-x-men": 12500,
+}
+
+// Piezas raras: el precio se pasa por WhatsApp
+const ON_REQUEST = new Set(["Rancor Battalion Comandante", "Conde Dooku"])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SEED_EPOCH = Date.UTC(2025, 0, 1)
+
+export const products: MockProduct[] = seeds.map(
+  ([name, categoryId, collectionId, stockQty, featured = false], i) => {
+    const listPrice = CATEGORY_PRICES[categoryId] ?? null
+
+    return {
+      id: `mock-${String(i + 1).padStart(3, "0")}`,
+      name,
+      description: `Minifigura de ${name}. Pieza original, en excelente estado.`,
+      image: PLACEHOLDER_IMAGE,
+      images: [PLACEHOLDER_IMAGE],
+      inStock: stockQty > 0,
+      stockQty,
+      featured,
+      categoryId,
+      collectionId,
+      // Destacados en oferta, el resto con variaciones para que ordenar por precio tenga sentido
+      listPrice: listPrice === null ? null : listPrice + (i % 4) * 500,
+      salePrice: listPrice !== null && featured ? Math.round((listPrice * 0.85) / 100) * 100 : null,
+      currency: "ARS",
+      priceOnRequest: ON_REQUEST.has(name),
+      // Altas escalonadas para que el orden "más nuevos" tenga sentido
+      createdAt: new Date(SEED_EPOCH + i * 7 * DAY_MS).toISOString(),
+    }
+  }
+)
+
+/* =======================
+   Consultas de ejemplo (relativas a hoy, para el inbox y las métricas)
+======================= */
+type ConsultationSeed = [
+  daysAgo: number,
+  status: MockConsultationStatus,
+  items: [productIndex: number, qty: number, note?: string][],
+  contact?: MockConsultationContact,
+]
+
+const consultationSeeds: ConsultationSeed[] = [
+  [0, "new", [[5, 4], [6, 1]], { name: "Martín", city: "Córdoba", delivery: "envio" }],
+  [1, "new", [[13, 1, "¿Viene con el sable?"]]],
+  [2, "answered", [[0, 6], [1, 1], [2, 1]], { name: "Lucía", delivery: "retiro" }],
+  [4, "sold", [[9, 1], [10, 1]], { name: "Diego", city: "Rosario", delivery: "envio" }],
+  [6, "sold", [[5, 3]], { city: "CABA", delivery: "retiro" }],
+  [9, "discarded", [[18, 1], [19, 1]]],
+  [12, "answered", [[25, 1], [26, 1], [27, 1]], { name: "Sofía", delivery: "a_coordinar" }],
+  [15, "sold", [[16, 1, "Lo necesito para el viernes"]], { name: "Pablo", city: "Mendoza" }],
+  [21, "sold", [[0, 2], [5, 2]]],
+  [28, "discarded", [[22, 1]], { name: "Ana" }],
+  [35, "sold", [[13, 1], [14, 1]], { city: "La Plata", delivery: "envio" }],
+  [48, "answered", [[1, 1]]],
+  [60, "sold", [[19, 2], [18, 1]], { name: "Joaquín", delivery: "retiro" }],
+]
+
+export function createSeedConsultations(now = Date.now()): MockConsultation[] {
+  return consultationSeeds.map(([daysAgo, status, seedItems, contact], i) => {
+    const items = seedItems.map(([index, qty, note]) => ({
+      productId: products[index].id,
+      name: products[index].name,
+      qty,
+      ...getLinePrice(products[index]),
+      ...(note ? { note } : {}),
+    }))
+
+    return {
+      id: `cons-seed-${i + 1}`,
+      // Repartidas durante el día para que no caigan todas a la misma hora
+      createdAt: new Date(now - daysAgo * DAY_MS - (i % 5) * 3 * 60 * 60 * 1000).toISOString(),
+      status,
+      items,
+      contact,
+      whatsappMessage: buildConsultationMessage(items, contact),
+    }
+  })
+}
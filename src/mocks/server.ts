@@ -0,0 +1,1052 @@
+import {
+  MOCK_ADMIN_EMAIL,
+  MOCK_ADMIN_PASSWORD,
+  MockCategory,
+  MockCollection,
+  MockConsultation,
+  MockConsultationContact,
+  MockConsultationItem,
+  MockConsultationStatus,
+  MockProduct,
+  createSeedConsultations,
+  categories as seedCategories,
+  collections as seedCollections,
+  products as seedProducts,
+} from "./fixtures"
+import { MAX_NOTE_LENGTH } from "@/lib/consultation"
+import { buildConsultationMessage } from "@/lib/whatsapp-message"
+import { DEFAULT_CURRENCY, getEffectivePriceIn, getLinePrice } from "@/lib/price"
+import { applyStockChange } from "@/lib/stock"
+import { normalizeText, slugify, SLUG_PATTERN } from "@/lib/taxonomy"
+
+/* =======================
+   Tipos internos
+======================= */
+interface MockDb {
+  version: typeof DB_VERSION
+  products: MockProduct[]
+  categories: MockCategory[]
+  collections: MockCollection[]
+  consultations: MockConsultation[]
+  tokens: string[]
+}
+
+type PriceFields = Pick<MockProduct, "listPrice" | "salePrice" | "currency" | "priceOnRequest">
+
+const NO_PRICE: PriceFields = {
+  listPrice: null,
+  salePrice: null,
+  currency: DEFAULT_CURRENCY,
+  priceOnRequest: false,
+}
+
+interface RouteContext {
+  db: MockDb
+  params: Record<string, string>
+  query: URLSearchParams
+  headers: Headers
+  body: unknown
+}
+
+interface Route {
+  method: string
+  pattern: RegExp
+  keys: string[]
+  auth?: boolean
+  handler: (ctx: RouteContext) => Response | Promise<Response>
+}
+
+/* =======================
+   Persistencia (localStorage)
+======================= */
+const DB_KEY = "mikeco_mock_db"
+
+/**
+ * v1: productos sin images, precios ni createdAt; consultas sin status
+ * v2: todos los campos presentes
+ */
+const DB_VERSION = 2
+
+type MockDbV1 = Omit<MockDb, "version" | "products" | "consultations"> & {
+  version: 1
+  products: (Omit<MockProduct, keyof PriceFields | "images" | "createdAt"> & Partial<MockProduct>)[]
+  consultations: (Omit<MockConsultation, "status"> & Partial<MockConsultation>)[]
+}
+
+// Se completan los campos que faltan en vez de resembrar: se conservan los cambios hechos desde el admin
+function migrateV1(db: MockDbV1): MockDb {
+  return {
+    ...db,
+    version: DB_VERSION,
+    products: db.products.map((p, i) => ({
+      ...NO_PRICE,
+      ...p,
+      images: p.images ?? (p.image ? [p.image] : []),
+      // Sin fecha de alta: más viejos que cualquier alta nueva, en el orden en que estaban
+      createdAt: p.createdAt ?? new Date(i * 1000).toISOString(),
+    })),
+    consultations: db.consultations.map((c) => ({ ...c, status: c.status ?? "new" })),
+  }
+}
+const LATENCY_MS = 250
+const DEFAULT_LIMIT = 20
+
+function seedDb(): MockDb {
+  return {
+    version: DB_VERSION,
+    products: seedProducts.map((p) => ({ ...p })),
+    categories: seedCategories.map((c) => ({ ...c })),
+    collections: seedCollections.map((c) => ({ ...c })),
+    consultations: createSeedConsultations(),
+    tokens: [],
+  }
+}
+
+let memoryDb: MockDb | null = null
+
+function loadDb(): MockDb {
+  if (memoryDb) return memoryDb
+
+  try {
+    const stored = localStorage.getItem(DB_KEY)
+    const parsed = stored ? (JSON.parse(stored) as MockDb | MockDbV1) : null
+
+    if (parsed?.version === 1) {
+      memoryDb = migrateV1(parsed)
+      saveDb(memoryDb)
+    } else {
+      memoryDb = parsed?.version === DB_VERSION ? parsed : seedDb()
+    }
+  } catch {
+    memoryDb = seedDb()
+  }
+
+  return memoryDb
+}
+
+function saveDb(db: MockDb) {
+  memoryDb = db
+  try {
+    localStorage.setItem(DB_KEY, JSON.stringify(db))
+  } catch (e) {
+    // Imágenes grandes en data URL pueden exceder la cuota: queda en memoria
+    console.warn("Mock API: no se pudo persistir la base local:", e)
+  }
+}
+
+/** Vuelve a los datos semilla (útil desde la consola del navegador) */
+export function resetMockDb() {
+  saveDb(seedDb())
+}
+
+/* =======================
+   Helpers
+======================= */
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+
+const noContent = () => new Response(null, { status: 204 })
+
+const fail = (status: number, error: string, extra: Record<string, unknown> = {}) =>
+  json(status, { error, ...extra })
+
+const newId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+const toPositiveInt = (value: string | null, fallback: number) => {
+  const n = Number(value)
+  return Number.isInteger(n) && n > 0 ? n : fallback
+}
+
+const MAX_PRODUCT_IMAGES = 12
+
+/** image se mantiene como portada para clientes que no conocen images */
+function setProductGallery(p: MockProduct, images: string[]) {
+  p.images = images
+  p.image = images[0] ?? null
+}
+
+function toProductDto(p: MockProduct, db: MockDb) {
+  const category = db.categories.find((c) => c.id === p.categoryId) ?? null
+  const collection = db.collections.find((c) => c.id === p.collectionId) ?? null
+  return {
+    id: p.id,
+    name: p.name,
+    image: p.images[0] ?? null,
+    images: p.images,
+    description: p.description,
+    inStock: p.inStock,
+    stockQty: p.stockQty,
+    category: category?.name ?? null,
+    categorySlug: category?.slug ?? null,
+    collection: collection?.name ?? null,
+    collectionSlug: collection?.slug ?? null,
+    listPrice: p.listPrice,
+    salePrice: p.salePrice,
+    currency: p.currency,
+    priceOnRequest: p.priceOnRequest,
+    createdAt: p.createdAt,
+  }
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const page = toPositiveInt(query.get("page"), 1)
+  const limit = toPositiveInt(query.get("limit"), DEFAULT_LIMIT)
+  const start = (page - 1) * limit
+
+  return {
+    items: items.slice(start, start + limit),
+    total: items.length,
+    page,
+    limit,
+  }
+}
+
+function countFacet(
+  products: MockProduct[],
+  items: { id: string; slug: string; name: string }[],
+  field: "categoryId" | "collectionId"
+) {
+  const counts = new Map<string, number>()
+  for (const p of products) {
+    const id = p[field]
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1)
+  }
+  return items.map((i) => ({ slug: i.slug, name: i.name, count: counts.get(i.id) ?? 0 }))
+}
+
+function toPrice(value: string | null) {
+  if (value === null || value.trim() === "") return null
+  const n = Number(value)
+  return Number.isFinite(n) && n >= 0 ? n : null
+}
+
+/**
+ * Desempata siempre por fecha y por id: con un orden total las páginas
+ * no repiten ni saltean productos.
+ * Sin precio publicado (o en otra moneda) siempre al final, en cualquier dirección.
+ */
+function compareProducts(sort: string | null, currency: string) {
+  const newest = (a: MockProduct, b: MockProduct) =>
+    b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id)
+  const byName = (a: MockProduct, b: MockProduct) =>
+    a.name.localeCompare(b.name, "es", { sensitivity: "base" }) || newest(a, b)
+
+  switch (sort) {
+    case "name-asc":
+      return byName
+    case "name-desc":
+      return (a: MockProduct, b: MockProduct) => byName(b, a)
+    case "in-stock":
+      return (a: MockProduct, b: MockProduct) => Number(b.inStock) - Number(a.inStock) || newest(a, b)
+    case "price-asc":
+    case "price-desc": {
+      const direction = sort === "price-asc" ? 1 : -1
+      return (a: MockProduct, b: MockProduct) => {
+        const pa = getEffectivePriceIn(a, currency)
+        const pb = getEffectivePriceIn(b, currency)
+        if (pa === null || pb === null) return pa === pb ? newest(a, b) : pa === null ? 1 : -1
+        return (pa - pb) * direction || newest(a, b)
+      }
+    }
+    default:
+      return newest
+  }
+}
+
+type Facet = "category" | "collection"
+
+/** Slugs repetidos (?category=a&category=b) se combinan con OR; inexistentes no matchean nada */
+function idsForSlugs(items: { id: string; slug: string }[], slugs: string[]) {
+  if (slugs.length === 0) return null
+  return new Set(slugs.map((slug) => items.find((i) => i.slug === slug)?.id ?? "__none__"))
+}
+
+/** ignore: la faceta que se está contando no se filtra a sí misma */
+function filterProducts(db: MockDb, query: URLSearchParams, ignore?: Facet) {
+  const search = normalizeText(query.get("search")?.trim() ?? "")
+  const inStock = query.get("inStock") === "true"
+  const featured = query.get("featured") === "true"
+  const minPrice = toPrice(query.get("minPrice"))
+  const maxPrice = toPrice(query.get("maxPrice"))
+  const sort = query.get("sort")
+  // Moneda del rango y del orden por precio; sin parámetro, la de la tienda
+  const currency = query.get("currency") || DEFAULT_CURRENCY
+
+  const categoryIds =
+    ignore === "category" ? null : idsForSlugs(db.categories, query.getAll("category"))
+  const collectionIds =
+    ignore === "collection" ? null : idsForSlugs(db.collections, query.getAll("collection"))
+
+  return db.products
+    .filter((p) => !categoryIds || (p.categoryId !== null && categoryIds.has(p.categoryId)))
+    .filter((p) => !collectionIds || (p.collectionId !== null && collectionIds.has(p.collectionId)))
+    .filter((p) => !inStock || p.inStock)
+    .filter((p) => !featured || p.featured)
+    .filter(
+      (p) =>
+        !search ||
+        normalizeText(p.name).includes(search) ||
+        normalizeText(p.description).includes(search)
+    )
+    // Con rango de precio quedan afuera los productos sin precio publicado o en otra moneda
+    .filter((p) => {
+      if (minPrice === null && maxPrice === null) return true
+      const price = getEffectivePriceIn(p, currency)
+      return (
+        price !== null &&
+        (minPrice === null || price >= minPrice) &&
+        (maxPrice === null || price <= maxPrice)
+      )
+    })
+    .sort(compareProducts(sort, currency))
+}
+
+const CONSULTATION_STATUSES: MockConsultationStatus[] = ["new", "answered", "sold", "discarded"]
+
+function optionalString(value: unknown, max: number) {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, max) : undefined
+}
+
+function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+/* =======================
+   Validación de payload admin
+======================= */
+interface ProductPayloadInput {
+  name?: unknown
+  description?: unknown
+  categoryId?: unknown
+  collectionId?: unknown
+  inStock?: unknown
+  stockQty?: unknown
+  listPrice?: unknown
+  salePrice?: unknown
+  currency?: unknown
+  priceOnRequest?: unknown
+}
+
+/** Solo los campos presentes en el body: en un PUT los omitidos se conservan */
+function readPriceFields(body: ProductPayloadInput, current: PriceFields, errors: Record<string, string>) {
+  const patch: Partial<PriceFields> = {}
+
+  for (const key of ["listPrice", "salePrice"] as const) {
+    const raw = body[key]
+    if (raw === undefined) continue
+    const amount = raw === null || raw === "" ? null : Number(raw)
+    if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+      errors[key] = "El precio debe ser un número mayor o igual a 0"
+    } else {
+      patch[key] = amount
+    }
+  }
+
+  if (body.currency !== undefined) {
+    const currency = typeof body.currency === "string" ? body.currency.trim().toUpperCase() : ""
+    if (/^[A-Z]{3}$/.test(currency)) patch.currency = currency
+    else errors.currency = "Moneda inválida (código ISO de 3 letras)"
+  }
+
+  if (body.priceOnRequest !== undefined) patch.priceOnRequest = body.priceOnRequest === true
+
+  const merged: PriceFields = {
+    listPrice: current.listPrice,
+    salePrice: current.salePrice,
+    currency: current.currency,
+    priceOnRequest: current.priceOnRequest,
+    ...patch,
+  }
+  if (merged.salePrice != null) {
+    if (merged.listPrice == null) errors.salePrice = "La oferta requiere un precio de lista"
+    else if (merged.salePrice >= merged.listPrice) {
+      errors.salePrice = "La oferta debe ser menor al precio de lista"
+    }
+  }
+
+  return merged
+}
+
+/** current: en un PUT, stock y precios omitidos se conservan */
+function validateProductPayload(body: ProductPayloadInput, db: MockDb, current?: MockProduct) {
+  const errors: Record<string, string> = {}
+
+  const name = typeof body.name === "string" ? body.name.trim() : ""
+  if (!name) errors.name = "El nombre es requerido"
+
+  const categoryId = typeof body.categoryId === "string" && body.categoryId ? body.categoryId : null
+  if (categoryId && !db.categories.some((c) => c.id === categoryId)) {
+    errors.categoryId = "La categoría no existe"
+  }
+
+  const collectionId =
+    typeof body.collectionId === "string" && body.collectionId ? body.collectionId : null
+  if (collectionId && !db.collections.some((c) => c.id === collectionId)) {
+    errors.collectionId = "La colección no existe"
+  }
+
+  const stockQty = body.stockQty === undefined ? current?.stockQty ?? 0 : Number(body.stockQty)
+  if (!Number.isInteger(stockQty) || stockQty < 0) {
+    errors.stockQty = "El stock debe ser un entero mayor o igual a 0"
+  }
+
+  const prices = readPriceFields(body, current ?? NO_PRICE, errors)
+
+  return {
+    errors,
+    value: {
+      name,
+      description: typeof body.description === "string" ? body.description : "",
+      categoryId,
+      collectionId,
+      // Con 0 unidades nunca queda disponible, lo pida o no el body
+      inStock:
+        typeof body.inStock === "boolean"
+          ? applyStockChange({ stockQty, inStock: body.inStock }, {}).inStock
+          : applyStockChange(
+              { stockQty: current?.stockQty ?? 0, inStock: current?.inStock ?? false },
+              { stockQty }
+            ).inStock,
+      stockQty,
+      ...prices,
+    },
+  }
+}
+
+interface TaxonomyPayloadInput {
+  name?: unknown
+  slug?: unknown
+  description?: unknown
+  imageUrl?: unknown
+}
+
+/** Nombre + slug únicos; sin slug se genera desde el nombre */
+function validateTaxonomyPayload(
+  body: TaxonomyPayloadInput,
+  siblings: { id: string; slug: string }[],
+  currentId?: string
+) {
+  const errors: Record<string, string> = {}
+
+  const name = typeof body.name === "string" ? body.name.trim() : ""
+  if (name.length < 2 || name.length > 60) errors.name = "El nombre debe tener entre 2 y 60 caracteres"
+
+  const rawSlug = typeof body.slug === "string" && body.slug.trim() ? body.slug.trim() : name
+  const slug = slugify(rawSlug)
+  if (!SLUG_PATTERN.test(slug)) errors.slug = "El slug solo admite letras, números y guiones"
+  else if (siblings.some((s) => s.slug === slug && s.id !== currentId)) {
+    errors.slug = "El slug ya está en uso"
+  }
+
+  return { errors, value: { name, slug } }
+}
+
+/** PUT .../order: los ids deben ser exactamente los existentes, en otro orden */
+function reorderById<T extends { id: string }>(items: T[], body: unknown): T[] | null {
+  const ids = (body as { ids?: unknown })?.ids
+  if (!Array.isArray(ids) || ids.length !== items.length) return null
+
+  const byId = new Map(items.map((item) => [item.id, item]))
+  const reordered = ids.map((id) => byId.get(String(id)))
+  if (reordered.some((item) => !item) || new Set(ids).size !== ids.length) return null
+
+  return reordered as T[]
+}
+
+/**
+ * DELETE con productos asignados: 409 salvo que se indique ?reassignTo=<id|none>.
+ * Devuelve la respuesta de error o null si se puede borrar.
+ */
+function reassignProducts(
+  db: MockDb,
+  field: "categoryId" | "collectionId",
+  id: string,
+  query: URLSearchParams,
+  validTargets: { id: string }[]
+): Response | null {
+  const assigned = db.products.filter((p) => p[field] === id)
+  if (assigned.length === 0) return null
+
+  const reassignTo = query.get("reassignTo")
+  if (reassignTo === null) {
+    return fail(409, `Tiene ${assigned.length} productos asignados`, { productsCount: assigned.length })
+  }
+
+  const target = reassignTo === "none" ? null : reassignTo
+  if (target !== null && (target === id || !validTargets.some((t) => t.id === target))) {
+    return fail(422, "Destino inválido", { errors: { reassignTo: "Elegí otro destino" } })
+  }
+
+  for (const p of assigned) p[field] = target
+  return null
+}
+
+function toCollectionDto(c: MockCollection, db: MockDb) {
+  return { ...c, productsCount: db.products.filter((p) => p.collectionId === c.id).length }
+}
+
+/* =======================
+   Rutas
+======================= */
+function route(method: string, path: string, handler: Route["handler"], auth = false): Route {
+  const keys: string[] = []
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key)
+    return "([^/]+)"
+  })
+  return { method, pattern: new RegExp(`^${source}$`), keys, handler, auth }
+}
+
+const routes: Route[] = [
+  /* ---------- Público ---------- */
+  route("GET", "/v1/products", ({ db, query }) => {
+    const page = paginate(filterProducts(db, query), query)
+    return json(200, { ...page, items: page.items.map((p) => toProductDto(p, db)) })
+  }),
+
+  // Antes de /:id, que si no la tomaría como un id
+  route("GET", "/v1/products/facets", ({ db, query }) =>
+    json(200, {
+      collections: countFacet(filterProducts(db, query, "collection"), db.collections, "collectionId"),
+      categories: countFacet(filterProducts(db, query, "category"), db.categories, "categoryId"),
+      total: filterProducts(db, query).length,
+    })
+  ),
+
+  route("GET", "/v1/products/:id", ({ db, params }) => {
+    const product = db.products.find((p) => p.id === params.id)
+    if (!product) return fail(404, "Producto no encontrado")
+    return json(200, { item: toProductDto(product, db) })
+  }),
+
+  route("GET", "/v1/collections", ({ db }) =>
+    json(
+      200,
+      db.collections.map((c) => toCollectionDto(c, db))
+    )
+  ),
+
+  route("GET", "/v1/categories", ({ db, query }) => {
+    const slug = query.get("collection")
+    if (!slug) return json(200, db.categories)
+
+    const collection = db.collections.find((c) => c.slug === slug)
+    if (!collection) return json(200, [])
+
+    const used = new Set(
+      db.products.filter((p) => p.collectionId === collection.id).map((p) => p.categoryId)
+    )
+    return json(200, db.categories.filter((c) => used.has(c.id)))
+  }),
+
+  route("POST", "/v1/consultations", ({ db, body }) => {
+    const rawItems = (body as { items?: unknown })?.items
+    if (!Array.isArray(rawItems) || rawItems.length === 0) {
+      return fail(422, "No hay productos para consultar", { errors: { items: "Requerido" } })
+    }
+
+    const items: MockConsultationItem[] = []
+    const errors: Record<string, string> = {}
+
+    rawItems.forEach((raw, i) => {
+      const { productId, qty, note } = (raw ?? {}) as {
+        productId?: unknown
+        qty?: unknown
+        note?: unknown
+      }
+      const product = db.products.find((p) => p.id === productId)
+      const amount = Number(qty)
+
+      if (!product) {
+        errors[`items.${i}.productId`] = "Producto inexistente"
+      } else if (!Number.isInteger(amount) || amount < 1) {
+        errors[`items.${i}.qty`] = "Cantidad inválida"
+      } else {
+        items.push({
+          productId: product.id,
+          name: product.name,
+          qty: amount,
+          ...getLinePrice(product),
+          note: optionalString(note, MAX_NOTE_LENGTH),
+        })
+      }
+    })
+
+    if (Object.keys(errors).length) {
+      return fail(422, "La consulta tiene productos inválidos", { errors })
+    }
+
+    const rawContact = ((body as { contact?: unknown })?.contact ?? {}) as Record<string, unknown>
+    const contact: MockConsultationContact = {
+      name: optionalString(rawContact.name, 60),
+      city: optionalString(rawContact.city, 60),
+      delivery: optionalString(rawContact.delivery, 30),
+    }
+    const hasContact = Object.values(contact).some(Boolean)
+
+    // Las consultas reenviadas desde la cola traen su fecha original; nunca una futura
+    const rawCreatedAt = (body as { createdAt?: unknown })?.createdAt
+    const sentAt = typeof rawCreatedAt === "string" ? new Date(rawCreatedAt).getTime() : NaN
+    const createdAt = new Date(
+      Number.isFinite(sentAt) ? Math.min(sentAt, Date.now()) : Date.now()
+    ).toISOString()
+
+    const consultation: MockConsultation = {
+      id: newId("cons"),
+      createdAt,
+      status: "new",
+      items,
+      contact: hasContact ? contact : undefined,
+      whatsappMessage: buildConsultationMessage(items, hasContact ? contact : undefined),
+    }
+
+    db.consultations.unshift(consultation)
+    saveDb(db)
+
+    return json(201, { id: consultation.id, whatsappMessage: consultation.whatsappMessage })
+  }),
+
+  route("POST", "/v1/auth/login", ({ db, body }) => {
+    const { email, password } = (body ?? {}) as { email?: string; password?: string }
+
+    if (email?.trim().toLowerCase() !== MOCK_ADMIN_EMAIL || password !== MOCK_ADMIN_PASSWORD) {
+      return fail(401, "Credenciales inválidas")
+    }
+
+    const token = newId("mock-token")
+    db.tokens.push(token)
+    saveDb(db)
+    return json(200, { token })
+  }),
+
+  /* ---------- Admin ---------- */
+  route(
+    "GET",
+    "/v1/admin/products",
+    ({ db, query }) => {
+      const page = paginate(filterProducts(db, query), query)
+      return json(200, { ...page, items: page.items.map((p) => toProductDto(p, db)) })
+    },
+    true
+  ),
+
+  route(
+    "POST",
+    "/v1/admin/products",
+    ({ db, body }) => {
+      const { errors, value } = validateProductPayload((body ?? {}) as ProductPayloadInput, db)
+      if (Object.keys(errors).length) return fail(422, "Datos inválidos", { errors })
+
+      const product: MockProduct = {
+        id: newId(slugify(value.name) || "prod"),
+        image: null,
+        images: [],
+        featured: false,
+        createdAt: new Date().toISOString(),
+        ...value,
+      }
+
+      db.products.push(product)
+      saveDb(db)
+      return json(201, toProductDto(product, db))
+    },
+    true
+  ),
+
+  route(
+    "PUT",
+    "/v1/admin/products/:id",
+    ({ db, params, body }) => {
+      const product = db.products.find((p) => p.id === params.id)
+      if (!product) return fail(404, "Producto no encontrado")
+
+      const { errors, value } = validateProductPayload(
+        (body ?? {}) as ProductPayloadInput,
+        db,
+        product
+      )
+      if (Object.keys(errors).length) return fail(422, "Datos inválidos", { errors })
+
+      Object.assign(product, value)
+      saveDb(db)
+      return json(200, toProductDto(product, db))
+    },
+    true
+  ),
+
+  route(
+    "DELETE",
+    "/v1/admin/products/:id",
+    ({ db, params }) => {
+      const index = db.products.findIndex((p) => p.id === params.id)
+      if (index === -1) return fail(404, "Producto no encontrado")
+
+      db.products.splice(index, 1)
+      saveDb(db)
+      return noContent()
+    },
+    true
+  ),
+
+  route(
+    "POST",
+    "/v1/admin/products/:id/image",
+    async ({ db, params, body }) => {
+      const product = db.products.find((p) => p.id === params.id)
+      if (!product) return fail(404, "Producto no encontrado")
+
+      const file = body instanceof FormData ? body.get("image") : null
+      if (!(file instanceof Blob) || !file.type.startsWith("image/")) {
+        return fail(422, "Imagen inválida", { errors: { image: "Subí un archivo de imagen" } })
+      }
+
+      // Endpoint de una sola imagen: reemplaza la portada
+      const [, ...rest] = product.images
+      setProductGallery(product, [await readFileAsDataUrl(file), ...rest])
+      saveDb(db)
+      return json(200, toProductDto(product, db))
+    },
+    true
+  ),
+
+  route(
+    "POST",
+    "/v1/admin/products/:id/images",
+    async ({ db, params, body }) => {
+      const product = db.products.find((p) => p.id === params.id)
+      if (!product) return fail(404, "Producto no encontrado")
+
+      const files = body instanceof FormData ? body.getAll("images") : []
+      if (files.length === 0 || files.some((f) => !(f instanceof Blob) || !f.type.startsWith("image/"))) {
+        return fail(422, "Imagen inválida", { errors: { images: "Subí solo archivos de imagen" } })
+      }
+
+      const current = product.images
+      if (current.length + files.length > MAX_PRODUCT_IMAGES) {
+        return fail(422, "Demasiadas imágenes", {
+          errors: { images: `Máximo ${MAX_PRODUCT_IMAGES} imágenes por producto` },
+        })
+      }
+
+      const added = await Promise.all(files.map((f) => readFileAsDataUrl(f as Blob)))
+      setProductGallery(product, [...current, ...added])
+      saveDb(db)
+      return json(200, { images: product.images })
+    },
+    true
+  ),
+
+  route(
+    "PUT",
+    "/v1/admin/products/:id/images",
+    ({ db, params, body }) => {
+      const product = db.products.find((p) => p.id === params.id)
+      if (!product) return fail(404, "Producto no encontrado")
+
+      // Solo reordena o quita: no se pueden colar URLs que el producto no tenga
+      const images = (body as { images?: unknown })?.images
+      const current = product.images
+      if (
+        !Array.isArray(images) ||
+        images.some((url) => typeof url !== "string" || !current.includes(url)) ||
+        new Set(images).size !== images.length
+      ) {
+        return fail(422, "Galería inválida", { errors: { images: "Imágenes desconocidas o repetidas" } })
+      }
+
+      setProductGallery(product, images as string[])
+      saveDb(db)
+      return json(200, { images: product.images })
+    },
+    true
+  ),
+
+  // Las rutas /order van antes que /:id para no confundirse con un id
+  route(
+    "PUT",
+    "/v1/admin/categories/order",
+    ({ db, body }) => {
+      const reordered = reorderById(db.categories, body)
+      if (!reordered) return fail(422, "Orden inválido")
+
+      db.categories = reordered
+      saveDb(db)
+      return noContent()
+    },
+    true
+  ),
+
+  route(
+    "POST",
+    "/v1/admin/categories",
+    ({ db, body }) => {
+      const { errors, value } = validateTaxonomyPayload((body ?? {}) as TaxonomyPayloadInput, db.categories)
+      if (Object.keys(errors).length) return fail(422, "Datos inválidos", { errors })
+
+      const category: MockCategory = { id: newId("cat"), ...value }
+      db.categories.push(category)
+      saveDb(db)
+      return json(201, category)
+    },
+    true
+  ),
+
+  route(
+    "PUT",
+    "/v1/admin/categories/:id",
+    ({ db, params, body }) => {
+      const category = db.categories.find((c) => c.id === params.id)
+      if (!category) return fail(404, "Categoría no encontrada")
+
+      const { errors, value } = validateTaxonomyPayload(
+        (body ?? {}) as TaxonomyPayloadInput,
+        db.categories,
+        category.id
+      )
+      if (Object.keys(errors).length) return fail(422, "Datos inválidos", { errors })
+
+      Object.assign(category, value)
+      saveDb(db)
+      return json(200, category)
+    },
+    true
+  ),
+
+  route(
+    "DELETE",
+    "/v1/admin/categories/:id",
+    ({ db, params, query }) => {
+      const index = db.categories.findIndex((c) => c.id === params.id)
+      if (index === -1) return fail(404, "Categoría no encontrada")
+
+      const blocked = reassignProducts(db, "categoryId", params.id, query, db.categories)
+      if (blocked) return blocked
+
+      db.categories.splice(index, 1)
+      saveDb(db)
+      return noContent()
+    },
+    true
+  ),
+
+  route(
+    "PUT",
+    "/v1/admin/collections/order",
+    ({ db, body }) => {
+      const reordered = reorderById(db.collections, body)
+      if (!reordered) return fail(422, "Orden inválido")
+
+      db.collections = reordered
+      saveDb(db)
+      return noContent()
+    },
+    true
+  ),
+
+  route(
+    "POST",
+    "/v1/admin/collections",
+    ({ db, body }) => {
+      const input = (body ?? {}) as TaxonomyPayloadInput
+      const { errors, value } = validateTaxonomyPayload(input, db.collections)
+      if (Object.keys(errors).length) return fail(422, "Datos inválidos", { errors })
+
+      const collection: MockCollection = {
+        id: newId("col"),
+        ...value,
+        description: optionalString(input.description, 500) ?? null,
+        imageUrl: typeof input.imageUrl === "string" ? input.imageUrl : null,
+      }
+      db.collections.push(collection)
+      saveDb(db)
+      return json(201, toCollectionDto(collection, db))
+    },
+    true
+  ),
+
+  route(
+    "PUT",
+    "/v1/admin/collections/:id",
+    ({ db, params, body }) => {
+      const collection = db.collections.find((c) => c.id === params.id)
+      if (!collection) return fail(404, "Colección no encontrada")
+
+      const input = (body ?? {}) as TaxonomyPayloadInput
+      const { errors, value } = validateTaxonomyPayload(input, db.collections, collection.id)
+      if (Object.keys(errors).length) return fail(422, "Datos inválidos", { errors })
+
+      Object.assign(collection, value, {
+        description: optionalString(input.description, 500) ?? null,
+      })
+      // undefined conserva la imagen; null la quita
+      if (input.imageUrl === null) collection.imageUrl = null
+      else if (typeof input.imageUrl === "string") collection.imageUrl = input.imageUrl
+      saveDb(db)
+      return json(200, toCollectionDto(collection, db))
+    },
+    true
+  ),
+
+  route(
+    "DELETE",
+    "/v1/admin/collections/:id",
+    ({ db, params, query }) => {
+      const index = db.collections.findIndex((c) => c.id === params.id)
+      if (index === -1) return fail(404, "Colección no encontrada")
+
+      const blocked = reassignProducts(db, "collectionId", params.id, query, db.collections)
+      if (blocked) return blocked
+
+      db.collections.splice(index, 1)
+      saveDb(db)
+      return noContent()
+    },
+    true
+  ),
+
+  route(
+    "POST",
+    "/v1/admin/collections/:id/image",
+    async ({ db, params, body }) => {
+      const collection = db.collections.find((c) => c.id === params.id)
+      if (!collection) return fail(404, "Colección no encontrada")
+
+      const file = body instanceof FormData ? body.get("image") : null
+      if (!(file instanceof Blob) || !file.type.startsWith("image/")) {
+        return fail(422, "Imagen inválida", { errors: { image: "Subí un archivo de imagen" } })
+      }
+
+      collection.imageUrl = await readFileAsDataUrl(file)
+      saveDb(db)
+      return json(200, toCollectionDto(collection, db))
+    },
+    true
+  ),
+
+  route(
+    "GET",
+    "/v1/admin/consultations",
+    ({ db, query }) => {
+      const status = query.get("status")
+      const search = normalizeText(query.get("search") ?? "")
+
+      const items = db.consultations
+        .filter((c) => !status || c.status === status)
+        .filter(
+          (c) =>
+            !search ||
+            normalizeText(
+              [c.contact?.name, c.contact?.city, ...c.items.map((i) => `${i.name} ${i.note ?? ""}`)].join(" ")
+            ).includes(search)
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+      return json(200, paginate(items, query))
+    },
+    true
+  ),
+
+  route(
+    "PATCH",
+    "/v1/admin/consultations/:id",
+    ({ db, params, body }) => {
+      const consultation = db.consultations.find((c) => c.id === params.id)
+      if (!consultation) return fail(404, "Consulta no encontrada")
+
+      const status = (body as { status?: unknown })?.status
+      if (!CONSULTATION_STATUSES.includes(status as MockConsultationStatus)) {
+        return fail(422, "Estado inválido", { errors: { status: "Estado inválido" } })
+      }
+
+      consultation.status = status as MockConsultationStatus
+      saveDb(db)
+      return json(200, consultation)
+    },
+    true
+  ),
+]
+
+/* =======================
+   Entry point
+======================= */
+function abortError() {
+  return new DOMException("The operation was aborted.", "AbortError")
+}
+
+function wait(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        reject(abortError())
+      },
+      { once: true }
+    )
+  })
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (body instanceof FormData) return body
+  if (typeof body !== "string" || !body) return undefined
+
+  try {
+    return JSON.parse(body)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Reemplazo de `fetch` para el modo mock: resuelve las rutas /v1
+ * contra la base local y devuelve un `Response` real, así `apiFetch`
+ * maneja errores y parseo exactamente igual que con el backend.
+ */
+export async function mockFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  await wait(LATENCY_MS, init.signal)
+
+  const url = new URL(path, "http://mock.local")
+  const method = (init.method ?? "GET").toUpperCase()
+  const headers = new Headers(init.headers)
+  const db = loadDb()
+
+  for (const r of routes) {
+    if (r.method !== method) continue
+
+    const match = url.pathname.replace(/\/$/, "").match(r.pattern)
+    if (!match) continue
+
+    if (r.auth) {
+      const token = headers.get("Authorization")?.replace(/^Bearer\s+/i, "")
+      if (!token || !db.tokens.includes(token)) {
+        return fail(401, "No autorizado")
+      }
+    }
+
+    const params = Object.fromEntries(
+      r.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])])
+    )
+
+    return r.handler({
+      db,
+      params,
+      query: url.searchParams,
+      headers,
+      body: parseBody(init.body),
+    })
+  }
+
+  return fail(404, `Ruta no encontrada: ${method} ${url.pathname}`)
+}
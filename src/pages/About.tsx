@@ -8,7 +8,7 @@ import {
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import Navbar from "@/components/Navbar";
-import { apiFetch } from "@/config/api";
+import { useProductsQuery } from "@/hooks/use-catalog-queries";
 import {
   Sparkles,
   Package,
@@ -28,29 +28,6 @@ import {
 /* ================================
    TYPES & INTERFACES
 ================================= */
-interface CategoryRef {
-  id: string;
-  name: string;
-  slug: string;
-}
-
-interface ProductLite {
-  id: string;
-  category?: CategoryRef | null;
-}
-
-interface ProductsApiResponse {
-  items: ProductLite[];
-  total: number;
-  page?: number;
-  limit?: number;
-}
-
-interface ApiError extends Error {
-  status?: number;
-  code?: string;
-}
-
 interface FeatureItem {
   icon: React.ComponentType<{ className?: string }>;
   title: string;
@@ -153,10 +130,6 @@ const useDeviceDetection = () => {
 /* ================================
    HELPERS & UTILITIES
 ================================= */
-const isApiError = (error: unknown): error is ApiError => {
-  return error instanceof Error;
-};
-
 const getSafeAreaStyle = (): React.CSSProperties => {
   return {
     paddingTop: "env(safe-area-inset-top)",
@@ -206,54 +179,14 @@ const useCounter = (end: number, duration = COUNTER_DURATION, reduceMotion = fal
 };
 
 const useProducts = () => {
-  const [products, setProducts] = useState<ProductLite[]>([]);
-  const [totalProducts, setTotalProducts] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  const fetchProducts = useCallback(async () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
+  const { data, isLoading, error } = useProductsQuery({ limit: PRODUCTS_LIMIT });
 
-    abortControllerRef.current = new AbortController();
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await apiFetch<ProductsApiResponse>(
-        `/v1/products?limit=${PRODUCTS_LIMIT}`,
-        {
-          signal: abortControllerRef.current.signal,
-        }
-      );
-
-      setProducts(response.items || []);
-      setTotalProducts(response.total || 0);
-    } catch (err: unknown) {
-      if (isApiError(err) && err.name === "AbortError") {
-        return;
-      }
-      setError("Error al cargar productos");
-      setProducts([]);
-      setTotalProducts(0);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchProducts();
-
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-    };
-  }, [fetchProducts]);
-
-  return { products, totalProducts, isLoading, error };
+  return {
+    products: data?.items ?? [],
+    totalProducts: data?.total ?? 0,
+    isLoading,
+    error: error ? "Error al cargar productos" : null,
+  };
 };
 
 const useViewportHeight = () => {
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import { Navigate } from "react-router-dom"
 import { motion } from "framer-motion"
 import { useAuth } from "@/context/AuthContext"
@@ -6,9 +6,19 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
-import { ImageDropzone } from "@/components/ImageDropzone"
-import { apiFetch } from "@/config/api"
+import { getErrorMessage, isApiError } from "@/config/api"
 import { Product } from "@/types/product"
+import { Category } from "@/types/categories"
+import { Collection } from "@/types/collections"
+import { ProductPayload } from "@/types/api"
+import { useCategoriesQuery, useCollectionsQuery } from "@/hooks/use-catalog-queries"
+import {
+  useAdminConsultationsQuery,
+  useAdminProductsQuery,
+  useDeleteProductMutation,
+  useSaveProductMutation,
+  useUpdateStockMutation,
+} from "@/hooks/use-admin-queries"
 
 import {
   Plus,
@@ -35,6 +45,12 @@ import {
   Percent,
   Zap,
   Star,
+  Inbox,
+  FileSpreadsheet,
+  Download,
+  FileJson,
+  Printer,
+  Boxes,
 } from "lucide-react"
 
 import {
@@ -79,54 +95,71 @@ import { Switch } from "@/components/ui/switch"
 import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
 import { Progress } from "@/components/ui/progress"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import ConsultationsInbox from "@/components/admin/ConsultationsInbox"
+import AnalyticsDashboard from "@/components/admin/AnalyticsDashboard"
+import { ProductImportDialog } from "@/components/admin/ProductImportDialog"
+import { BulkActionsBar } from "@/components/admin/BulkActionsBar"
+import { StockCell } from "@/components/admin/StockCell"
+import { ProductImagesField } from "@/components/admin/ProductImagesField"
+import { draftsFromProduct, ProductImageDraft, revokeDrafts } from "@/lib/product-images"
+import { ProductPriceFields } from "@/components/admin/ProductPriceFields"
+import {
+  formatPrice,
+  getPriceInfo,
+  priceDraftFromProduct,
+  parsePriceDraft,
+  PriceDraft,
+} from "@/lib/price"
+import { TaxonomyManager } from "@/components/admin/TaxonomyManager"
+import { productToPayload } from "@/lib/product-bulk"
+import {
+  applyStockChange,
+  isLowStock,
+  MAX_LOW_STOCK_THRESHOLD,
+  readLowStockThreshold,
+  saveLowStockThreshold,
+  StockChange,
+} from "@/lib/stock"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { datedFileName, downloadFile } from "@/lib/download"
+import {
+  buildPrintableCatalog,
+  buildProductsCsv,
+  buildProductsJson,
+  openPrintableCatalog,
+} from "@/lib/product-export"
 
 /* ======================= TYPES ======================= */
 
-interface Category {
-  id: string
-  name: string
-  slug: string
-}
-
-interface Collection {
-  id: string
-  name: string
-  slug: string
-}
-
-interface ProductApiDTO {
-  id: string
-  name: string
-  image: string | null
-  description: string
-  inStock: boolean
-  stockQty: number | null
-  category: string | null
-  categorySlug: string | null
-  collection: string | null
-  collectionSlug: string | null
-}
-
-interface AdminProduct extends Product {
-  categorySlug: string | null
-  collectionSlug: string | null
-}
+type AdminProduct = Product
 
 interface ProductFormState {
   name: string
   categoryId: string
   collectionId: string
   description: string
-  imageFile: File | null
-  imagePreview: string
+  images: ProductImageDraft[]
   inStock: boolean
   stockQty: number
+  price: PriceDraft
 }
 
+type StockFilter = "all" | "low" | "out"
+
 interface StatsData {
   total: number
   inStock: number
   outOfStock: number
+  lowStock: number
   withImages: number
   withDescriptions: number
   categorized: number
@@ -134,50 +167,28 @@ interface StatsData {
 
 /* ======================= HELPERS ======================= */
 
-function mapAdminProducts(items: ProductApiDTO[]): AdminProduct[] {
-  return items.map((p) => ({
-    id: p.id,
-    name: p.name,
-    image: p.image ?? "",
-    description: p.description,
-    inStock: p.inStock,
-    stockQty: p.stockQty ?? 0,
-    category: p.category,
-    categorySlug: p.categorySlug,
-    collection: p.collection,
-    collectionSlug: p.collectionSlug,
-  }))
-}
-
-async function fetchAllAdminProducts(): Promise<ProductApiDTO[]> {
-  const all: ProductApiDTO[] = []
-  let page = 1
-  const limit = 50
-
-  while (true) {
-    const res = await apiFetch<{ items: ProductApiDTO[] }>(
-      `/v1/admin/products?page=${page}&limit=${limit}`,
-      { auth: true }
-    )
-    all.push(...res.items)
-    if (res.items.length < limit) break
-    page++
-  }
-
-  return all
-}
-
-function calculateStats(products: AdminProduct[]): StatsData {
+function calculateStats(products: AdminProduct[], lowStockThreshold: number): StatsData {
   return {
     total: products.length,
     inStock: products.filter((p) => p.inStock).length,
     outOfStock: products.filter((p) => !p.inStock).length,
+    lowStock: products.filter((p) => isLowStock(p, lowStockThreshold)).length,
     withImages: products.filter((p) => p.image).length,
     withDescriptions: products.filter((p) => p.description?.trim()).length,
     categorized: products.filter((p) => p.category).length,
   }
 }
 
+function describePrice(p: AdminProduct): string {
+  const info = getPriceInfo(p)
+  if (info.kind === "onRequest") return "A consultar (oculto en la tienda)"
+  if (info.kind === "none") return "Sin precio"
+  const price = formatPrice(info.amount, info.currency)
+  return info.original === undefined
+    ? price
+    : `${price} (oferta, lista ${formatPrice(info.original, info.currency)})`
+}
+
 /* ======================= STAT CARD COMPONENT ======================= */
 
 interface StatCardProps {
@@ -257,6 +268,10 @@ interface FilterBarProps {
   onCategoryChange: (value: string) => void
   collectionFilter: string
   onCollectionChange: (value: string) => void
+  stockFilter: StockFilter
+  onStockFilterChange: (value: StockFilter) => void
+  lowStockThreshold: number
+  onLowStockThresholdChange: (value: number) => void
   categories: Category[]
   collections: Collection[]
   onClearFilters: () => void
@@ -270,6 +285,10 @@ const FilterBar = ({
   onCategoryChange,
   collectionFilter,
   onCollectionChange,
+  stockFilter,
+  onStockFilterChange,
+  lowStockThreshold,
+  onLowStockThresholdChange,
   categories,
   collections,
   onClearFilters,
@@ -277,27 +296,49 @@ const FilterBar = ({
 }: FilterBarProps) => {
   return (
     <Card className="p-6 border-2">
-      <div className="flex items-center justify-between mb-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
         <div className="flex items-center gap-3">
           <div className="p-2 rounded-xl bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30">
             <Filter className="w-5 h-5 text-purple-600 dark:text-purple-400" />
           </div>
           <h3 className="text-lg font-bold">Filtros</h3>
         </div>
-        {hasActiveFilters && (
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onClearFilters}
-            className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
-          >
-            <X className="w-4 h-4" />
-            Limpiar
-          </Button>
-        )}
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="low-stock-threshold" className="text-sm text-muted-foreground whitespace-nowrap">
+              Stock bajo hasta
+            </Label>
+            <Input
+              id="low-stock-threshold"
+              type="number"
+              min={1}
+              max={MAX_LOW_STOCK_THRESHOLD}
+              value={lowStockThreshold}
+              onChange={(e) => {
+                const value = Number(e.target.value)
+                if (Number.isInteger(value) && value >= 1 && value <= MAX_LOW_STOCK_THRESHOLD) {
+                  onLowStockThresholdChange(value)
+                }
+              }}
+              className="h-8 w-20"
+            />
+            <span className="text-sm text-muted-foreground">u.</span>
+          </div>
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClearFilters}
+              className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <X className="w-4 h-4" />
+              Limpiar
+            </Button>
+          )}
+        </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
@@ -344,6 +385,21 @@ const FilterBar = ({
             ))}
           </SelectContent>
         </Select>
+
+        {/* Stock Filter */}
+        <Select value={stockFilter} onValueChange={(v) => onStockFilterChange(v as StockFilter)}>
+          <SelectTrigger>
+            <div className="flex items-center gap-2">
+              <Boxes className="w-4 h-4" />
+              <SelectValue />
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todo el stock</SelectItem>
+            <SelectItem value="low">Stock bajo (≤ {lowStockThreshold})</SelectItem>
+            <SelectItem value="out">Sin stock</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
     </Card>
   )
@@ -353,20 +409,45 @@ const FilterBar = ({
 
 interface ProductRowProps {
   product: AdminProduct
+  isSelected: boolean
+  isLowStock: boolean
+  onSelectedChange: (product: AdminProduct, selected: boolean) => void
+  onStockChange: (product: AdminProduct, change: StockChange) => void
   onEdit: (product: AdminProduct) => void
   onDelete: (product: AdminProduct) => void
   onView: (product: AdminProduct) => void
 }
 
-const ProductRow = ({ product, onEdit, onDelete, onView }: ProductRowProps) => {
+const ProductRow = ({
+  product,
+  isSelected,
+  isLowStock,
+  onSelectedChange,
+  onStockChange,
+  onEdit,
+  onDelete,
+  onView,
+}: ProductRowProps) => {
   const [isExpanded, setIsExpanded] = useState(false)
 
   return (
     <>
-      <TableRow className="group hover:bg-muted/50 transition-colors">
+      <TableRow
+        data-state={isSelected ? "selected" : undefined}
+        className={`group hover:bg-muted/50 transition-colors ${isLowStock ? "bg-amber-500/5" : ""}`}
+      >
+        {/* Select */}
+        <TableCell className="w-10 pr-0">
+          <Checkbox
+            checked={isSelected}
+            onCheckedChange={(checked) => onSelectedChange(product, checked === true)}
+            aria-label={`Seleccionar ${product.name}`}
+          />
+        </TableCell>
+
         {/* Image */}
         <TableCell className="w-16">
-          <div className="w-14 h-14 rounded-xl overflow-hidden bg-gradient-to-br from-muted to-muted/50 flex items-center justify-center border-2">
+          <div className="relative w-14 h-14 rounded-xl overflow-hidden bg-gradient-to-br from-muted to-muted/50 flex items-center justify-center border-2">
             {product.image ? (
               <img
                 src={product.image}
@@ -376,6 +457,11 @@ const ProductRow = ({ product, onEdit, onDelete, onView }: ProductRowProps) => {
             ) : (
               <ImageIcon className="w-6 h-6 text-muted-foreground/40" />
             )}
+            {product.images.length > 1 && (
+              <span className="absolute bottom-0 right-0 rounded-tl-md bg-black/70 px-1 text-[10px] font-semibold text-white">
+                {product.images.length}
+              </span>
+            )}
           </div>
         </TableCell>
 
@@ -426,17 +512,7 @@ const ProductRow = ({ product, onEdit, onDelete, onView }: ProductRowProps) => {
 
         {/* Stock */}
         <TableCell>
-          {product.inStock ? (
-            <Badge className="gap-1.5 bg-emerald-500/20 text-emerald-600 dark:text-emerald-400 border-emerald-500/30">
-              <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" />
-              En stock
-            </Badge>
-          ) : (
-            <Badge className="gap-1.5 bg-red-500/20 text-red-600 dark:text-red-400 border-red-500/30">
-              <div className="w-1.5 h-1.5 rounded-full bg-red-500" />
-              Sin stock
-            </Badge>
-          )}
+          <StockCell product={product} isLowStock={isLowStock} onChange={onStockChange} />
         </TableCell>
 
         {/* Actions */}
@@ -473,8 +549,8 @@ const ProductRow = ({ product, onEdit, onDelete, onView }: ProductRowProps) => {
       {/* Expanded Description Row */}
       {isExpanded && product.description && (
         <TableRow className="bg-gradient-to-r from-muted/50 to-muted/20">
-          <TableCell colSpan={6} className="py-4">
-            <div className="flex gap-3 text-sm pl-14">
+          <TableCell colSpan={7} className="py-4">
+            <div className="flex gap-3 text-sm pl-24">
               <div className="p-2 rounded-lg bg-primary/10 shrink-0">
                 <FileText className="w-4 h-4 text-primary" />
               </div>
@@ -493,20 +569,34 @@ const Admin = () => {
   const { isAuthenticated, logout } = useAuth()
   const { toast } = useToast()
 
-  const [products, setProducts] = useState<AdminProduct[]>([])
-  const [categories, setCategories] = useState<Category[]>([])
-  const [collections, setCollections] = useState<Collection[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  const productsQuery = useAdminProductsQuery({ enabled: isAuthenticated })
+  const categoriesQuery = useCategoriesQuery()
+  const collectionsQuery = useCollectionsQuery()
+  const consultationsQuery = useAdminConsultationsQuery({ enabled: isAuthenticated })
+  const saveProduct = useSaveProductMutation()
+  const removeProduct = useDeleteProductMutation()
+  const updateStock = useUpdateStockMutation()
+
+  const products = useMemo<AdminProduct[]>(() => productsQuery.data ?? [], [productsQuery.data])
+  const categories: Category[] = categoriesQuery.data ?? []
+  const collections: Collection[] = collectionsQuery.data ?? []
+  const consultations = useMemo(() => consultationsQuery.data ?? [], [consultationsQuery.data])
+  const newConsultations = consultations.filter((c) => c.status === "new").length
+  const isLoading = productsQuery.isPending || categoriesQuery.isPending || collectionsQuery.isPending
   const [isRefreshing, setIsRefreshing] = useState(false)
 
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editing, setEditing] = useState<AdminProduct | null>(null)
-  const [isSaving, setIsSaving] = useState(false)
+  const isSaving = saveProduct.isPending
 
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [productToDelete, setProductToDelete] = useState<AdminProduct | null>(null)
 
   const [viewDialogOpen, setViewDialogOpen] = useState(false)
+  const [importDialogOpen, setImportDialogOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  const [stockFilter, setStockFilter] = useState<StockFilter>("all")
+  const [lowStockThreshold, setLowStockThreshold] = useState(readLowStockThreshold)
   const [viewingProduct, setViewingProduct] = useState<AdminProduct | null>(null)
 
   const [search, setSearch] = useState("")
@@ -518,54 +608,77 @@ const Admin = () => {
     categoryId: "",
     collectionId: "",
     description: "",
-    imageFile: null,
-    imagePreview: "",
-    inStock: true,
+    images: [],
+    inStock: false,
     stockQty: 0,
+    price: priceDraftFromProduct(),
   })
 
   /* ======================= LOAD DATA ======================= */
-  
-  const loadData = async (showToast = false) => {
-    try {
-      if (showToast) setIsRefreshing(true)
-      
-      const [cats, cols, items] = await Promise.all([
-        apiFetch<Category[]>("/v1/categories"),
-        apiFetch<Collection[]>("/v1/collections"),
-        fetchAllAdminProducts(),
-      ])
-
-      setCategories(cats)
-      setCollections(cols)
-      setProducts(mapAdminProducts(items))
-
-      if (showToast) {
-        toast({
-          title: "Actualizado",
-          description: "Datos actualizados correctamente",
-        })
-      }
-    } catch {
+
+  // Token vencido o inválido → cerrar sesión y volver al login
+  const handleAuthError = useCallback(
+    (err: unknown) => {
+      if (!isApiError(err) || !err.isUnauthorized) return false
+
+      logout()
       toast({
-        title: "Error",
-        description: "No se pudieron cargar los datos",
+        title: "Sesión expirada",
+        description: "Volvé a iniciar sesión para continuar",
         variant: "destructive",
       })
-    } finally {
-      setIsLoading(false)
-      if (showToast) setIsRefreshing(false)
-    }
-  }
+      return true
+    },
+    [logout, toast]
+  )
+  
+  const loadError =
+    productsQuery.error ??
+    categoriesQuery.error ??
+    collectionsQuery.error ??
+    consultationsQuery.error
 
   useEffect(() => {
-    if (!isAuthenticated) return
-    loadData()
-  }, [isAuthenticated])
+    if (!loadError || handleAuthError(loadError)) return
+
+    toast({
+      title: "Error",
+      description: getErrorMessage(loadError, "No se pudieron cargar los datos"),
+      variant: "destructive",
+    })
+  }, [loadError, handleAuthError, toast])
+
+  const refreshData = async () => {
+    setIsRefreshing(true)
+
+    const results = await Promise.all([
+      productsQuery.refetch(),
+      categoriesQuery.refetch(),
+      collectionsQuery.refetch(),
+      consultationsQuery.refetch(),
+    ])
+
+    setIsRefreshing(false)
+
+    if (results.every((r) => !r.error)) {
+      toast({
+        title: "Actualizado",
+        description: "Datos actualizados correctamente",
+      })
+    }
+  }
 
   /* ======================= STATS ======================= */
   
-  const stats = useMemo(() => calculateStats(products), [products])
+  const stats = useMemo(
+    () => calculateStats(products, lowStockThreshold),
+    [products, lowStockThreshold]
+  )
+
+  const changeLowStockThreshold = (value: number) => {
+    setLowStockThreshold(value)
+    saveLowStockThreshold(value)
+  }
 
   /* ======================= FILTER ======================= */
   
@@ -584,32 +697,114 @@ const Admin = () => {
       const matchesCollection =
         collectionFilter === "all" || p.collectionSlug === collectionFilter
 
-      return matchesSearch && matchesCategory && matchesCollection
+      const matchesStock =
+        stockFilter === "all" ||
+        (stockFilter === "low" && isLowStock(p, lowStockThreshold)) ||
+        (stockFilter === "out" && !p.inStock)
+
+      return matchesSearch && matchesCategory && matchesCollection && matchesStock
     })
-  }, [products, search, categoryFilter, collectionFilter])
+  }, [products, search, categoryFilter, collectionFilter, stockFilter, lowStockThreshold])
 
   const hasActiveFilters = 
-    search !== "" || categoryFilter !== "all" || collectionFilter !== "all"
+    search !== "" || categoryFilter !== "all" || collectionFilter !== "all" || stockFilter !== "all"
+
+  /* ======================= SELECTION ======================= */
+
+  // Solo cuenta lo visible: un filtro nuevo no deja seleccionados ocultos
+  const selectedProducts = useMemo(
+    () => filteredProducts.filter((p) => selectedIds.has(p.id)),
+    [filteredProducts, selectedIds]
+  )
+  const allVisibleSelected =
+    filteredProducts.length > 0 && selectedProducts.length === filteredProducts.length
+
+  const toggleSelected = (product: AdminProduct, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current)
+      if (selected) next.add(product.id)
+      else next.delete(product.id)
+      return next
+    })
+  }
+
+  const toggleAllVisible = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(filteredProducts.map((p) => p.id)) : new Set())
+  }
 
   const clearFilters = () => {
     setSearch("")
     setCategoryFilter("all")
     setCollectionFilter("all")
+    setStockFilter("all")
+  }
+
+  /* ======================= EXPORT ======================= */
+
+  // Todas las salidas respetan los filtros activos
+  const exportCsv = () => {
+    downloadFile(buildProductsCsv(filteredProducts), datedFileName("catalogo", "csv"), "text/csv;charset=utf-8")
+  }
+
+  const exportJson = () => {
+    downloadFile(buildProductsJson(filteredProducts), datedFileName("catalogo", "json"), "application/json")
+  }
+
+  const exportPrintable = () => {
+    const subtitle = [
+      categories.find((c) => c.slug === categoryFilter)?.name,
+      collections.find((c) => c.slug === collectionFilter)?.name,
+      search.trim() && `"${search.trim()}"`,
+    ]
+      .filter(Boolean)
+      .join(" · ")
+
+    if (!openPrintableCatalog(buildPrintableCatalog(filteredProducts, { subtitle }))) {
+      toast({
+        title: "Ventana bloqueada",
+        description: "Permití las ventanas emergentes para ver la lista imprimible",
+        variant: "destructive",
+      })
+    }
+  }
+
+  /* ======================= INLINE STOCK ======================= */
+
+  const handleStockChange = (product: AdminProduct, change: StockChange) => {
+    const base = productToPayload(product, categories, collections)
+    const payload = { ...base, ...applyStockChange(base, change) }
+
+    updateStock.mutate(
+      { id: product.id, payload },
+      {
+        onError: (err) => {
+          if (handleAuthError(err)) return
+          toast({
+            title: "Error",
+            description: getErrorMessage(err, `No se pudo actualizar el stock de ${product.name}`),
+            variant: "destructive",
+          })
+        },
+      }
+    )
   }
 
   /* ======================= CRUD OPERATIONS ======================= */
 
   const openCreate = () => {
+    // Previews de la vez anterior que no se llegaron a subir
+    revokeDrafts(form.images)
     setEditing(null)
     setForm({
       name: "",
       categoryId: "",
       collectionId: "",
       description: "",
-      imageFile: null,
-      imagePreview: "",
-      inStock: true,
+      images: [],
+      // Sin unidades no puede estar disponible: se habilita al cargar stock
+      inStock: false,
       stockQty: 0,
+      price: priceDraftFromProduct(),
     })
     setDialogOpen(true)
   }
@@ -619,16 +814,17 @@ const Admin = () => {
     const collectionId =
       collections.find((c) => c.slug === p.collectionSlug)?.id ?? ""
 
+    revokeDrafts(form.images)
     setEditing(p)
     setForm({
       name: p.name,
       categoryId,
       collectionId,
       description: p.description,
-      imageFile: null,
-      imagePreview: p.image,
+      images: draftsFromProduct(p),
       inStock: p.inStock,
       stockQty: p.stockQty ?? 0,
+      price: priceDraftFromProduct(p),
     })
     setDialogOpen(true)
   }
@@ -655,62 +851,49 @@ const Admin = () => {
       return
     }
 
-    setIsSaving(true)
+    const price = parsePriceDraft(form.price)
+    if (price.error) {
+      toast({
+        title: "Error",
+        description: price.error,
+        variant: "destructive",
+      })
+      return
+    }
 
     try {
-      const payload = {
+      const payload: ProductPayload = {
         name: form.name,
         description: form.description,
         categoryId: form.categoryId,
         collectionId: form.collectionId,
-        inStock: form.inStock,
-        stockQty: form.stockQty,
-      }
-
-      let id: string
-
-      if (editing) {
-        const updated = await apiFetch<ProductApiDTO>(
-          `/v1/admin/products/${editing.id}`,
-          { method: "PUT", auth: true, body: JSON.stringify(payload) }
-        )
-        id = updated.id
-      } else {
-        const created = await apiFetch<ProductApiDTO>(`/v1/admin/products`, {
-          method: "POST",
-          auth: true,
-          body: JSON.stringify(payload),
-        })
-        id = created.id
-      }
-
-      if (form.imageFile) {
-        const fd = new FormData()
-        fd.append("image", form.imageFile)
-
-        await apiFetch(`/v1/admin/products/${id}/image`, {
-          method: "POST",
-          auth: true,
-          body: fd,
-        })
+        ...applyStockChange(form, {}),
+        ...price.value,
       }
 
-      const items = await fetchAllAdminProducts()
-      setProducts(mapAdminProducts(items))
+      await saveProduct.mutateAsync({
+        id: editing?.id,
+        payload,
+        images: form.images,
+      })
 
       setDialogOpen(false)
       toast({
         title: editing ? "Actualizado" : "Creado",
         description: `Producto ${editing ? "actualizado" : "creado"} correctamente`,
       })
-    } catch {
+    } catch (err) {
+      if (handleAuthError(err)) return
+
+      const fieldMessage = isApiError(err)
+        ? Object.values(err.fieldErrors)[0]
+        : undefined
+
       toast({
         title: "Error",
-        description: "No se pudo guardar el producto",
+        description: fieldMessage ?? getErrorMessage(err, "No se pudo guardar el producto"),
         variant: "destructive",
       })
-    } finally {
-      setIsSaving(false)
     }
   }
 
@@ -718,12 +901,8 @@ const Admin = () => {
     if (!productToDelete) return
 
     try {
-      await apiFetch(`/v1/admin/products/${productToDelete.id}`, {
-        method: "DELETE",
-        auth: true,
-      })
+      await removeProduct.mutateAsync(productToDelete.id)
 
-      setProducts((prev) => prev.filter((p) => p.id !== productToDelete.id))
       setDeleteDialogOpen(false)
       setProductToDelete(null)
 
@@ -731,10 +910,12 @@ const Admin = () => {
         title: "Eliminado",
         description: "Producto eliminado correctamente",
       })
-    } catch {
+    } catch (err) {
+      if (handleAuthError(err)) return
+
       toast({
         title: "Error",
-        description: "No se pudo eliminar el producto",
+        description: getErrorMessage(err, "No se pudo eliminar el producto"),
         variant: "destructive",
       })
     }
@@ -796,7 +977,7 @@ const Admin = () => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => loadData(true)}
+                onClick={refreshData}
                 disabled={isRefreshing}
                 className="gap-2 border-2 hover:border-primary/50"
               >
@@ -820,151 +1001,278 @@ const Admin = () => {
         </div>
       </header>
 
-      <main className="container mx-auto px-6 py-10 space-y-8">
-        {/* Stats Cards */}
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          <StatCard
-            title="Total Productos"
-            value={stats.total}
-            icon={<Package className="w-6 h-6 text-white" />}
-            trend="Inventario completo"
-            gradient="bg-gradient-to-br from-blue-500 to-blue-600 border-blue-400"
-            delay={0}
-          />
-          <StatCard
-            title="En Stock"
-            value={stats.inStock}
-            total={stats.total}
-            icon={<CheckCircle className="w-6 h-6 text-white" />}
-            trend="Disponibles"
-            gradient="bg-gradient-to-br from-emerald-500 to-emerald-600 border-emerald-400"
-            delay={1}
-          />
-          <StatCard
-            title="Sin Stock"
-            value={stats.outOfStock}
-            total={stats.total}
-            icon={<AlertTriangle className="w-6 h-6 text-white" />}
-            trend="Requieren atención"
-            gradient="bg-gradient-to-br from-amber-500 to-amber-600 border-amber-400"
-            delay={2}
-          />
-          <StatCard
-            title="Con Imágenes"
-            value={stats.withImages}
-            total={stats.total}
-            icon={<ImageIcon className="w-6 h-6 text-white" />}
-            gradient="bg-gradient-to-br from-purple-500 to-purple-600 border-purple-400"
-            delay={3}
-          />
-          <StatCard
-            title="Con Descripción"
-            value={stats.withDescriptions}
-            total={stats.total}
-            icon={<FileText className="w-6 h-6 text-white" />}
-            gradient="bg-gradient-to-br from-pink-500 to-pink-600 border-pink-400"
-            delay={4}
-          />
-          <StatCard
-            title="Categorizados"
-            value={stats.categorized}
-            total={stats.total}
-            icon={<Tag className="w-6 h-6 text-white" />}
-            gradient="bg-gradient-to-br from-cyan-500 to-cyan-600 border-cyan-400"
-            delay={5}
-          />
-        </div>
+      <main className="container mx-auto px-6 py-10">
+        <Tabs defaultValue="products" className="space-y-8">
+          <TabsList className="h-11 border-2">
+            <TabsTrigger value="products" className="gap-2 px-4">
+              <Package className="w-4 h-4" />
+              Productos
+            </TabsTrigger>
+            <TabsTrigger value="consultations" className="gap-2 px-4">
+              <Inbox className="w-4 h-4" />
+              Consultas
+              {newConsultations > 0 && (
+                <Badge className="h-5 px-1.5 text-[10px] bg-primary text-primary-foreground">
+                  {newConsultations}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="analytics" className="gap-2 px-4">
+              <BarChart3 className="w-4 h-4" />
+              Estadísticas
+            </TabsTrigger>
+            <TabsTrigger value="taxonomy" className="gap-2 px-4">
+              <Layers className="w-4 h-4" />
+              Colecciones y categorías
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="products" className="space-y-8 mt-0">
+            {/* Stats Cards */}
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+              <StatCard
+                title="Total Productos"
+                value={stats.total}
+                icon={<Package className="w-6 h-6 text-white" />}
+                trend="Inventario completo"
+                gradient="bg-gradient-to-br from-blue-500 to-blue-600 border-blue-400"
+                delay={0}
+              />
+              <StatCard
+                title="En Stock"
+                value={stats.inStock}
+                total={stats.total}
+                icon={<CheckCircle className="w-6 h-6 text-white" />}
+                trend="Disponibles"
+                gradient="bg-gradient-to-br from-emerald-500 to-emerald-600 border-emerald-400"
+                delay={1}
+              />
+              <StatCard
+                title="Sin Stock"
+                value={stats.outOfStock}
+                total={stats.total}
+                icon={<AlertTriangle className="w-6 h-6 text-white" />}
+                trend="Requieren atención"
+                gradient="bg-gradient-to-br from-amber-500 to-amber-600 border-amber-400"
+                delay={2}
+              />
+              <StatCard
+                title="Stock Bajo"
+                value={stats.lowStock}
+                total={stats.total}
+                icon={<Boxes className="w-6 h-6 text-white" />}
+                trend={`Hasta ${lowStockThreshold} unidades`}
+                gradient="bg-gradient-to-br from-orange-500 to-orange-600 border-orange-400"
+                delay={3}
+              />
+              <StatCard
+                title="Con Imágenes"
+                value={stats.withImages}
+                total={stats.total}
+                icon={<ImageIcon className="w-6 h-6 text-white" />}
+                gradient="bg-gradient-to-br from-purple-500 to-purple-600 border-purple-400"
+                delay={4}
+              />
+              <StatCard
+                title="Con Descripción"
+                value={stats.withDescriptions}
+                total={stats.total}
+                icon={<FileText className="w-6 h-6 text-white" />}
+                gradient="bg-gradient-to-br from-pink-500 to-pink-600 border-pink-400"
+                delay={5}
+              />
+              <StatCard
+                title="Categorizados"
+                value={stats.categorized}
+                total={stats.total}
+                icon={<Tag className="w-6 h-6 text-white" />}
+                gradient="bg-gradient-to-br from-cyan-500 to-cyan-600 border-cyan-400"
+                delay={6}
+              />
+            </div>
 
-        {/* Actions Bar */}
-        <Card className="p-5 border-2 shadow-lg">
-          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-            <div className="flex items-center gap-3">
-              <Button onClick={openCreate} className="gap-2 shadow-xl hover:shadow-2xl transition-all hover:scale-105 bg-gradient-to-r from-primary to-primary/80">
-                <Plus className="w-5 h-5" />
-                Nuevo Producto
-              </Button>
+            {/* Actions Bar */}
+            <Card className="p-5 border-2 shadow-lg">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <Button onClick={openCreate} className="gap-2 shadow-xl hover:shadow-2xl transition-all hover:scale-105 bg-gradient-to-r from-primary to-primary/80">
+                    <Plus className="w-5 h-5" />
+                    Nuevo Producto
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    onClick={() => setImportDialogOpen(true)}
+                    className="gap-2 border-2 hover:border-primary/50"
+                  >
+                    <FileSpreadsheet className="w-5 h-5" />
+                    Importar
+                  </Button>
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        disabled={filteredProducts.length === 0}
+                        className="gap-2 border-2 hover:border-primary/50"
+                      >
+                        <Download className="w-5 h-5" />
+                        Exportar
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-56">
+                      <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                        {hasActiveFilters
+                          ? `${filteredProducts.length} productos filtrados`
+                          : `Todo el catálogo (${filteredProducts.length})`}
+                      </DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={exportCsv} className="gap-2">
+                        <FileSpreadsheet className="w-4 h-4" />
+                        Planilla CSV
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={exportJson} className="gap-2">
+                        <FileJson className="w-4 h-4" />
+                        Respaldo JSON
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={exportPrintable} className="gap-2">
+                        <Printer className="w-4 h-4" />
+                        Lista para imprimir
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
               
-              <div className="h-10 w-px bg-border hidden sm:block" />
+                  <div className="h-10 w-px bg-border hidden sm:block" />
               
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <BarChart3 className="w-5 h-5 text-primary" />
-                <span>
-                  Mostrando <span className="font-bold text-foreground text-base">{filteredProducts.length}</span> de{" "}
-                  <span className="font-bold text-foreground text-base">{stats.total}</span> productos
-                </span>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <BarChart3 className="w-5 h-5 text-primary" />
+                    <span>
+                      Mostrando <span className="font-bold text-foreground text-base">{filteredProducts.length}</span> de{" "}
+                      <span className="font-bold text-foreground text-base">{stats.total}</span> productos
+                    </span>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </Card>
-
-        {/* Filter Bar */}
-        <FilterBar
-          search={search}
-          onSearchChange={setSearch}
-          categoryFilter={categoryFilter}
-          onCategoryChange={setCategoryFilter}
-          collectionFilter={collectionFilter}
-          onCollectionChange={setCollectionFilter}
-          categories={categories}
-          collections={collections}
-          onClearFilters={clearFilters}
-          hasActiveFilters={hasActiveFilters}
-        />
-
-        {/* Products Table */}
-        <Card className="border-2 shadow-xl">
-          <div className="rounded-lg overflow-hidden">
-            <Table>
-              <TableHeader>
-                <TableRow className="bg-gradient-to-r from-muted to-muted/50 hover:from-muted hover:to-muted/50">
-                  <TableHead className="w-16"></TableHead>
-                  <TableHead className="font-bold">Nombre</TableHead>
-                  <TableHead className="font-bold">Categoría</TableHead>
-                  <TableHead className="font-bold">Colección</TableHead>
-                  <TableHead className="font-bold">Stock</TableHead>
-                  <TableHead className="text-right font-bold">Acciones</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredProducts.length === 0 ? (
-                  <TableRow>
-                    <TableCell colSpan={6} className="h-64 text-center">
-                      <div className="flex flex-col items-center gap-4 text-muted-foreground">
-                        <div className="p-6 rounded-2xl bg-gradient-to-br from-muted to-muted/50">
-                          <Package className="w-16 h-16" />
-                        </div>
-                        <div>
-                          <p className="font-semibold text-xl mb-2">No hay productos</p>
-                          <p className="text-sm">
-                            {hasActiveFilters
-                              ? "No se encontraron productos con los filtros aplicados"
-                              : "Comienza creando tu primer producto"}
-                          </p>
-                        </div>
-                        {!hasActiveFilters && (
-                          <Button onClick={openCreate} className="gap-2 mt-2">
-                            <Plus className="w-4 h-4" />
-                            Crear Producto
-                          </Button>
-                        )}
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ) : (
-                  filteredProducts.map((p) => (
-                    <ProductRow
-                      key={p.id}
-                      product={p}
-                      onEdit={openEdit}
-                      onDelete={openDelete}
-                      onView={openView}
-                    />
-                  ))
-                )}
-              </TableBody>
-            </Table>
-          </div>
-        </Card>
+            </Card>
+
+            {/* Filter Bar */}
+            <FilterBar
+              search={search}
+              onSearchChange={setSearch}
+              categoryFilter={categoryFilter}
+              onCategoryChange={setCategoryFilter}
+              collectionFilter={collectionFilter}
+              onCollectionChange={setCollectionFilter}
+              stockFilter={stockFilter}
+              onStockFilterChange={setStockFilter}
+              lowStockThreshold={lowStockThreshold}
+              onLowStockThresholdChange={changeLowStockThreshold}
+              categories={categories}
+              collections={collections}
+              onClearFilters={clearFilters}
+              hasActiveFilters={hasActiveFilters}
+            />
+
+            {/* Bulk Actions */}
+            <BulkActionsBar
+              selected={selectedProducts}
+              categories={categories}
+              collections={collections}
+              onClearSelection={() => setSelectedIds(new Set())}
+              onComplete={(failedIds) => setSelectedIds(new Set(failedIds))}
+            />
+
+            {/* Products Table */}
+            <Card className="border-2 shadow-xl">
+              <div className="rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gradient-to-r from-muted to-muted/50 hover:from-muted hover:to-muted/50">
+                      <TableHead className="w-10 pr-0">
+                        <Checkbox
+                          checked={
+                            allVisibleSelected
+                              ? true
+                              : selectedProducts.length > 0
+                                ? "indeterminate"
+                                : false
+                          }
+                          onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                          disabled={filteredProducts.length === 0}
+                          aria-label="Seleccionar todos"
+                        />
+                      </TableHead>
+                      <TableHead className="w-16"></TableHead>
+                      <TableHead className="font-bold">Nombre</TableHead>
+                      <TableHead className="font-bold">Categoría</TableHead>
+                      <TableHead className="font-bold">Colección</TableHead>
+                      <TableHead className="font-bold">Stock</TableHead>
+                      <TableHead className="text-right font-bold">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredProducts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-64 text-center">
+                          <div className="flex flex-col items-center gap-4 text-muted-foreground">
+                            <div className="p-6 rounded-2xl bg-gradient-to-br from-muted to-muted/50">
+                              <Package className="w-16 h-16" />
+                            </div>
+                            <div>
+                              <p className="font-semibold text-xl mb-2">No hay productos</p>
+                              <p className="text-sm">
+                                {hasActiveFilters
+                                  ? "No se encontraron productos con los filtros aplicados"
+                                  : "Comienza creando tu primer producto"}
+                              </p>
+                            </div>
+                            {!hasActiveFilters && (
+                              <Button onClick={openCreate} className="gap-2 mt-2">
+                                <Plus className="w-4 h-4" />
+                                Crear Producto
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredProducts.map((p) => (
+                        <ProductRow
+                          key={p.id}
+                          product={p}
+                          isSelected={selectedIds.has(p.id)}
+                          isLowStock={isLowStock(p, lowStockThreshold)}
+                          onSelectedChange={toggleSelected}
+                          onStockChange={handleStockChange}
+                          onEdit={openEdit}
+                          onDelete={openDelete}
+                          onView={openView}
+                        />
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="consultations" className="mt-0">
+            <ConsultationsInbox enabled={isAuthenticated} onAuthError={handleAuthError} />
+          </TabsContent>
+
+          <TabsContent value="analytics" className="mt-0">
+            <AnalyticsDashboard products={products} consultations={consultations} />
+          </TabsContent>
+
+          <TabsContent value="taxonomy" className="mt-0">
+            <TaxonomyManager
+              products={products}
+              categories={categories}
+              collections={collections}
+              onAuthError={handleAuthError}
+            />
+          </TabsContent>
+        </Tabs>
       </main>
 
       {/* Create/Edit Dialog */}
@@ -1081,30 +1389,56 @@ const Admin = () => {
                       Disponibilidad
                     </Label>
                     <p className="text-sm text-muted-foreground">
-                      {form.inStock ? "Producto en stock" : "Producto sin stock"}
+                      {form.inStock
+                        ? "Producto en stock"
+                        : form.stockQty > 0
+                          ? "Producto sin stock"
+                          : "Sin unidades: cargá una cantidad para habilitarlo"}
                     </p>
                   </div>
                 </div>
-                <Switch
-                  checked={form.inStock}
-                  onCheckedChange={(checked) =>
-                    setForm({ ...form, inStock: checked })
-                  }
-                />
+                <div className="flex items-center gap-3">
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    step={1}
+                    value={form.stockQty}
+                    onChange={(e) => {
+                      const qty = Number(e.target.value)
+                      if (!Number.isInteger(qty) || qty < 0) return
+                      setForm((prev) => ({ ...prev, ...applyStockChange(prev, { stockQty: qty }) }))
+                    }}
+                    aria-label="Unidades en stock"
+                    className="h-9 w-24 tabular-nums"
+                  />
+                  <Switch
+                    checked={form.inStock}
+                    disabled={!form.inStock && form.stockQty === 0}
+                    onCheckedChange={(checked) =>
+                      setForm((prev) => ({ ...prev, ...applyStockChange(prev, { inStock: checked }) }))
+                    }
+                    aria-label={form.inStock ? "Marcar sin stock" : "Marcar en stock"}
+                  />
+                </div>
               </div>
             </div>
 
+            {/* Price */}
+            <ProductPriceFields
+              value={form.price}
+              onChange={(price) => setForm((prev) => ({ ...prev, price }))}
+            />
+
             {/* Image Upload */}
             <div className="space-y-2">
               <Label className="flex items-center gap-2">
                 <ImageIcon className="w-4 h-4" />
-                Imagen del producto
+                Imágenes del producto
               </Label>
-              <ImageDropzone
-                preview={form.imagePreview}
-                onImageSelect={(file) => {
-                  setForm({ ...form, imageFile: file })
-                }}
+              <ProductImagesField
+                images={form.images}
+                onChange={(images) => setForm((prev) => ({ ...prev, images }))}
               />
             </div>
 
@@ -1135,6 +1469,15 @@ const Admin = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Bulk Import Dialog */}
+      <ProductImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        products={products}
+        categories={categories}
+        collections={collections}
+      />
+
       {/* View Product Dialog */}
       <Dialog open={viewDialogOpen} onOpenChange={setViewDialogOpen}>
         <DialogContent className="max-w-3xl border-2">
@@ -1158,6 +1501,20 @@ const Admin = () => {
                     />
                   </div>
                 )}
+                {viewingProduct.images.length > 1 && (
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {viewingProduct.images.map((url, i) => (
+                      <img
+                        key={url}
+                        src={url}
+                        alt={`${viewingProduct.name} ${i + 1}`}
+                        className={`w-16 h-16 shrink-0 rounded-lg object-cover border-2 ${
+                          i === 0 ? "border-primary" : ""
+                        }`}
+                      />
+                    ))}
+                  </div>
+                )}
 
                 {/* Info Grid */}
                 <div className="grid gap-4">
@@ -1203,6 +1560,13 @@ const Admin = () => {
                     </div>
                   </div>
 
+                  <div>
+                    <Label className="text-muted-foreground text-sm">Precio</Label>
+                    <p className="mt-1 text-sm">
+                      {describePrice(viewingProduct)}
+                    </p>
+                  </div>
+
                   <div>
                     <Label className="text-muted-foreground text-sm">Disponibilidad</Label>
                     <div className="mt-1">
@@ -1,62 +1,92 @@
-import { useEffect, useState, useTransition } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion"
 import { useNavigate, useLocation } from "react-router-dom"
 
 import Navbar from "@/components/Navbar"
 import SearchBar from "@/components/SearchBar"
-import Filters from "@/components/Filters"
+import Filters, { PriceRange } from "@/components/Filters"
+import SortSelect from "@/components/SortSelect"
 import ProductGrid from "@/components/ProductGrid"
 import CartDrawer from "@/components/CartDrawer"
 
-import { apiFetch } from "@/config/api"
+import {
+  useCategoriesQuery,
+  useCollectionsQuery,
+  useInfiniteProductsQuery,
+  useProductFacetsQuery,
+  useProductsQuery,
+} from "@/hooks/use-catalog-queries"
+import { useScrollRestoration } from "@/hooks/use-scroll-restoration"
+import { DEFAULT_CURRENCY, getEffectivePriceIn } from "@/lib/price"
+import {
+  applyCatalogChange,
+  CatalogParams,
+  CatalogViewMode,
+  DEFAULT_CATALOG_PARAMS,
+  parseCatalogParams,
+  readViewMode,
+  saveViewMode,
+  serializeCatalogParams,
+} from "@/lib/catalog-params"
+import { ProductFacetOption, ProductFacets } from "@/services/products.service"
 import { Product } from "@/types/product"
 
-import { ChevronLeft, ChevronRight, Loader2, Sparkles } from "lucide-react"
+import {
+  ChevronLeft,
+  ChevronRight,
+  Infinity as InfinityIcon,
+  ListOrdered,
+  Loader2,
+  Sparkles,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
-
-/* ================================
-   TYPES
-================================ */
-interface Category { id: string; name: string; slug: string }
-interface Collection { id: string; name: string; slug: string }
-
-interface ProductsApiResponse {
-  items: Product[]
-  total: number
-}
-
-interface FilterState {
-  category: string | null
-  collection: string | null
-  search: string
-  inStock: boolean
-  page: number
-}
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 
 const PRODUCTS_PER_PAGE = 24
 
 /* ================================
    HELPERS
 ================================ */
-const buildQueryParams = (filters: Partial<FilterState>) => {
-  const p = new URLSearchParams()
-  if (filters.category) p.set("category", filters.category)
-  if (filters.collection) p.set("collection", filters.collection)
-  if (filters.search) p.set("search", filters.search)
-  if (filters.inStock) p.set("inStock", "true")
-  p.set("page", String(filters.page ?? 1))
-  p.set("limit", String(PRODUCTS_PER_PAGE))
-  return p.toString()
-}
-
-const useDebounce = <T,>(v: T, delay: number): T => {
-  const [d, setD] = useState(v)
-  useEffect(() => {
-    const t = setTimeout(() => setD(v), delay)
-    return () => clearTimeout(t)
-  }, [v, delay])
-  return d
-}
+const hasPriceRange = (params: CatalogParams) =>
+  params.minPrice !== null || params.maxPrice !== null
+
+const isPriceSort = (params: CatalogParams) =>
+  params.sort === "price-asc" || params.sort === "price-desc"
+
+// El rango y el orden por precio se aplican en la moneda de la tienda
+const buildFacetsQuery = (params: CatalogParams) => ({
+  category: params.categories,
+  collection: params.collections,
+  search: params.search,
+  inStock: params.inStock,
+  minPrice: params.minPrice,
+  maxPrice: params.maxPrice,
+  currency: hasPriceRange(params) ? DEFAULT_CURRENCY : null,
+})
+
+const buildListQuery = (params: CatalogParams) => ({
+  ...buildFacetsQuery(params),
+  currency: hasPriceRange(params) || isPriceSort(params) ? DEFAULT_CURRENCY : null,
+  sort: params.sort,
+  limit: PRODUCTS_PER_PAGE,
+})
+
+const buildQueryParams = (params: CatalogParams) => ({
+  ...buildListQuery(params),
+  page: params.page,
+})
+
+// Sin conteos (backend viejo o error) los filtros siguen funcionando con las listas completas
+const withoutCounts = (items: { slug: string; name: string }[]): ProductFacetOption[] =>
+  items.map(({ slug, name }) => ({ slug, name, count: null }))
+
+// Slugs del URL que ya no existen (renombrados o borrados)
+const knownSlugs = (selected: string[], options: ProductFacetOption[]) =>
+  selected.filter((slug) => options.some((o) => o.slug === slug))
+
+// Si el catálogo cambia entre una página y la siguiente, un producto puede repetirse
+const uniqueById = (products: Product[]) =>
+  Array.from(new Map(products.map((p) => [p.id, p])).values())
 
 /* ================================
    OPTIMIZED BACKGROUND
@@ -122,91 +152,223 @@ const CatalogBackground = ({ prefersReducedMotion }: { prefersReducedMotion: boo
   );
 };
 
+/* ================================
+   LOAD MORE (scroll infinito)
+================================ */
+const LoadMore = ({
+  loaded,
+  total,
+  hasMore,
+  isLoading,
+  isError,
+  onLoadMore,
+}: {
+  loaded: number
+  total: number
+  hasMore: boolean
+  isLoading: boolean
+  isError: boolean
+  onLoadMore: () => void
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    // Sin IntersectionObserver queda solo el botón
+    if (!sentinel || typeof IntersectionObserver === "undefined") return
+    // Tras un error no se reintenta solo: evita un loop de requests fallidos
+    if (!hasMore || isLoading || isError) return
+
+    // Se vuelve a observar después de cada carga: si el sentinel sigue visible, carga otra
+    const observer = new IntersectionObserver(
+      ([entry]) => entry.isIntersecting && onLoadMore(),
+      { rootMargin: "800px 0px" }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, isLoading, isError, onLoadMore])
+
+  return (
+    <div className="flex flex-col items-center gap-4 mt-12 pt-10 border-t border-slate-700/40">
+      <div ref={sentinelRef} aria-hidden="true" />
+
+      <p className="text-sm text-slate-400" aria-live="polite">
+        {hasMore
+          ? `Mostrando ${loaded} de ${total} productos`
+          : `Llegaste al final · ${total} ${total === 1 ? "producto" : "productos"}`}
+      </p>
+
+      {hasMore && (
+        <Button
+          onClick={onLoadMore}
+          disabled={isLoading}
+          variant="outline"
+          size="lg"
+          className="h-12 px-7 font-bold bg-slate-800/50 hover:bg-slate-800/70 text-white border border-slate-700/40 hover:border-cyan-500/40 disabled:opacity-60 transition-all duration-300 touch-manipulation"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Cargando...
+            </>
+          ) : isError ? (
+            "Reintentar"
+          ) : (
+            "Cargar más productos"
+          )}
+        </Button>
+      )}
+    </div>
+  )
+}
+
 /* ================================
    COMPONENT
 ================================ */
 const Catalog = () => {
   const navigate = useNavigate()
   const location = useLocation()
-  const [, startTransition] = useTransition()
   const prefersReducedMotion = useReducedMotion()
 
-  const [search, setSearch] = useState("")
-  const [category, setCategory] = useState<string | null>(null)
-  const [collection, setCollection] = useState<string | null>(null)
-  const [inStock, setInStock] = useState(false)
-  const [page, setPage] = useState(1)
   const [cartOpen, setCartOpen] = useState(false)
+  const [viewMode, setViewMode] = useState<CatalogViewMode>(readViewMode)
+  const isInfinite = viewMode === "infinite"
 
-  const [products, setProducts] = useState<Product[]>([])
-  const [total, setTotal] = useState(0)
-  const [loading, setLoading] = useState(true)
-  const [collections, setCollections] = useState<Collection[]>([])
-  const [categories, setCategories] = useState<Category[]>([])
+  // Todo el estado de filtros, orden y página sale del URL
+  const params = useMemo(
+    () => parseCatalogParams(new URLSearchParams(location.search)),
+    [location.search]
+  )
+  const {
+    categories: selectedCategories,
+    collections: selectedCollections,
+    search,
+    inStock,
+    sort,
+    page,
+  } = params
+  const priceRange = useMemo<PriceRange>(
+    () => ({ min: params.minPrice, max: params.maxPrice }),
+    [params.minPrice, params.maxPrice]
+  )
 
-  const debouncedSearch = useDebounce(search, 300)
+  const facetsQuery = useProductFacetsQuery(buildFacetsQuery(params))
+  const collectionsQuery = useCollectionsQuery()
+  const categoriesQuery = useCategoriesQuery(null, { enabled: facetsQuery.isError })
+  const productsQuery = useProductsQuery(buildQueryParams(params), {
+    keepPrevious: true,
+    enabled: !isInfinite,
+  })
+  const infiniteQuery = useInfiniteProductsQuery(buildListQuery(params), { enabled: isInfinite })
+
+  const facets = useMemo<ProductFacets | null>(() => {
+    if (facetsQuery.data) return facetsQuery.data
+    if (!facetsQuery.isError) return null
+    return {
+      collections: withoutCounts(collectionsQuery.data ?? []),
+      categories: withoutCounts(categoriesQuery.data ?? []),
+      total: null,
+    }
+  }, [facetsQuery.data, facetsQuery.isError, collectionsQuery.data, categoriesQuery.data])
+  // Con conteos de otra combinación de filtros no se descarta nada del URL
+  const facetsReady = facetsQuery.isError
+    ? collectionsQuery.isSuccess && categoriesQuery.isSuccess
+    : facetsQuery.isSuccess && !facetsQuery.isPlaceholderData
+  const infinitePages = infiniteQuery.data?.pages
+  const loadedPages = infinitePages?.length ?? 0
+  const products = useMemo(
+    () =>
+      isInfinite
+        ? uniqueById(infinitePages?.flatMap((p) => p.items) ?? [])
+        : productsQuery.data?.items ?? [],
+    [isInfinite, infinitePages, productsQuery.data]
+  )
+  const total = (isInfinite ? infinitePages?.[0]?.total : productsQuery.data?.total) ?? 0
+  const loading = isInfinite
+    ? infiniteQuery.isPending
+    : productsQuery.isPending || productsQuery.isPlaceholderData
+
+  // Volviendo de un producto (o recargando) se recupera la profundidad que indica el URL
+  const isRestoringDepth =
+    isInfinite && loadedPages > 0 && loadedPages < page && infiniteQuery.hasNextPage
+
+  useScrollRestoration(!loading && !isRestoringDepth)
+
+  /**
+   * push para navegación real (filtros, orden, páginas: "atrás" vuelve al estado anterior);
+   * replace para cambios que no merecen una entrada en el historial (tipear en la búsqueda)
+   */
+  const updateParams = useCallback(
+    (patch: Partial<CatalogParams>, { replace = false }: { replace?: boolean } = {}) => {
+      const next = serializeCatalogParams(applyCatalogChange(params, patch)).toString()
+      if (next === new URLSearchParams(location.search).toString()) return
+      navigate({ search: next ? `?${next}` : "" }, { replace })
+    },
+    [params, location.search, navigate]
+  )
 
-  useEffect(() => {
-    apiFetch<Collection[]>("/v1/collections").then(c => {
-      setCollections(c || [])
-    })
-  }, [])
+  const handleSearchChange = useCallback(
+    (value: string) => {
+      // SearchBar avisa también al montar con el mismo valor
+      if (value === search) return
+      updateParams({ search: value }, { replace: true })
+    },
+    [search, updateParams]
+  )
 
   useEffect(() => {
-    if (!collection) {
-      setCategories([])
-      return
+    // Esperar a que lleguen las opciones antes de descartar slugs del URL
+    if (!facetsReady || !facets) return
+
+    const nextCollections = knownSlugs(selectedCollections, facets.collections)
+    const nextCategories = knownSlugs(selectedCategories, facets.categories)
+    if (
+      nextCollections.length !== selectedCollections.length ||
+      nextCategories.length !== selectedCategories.length
+    ) {
+      updateParams({ collections: nextCollections, categories: nextCategories }, { replace: true })
     }
+  }, [facetsReady, facets, selectedCollections, selectedCategories, updateParams])
 
-    apiFetch<Category[]>(`/v1/categories?collection=${collection}`)
-      .then(c => setCategories(c || []))
-  }, [collection])
-
-  useEffect(() => {
-    const p = new URLSearchParams(location.search)
-    startTransition(() => {
-      setCategory(p.get("category"))
-      setCollection(p.get("collection"))
-      setSearch(p.get("search") || "")
-    })
-  }, [location.search])
+  const totalPages = Math.max(1, Math.ceil(total / PRODUCTS_PER_PAGE))
+  const hasPrices = products.some((p) => getEffectivePriceIn(p, DEFAULT_CURRENCY) !== null)
 
   useEffect(() => {
-    if (!collection || !category) return
-
-    if (!categories.some(c => c.slug === category)) {
-      setCategory(null)
+    // Link viejo a una página que ya no existe: ir a la última
+    if (!isInfinite && !loading && productsQuery.isSuccess && page > totalPages) {
+      updateParams({ page: totalPages }, { replace: true })
     }
-  }, [collection, categories, category])
+  }, [isInfinite, loading, productsQuery.isSuccess, page, totalPages, updateParams])
 
-  useEffect(() => {
-    const fetchProducts = async () => {
-      setLoading(true)
-      try {
-        const query = buildQueryParams({ category, collection, search: debouncedSearch, inStock, page })
-        const r = await apiFetch<ProductsApiResponse>(`/v1/products?${query}`)
-        setProducts(r.items || [])
-        setTotal(r.total || 0)
-      } finally {
-        setLoading(false)
-      }
-    }
-    fetchProducts()
-  }, [category, collection, debouncedSearch, inStock, page])
+  const { fetchNextPage, isFetching, isFetchingNextPage, hasNextPage } = infiniteQuery
 
   useEffect(() => {
-    setPage(1)
-  }, [debouncedSearch, category, collection, inStock])
+    if (isRestoringDepth && !isFetching) void fetchNextPage()
+  }, [isRestoringDepth, isFetching, fetchNextPage])
 
-  const totalPages = Math.max(1, Math.ceil(total / PRODUCTS_PER_PAGE))
+  useEffect(() => {
+    if (!isInfinite || loadedPages === 0 || isFetching) return
+    // El URL sigue a lo cargado: más páginas al scrollear, o menos si el listado se achicó
+    if (loadedPages > page || (loadedPages < page && !hasNextPage)) {
+      updateParams({ page: loadedPages }, { replace: true })
+    }
+  }, [isInfinite, loadedPages, page, hasNextPage, isFetching, updateParams])
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) void fetchNextPage()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+
+  const handleViewModeChange = (mode: string) => {
+    if (mode !== "infinite" && mode !== "pages") return
+    setViewMode(mode)
+    saveViewMode(mode)
+    // page significa otra cosa en cada modo: se arranca de la primera
+    updateParams({}, { replace: true })
+  }
 
   const clearFilters = () => {
-    setSearch("")
-    setCategory(null)
-    setCollection(null)
-    setInStock(false)
-    setPage(1)
-    navigate(location.pathname, { replace: true })
+    // El orden no es un filtro: se conserva
+    updateParams({ ...DEFAULT_CATALOG_PARAMS, sort })
   }
 
   return (
@@ -258,20 +420,53 @@ const Catalog = () => {
             </p>
           </motion.div>
 
-          <SearchBar value={search} onChange={setSearch} />
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <SearchBar value={search} onChange={handleSearchChange} />
+            <div className="flex items-center gap-3">
+              <SortSelect
+                value={sort}
+                onChange={(next) => updateParams({ sort: next })}
+                showPriceOptions={hasPrices}
+              />
+              <ToggleGroup
+                type="single"
+                value={viewMode}
+                onValueChange={handleViewModeChange}
+                className="h-12 shrink-0 rounded-md border border-slate-700/40 bg-slate-800/50 p-1"
+                aria-label="Modo de listado"
+              >
+                <ToggleGroupItem
+                  value="infinite"
+                  className="h-10 w-10 text-slate-400 data-[state=on]:bg-slate-700/70 data-[state=on]:text-cyan-300"
+                  aria-label="Scroll infinito"
+                  title="Scroll infinito"
+                >
+                  <InfinityIcon className="w-4 h-4" />
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="pages"
+                  className="h-10 w-10 text-slate-400 data-[state=on]:bg-slate-700/70 data-[state=on]:text-cyan-300"
+                  aria-label="Por páginas"
+                  title="Por páginas"
+                >
+                  <ListOrdered className="w-4 h-4" />
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          </div>
 
           <Filters
-            categories={categories}
-            collections={collections}
-            selectedCategory={category}
-            selectedCollection={collection}
+            categories={facets?.categories ?? []}
+            collections={facets?.collections ?? []}
+            selectedCategories={selectedCategories}
+            selectedCollections={selectedCollections}
             showOnlyInStock={inStock}
-            onCategoryChange={setCategory}
-            onCollectionChange={(v) => {
-              setCollection(v)
-              setCategory(null)
-            }}
-            onStockFilterChange={setInStock}
+            onCategoriesChange={(v) => updateParams({ categories: v })}
+            onCollectionsChange={(v) => updateParams({ collections: v })}
+            onStockFilterChange={(v) => updateParams({ inStock: v })}
+            priceRange={priceRange}
+            onPriceRangeChange={(range) => updateParams({ minPrice: range.min, maxPrice: range.max })}
+            resultCount={facets?.total ?? (loading ? null : total)}
             onClearFilters={clearFilters}
           />
 
@@ -323,7 +518,18 @@ const Catalog = () => {
             )}
           </AnimatePresence>
 
-          {!loading && totalPages > 1 && (
+          {!loading && isInfinite && products.length > 0 && (
+            <LoadMore
+              loaded={products.length}
+              total={total}
+              hasMore={Boolean(hasNextPage)}
+              isLoading={isFetchingNextPage || isRestoringDepth}
+              isError={infiniteQuery.isFetchNextPageError}
+              onLoadMore={handleLoadMore}
+            />
+          )}
+
+          {!loading && !isInfinite && totalPages > 1 && (
             <motion.div
               initial={prefersReducedMotion ? undefined : { opacity: 0, y: 15 }}
               animate={prefersReducedMotion ? undefined : { opacity: 1, y: 0 }}
@@ -339,7 +545,7 @@ const Catalog = () => {
               >
                 <Button
                   disabled={page === 1}
-                  onClick={() => setPage(p => p - 1)}
+                  onClick={() => updateParams({ page: page - 1 })}
                   variant="outline"
                   size="lg"
                   className="w-full sm:w-auto h-12 px-7 font-bold bg-slate-800/50 hover:bg-slate-800/70 text-white border border-slate-700/40 hover:border-cyan-500/40 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-300 touch-manipulation relative overflow-hidden group"
@@ -368,7 +574,7 @@ const Catalog = () => {
               >
                 <Button
                   disabled={page === totalPages}
-                  onClick={() => setPage(p => p + 1)}
+                  onClick={() => updateParams({ page: page + 1 })}
                   variant="outline"
                   size="lg"
                   className="w-full sm:w-auto h-12 px-7 font-bold bg-slate-800/50 hover:bg-slate-800/70 text-white border border-slate-700/40 hover:border-cyan-500/40 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-300 touch-manipulation relative overflow-hidden group"
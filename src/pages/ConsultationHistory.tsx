@@ -0,0 +1,326 @@
+import { useCallback, useState } from "react";
+import { Link } from "react-router-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  CheckCircle2,
+  Clock,
+  History,
+  Loader2,
+  MessageCircle,
+  Package,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+
+import Navbar from "@/components/Navbar";
+import CartDrawer from "@/components/CartDrawer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCart, CartImportEntry } from "@/context/CartContext";
+import { useConsultationHistory, usePendingConsultationIds } from "@/hooks/use-consultation-history";
+import { ConsultationHistoryEntry } from "@/lib/consultation-history";
+import { getDeliveryLabel } from "@/lib/consultation";
+import { buildWhatsAppUrl } from "@/lib/whatsapp-message";
+import { queryKeys } from "@/lib/query";
+import { getProduct } from "@/services/products.service";
+import { WHATSAPP_NUMBER } from "@/config/api";
+
+/* ================================
+   HELPERS & UTILITIES
+================================= */
+const dateFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const formatDate = (iso: string): string => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : dateFormatter.format(date);
+};
+
+/* ================================
+   SUB-COMPONENTS
+================================= */
+const HistoryCard = ({
+  entry,
+  isPending,
+  isRestoring,
+  onOpenWhatsApp,
+  onRestore,
+  onRemove,
+}: {
+  entry: ConsultationHistoryEntry;
+  isPending: boolean;
+  isRestoring: boolean;
+  onOpenWhatsApp: (entry: ConsultationHistoryEntry) => void;
+  onRestore: (entry: ConsultationHistoryEntry) => void;
+  onRemove: (id: string) => void;
+}) => {
+  const units = entry.items.reduce((total, item) => total + item.qty, 0);
+  const contactParts = [
+    entry.contact?.name,
+    entry.contact?.city,
+    getDeliveryLabel(entry.contact?.delivery),
+  ].filter(Boolean);
+
+  return (
+    <motion.article
+      layout
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="p-5 rounded-2xl bg-slate-800/40 border border-slate-700/50 space-y-4"
+    >
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-slate-300">
+          <Clock className="w-4 h-4 text-violet-400" />
+          {formatDate(entry.sentAt)}
+        </div>
+        <div className="flex items-center gap-2">
+          {isPending && (
+            <Badge className="text-xs bg-amber-500/15 text-amber-300 border-amber-500/30 hover:bg-amber-500/15">
+              Pendiente de registro
+            </Badge>
+          )}
+          <Badge className="text-xs bg-violet-500/15 text-violet-300 border-violet-500/25 hover:bg-violet-500/15">
+            {units} {units === 1 ? "unidad" : "unidades"}
+          </Badge>
+        </div>
+      </header>
+
+      <ul className="space-y-2">
+        {entry.items.map((item) => (
+          <li key={item.productId} className="flex items-center gap-3">
+            <div className="w-11 h-11 flex-shrink-0 rounded-lg overflow-hidden border border-slate-600/50 bg-slate-800 flex items-center justify-center">
+              {item.image ? (
+                <img src={item.image} alt={item.name} className="w-full h-full object-cover" loading="lazy" />
+              ) : (
+                <Package className="w-5 h-5 text-slate-500" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-white truncate">{item.name}</p>
+              {item.note && <p className="text-xs text-slate-400 truncate">Nota: {item.note}</p>}
+            </div>
+            <span className="text-sm font-semibold text-slate-200 tabular-nums">×{item.qty}</span>
+          </li>
+        ))}
+      </ul>
+
+      {contactParts.length > 0 && (
+        <p className="text-xs text-slate-400">{contactParts.join(" · ")}</p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button
+          size="sm"
+          onClick={() => onRestore(entry)}
+          disabled={isRestoring}
+          className="flex-1 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white border-0"
+        >
+          {isRestoring ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RotateCcw className="w-4 h-4 mr-2" />
+          )}
+          Cargar en mi consulta
+        </Button>
+        {WHATSAPP_NUMBER && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onOpenWhatsApp(entry)}
+            className="flex-1 bg-transparent border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/10 hover:text-emerald-200"
+          >
+            <MessageCircle className="w-4 h-4 mr-2" />
+            Abrir en WhatsApp
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onRemove(entry.id)}
+          className="text-slate-400 hover:text-rose-300 hover:bg-rose-500/10"
+          aria-label="Eliminar del historial"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </motion.article>
+  );
+};
+
+/* ================================
+   MAIN COMPONENT
+================================= */
+const ConsultationHistory = () => {
+  const { entries, remove, clear } = useConsultationHistory();
+  const { importItems } = useCart();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [cartOpen, setCartOpen] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [showClearDialog, setShowClearDialog] = useState(false);
+
+  const pendingIds = usePendingConsultationIds();
+
+  const handleOpenWhatsApp = useCallback((entry: ConsultationHistoryEntry) => {
+    if (!WHATSAPP_NUMBER) return;
+    window.open(buildWhatsAppUrl(WHATSAPP_NUMBER, entry.message), "_blank", "noopener,noreferrer");
+  }, []);
+
+  // Trae cada producto del catálogo actual: el historial puede estar desactualizado
+  const handleRestore = useCallback(
+    async (entry: ConsultationHistoryEntry) => {
+      setRestoringId(entry.id);
+
+      const results = await Promise.allSettled(
+        entry.items.map((item) =>
+          queryClient.fetchQuery({
+            queryKey: queryKeys.products.detail(item.productId),
+            queryFn: ({ signal }) => getProduct(item.productId, { signal }),
+          })
+        )
+      );
+
+      const importable: CartImportEntry[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled" && result.value.inStock) {
+          importable.push({ product: result.value, quantity: entry.items[index].qty });
+        }
+      });
+
+      setRestoringId(null);
+
+      if (importable.length === 0) {
+        toast({
+          title: "No se pudo cargar",
+          description: "Ninguno de estos productos está disponible ahora.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      importItems(importable);
+      setCartOpen(true);
+
+      const skipped = entry.items.length - importable.length;
+      toast({
+        description: (
+          <div className="flex items-center gap-3">
+            <CheckCircle2 className="w-5 h-5 text-emerald-400" />
+            <div>
+              <p className="text-sm font-semibold text-white">Consulta cargada</p>
+              {skipped > 0 && (
+                <p className="text-xs text-slate-400">
+                  {skipped === 1
+                    ? "1 producto ya no está disponible"
+                    : `${skipped} productos ya no están disponibles`}
+                </p>
+              )}
+            </div>
+          </div>
+        ),
+        duration: 2500,
+        className: "bg-slate-900/95 backdrop-blur-md border border-emerald-500/40",
+      });
+    },
+    [importItems, queryClient, toast]
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-slate-950 text-white relative overflow-hidden">
+      <Navbar onCartClick={() => setCartOpen(true)} />
+
+      <main className="relative max-w-3xl mx-auto px-6 pt-28 pb-24 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-gradient-to-br from-violet-500/10 to-fuchsia-500/10 border border-violet-500/20">
+              <History className="w-5 h-5 text-violet-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold">Mis consultas</h1>
+              <p className="text-sm text-slate-400">Guardadas solo en este dispositivo</p>
+            </div>
+          </div>
+
+          {entries.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowClearDialog(true)}
+              className="bg-transparent border-slate-700/50 text-slate-300 hover:text-rose-300 hover:border-rose-500/40"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Borrar historial
+            </Button>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="p-10 rounded-2xl bg-slate-800/30 border border-slate-700/50 text-center space-y-4">
+            <p className="text-slate-300">Todavía no enviaste consultas desde este dispositivo.</p>
+            <Button asChild variant="outline" className="bg-transparent">
+              <Link to="/catalogo">Ir al catálogo</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <AnimatePresence mode="popLayout">
+              {entries.map((entry) => (
+                <HistoryCard
+                  key={entry.id}
+                  entry={entry}
+                  isPending={Boolean(entry.pendingId && pendingIds.has(entry.pendingId))}
+                  isRestoring={restoringId === entry.id}
+                  onOpenWhatsApp={handleOpenWhatsApp}
+                  onRestore={handleRestore}
+                  onRemove={remove}
+                />
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={showClearDialog} onOpenChange={setShowClearDialog}>
+        <AlertDialogContent className="bg-slate-900/98 backdrop-blur-xl border-slate-700/50 max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">¿Borrar historial?</AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-400">
+              Se eliminarán todas las consultas guardadas en este dispositivo.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-slate-800/60 text-slate-300 border-slate-700/50">
+              Cancelar
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={clear}
+              className="bg-gradient-to-r from-rose-600 to-red-600 text-white"
+            >
+              Borrar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CartDrawer isOpen={cartOpen} onClose={() => setCartOpen(false)} />
+    </div>
+  );
+};
+
+export default ConsultationHistory;
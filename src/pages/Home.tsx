@@ -1,5 +1,5 @@
 // Home.tsx
-import React, { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import React, { useEffect, useState, useCallback, useMemo } from "react";
 import { motion, useReducedMotion } from "framer-motion";
 import { Link, useNavigate } from "react-router-dom";
 import Navbar from "@/components/Navbar";
@@ -14,32 +14,15 @@ import {
   ChevronDown,
 } from "lucide-react";
 import heroImage from "@/assets/hero-starwars.jpg";
-import { apiFetch } from "@/config/api";
+import { getErrorMessage } from "@/config/api";
 import { Product } from "@/types/product";
+import { Collection } from "@/types/collections";
+import { useCollectionsQuery, useProductsQuery } from "@/hooks/use-catalog-queries";
 import ProductGrid from "@/components/ProductGrid";
 
 /* ================================
    TYPES & INTERFACES
 ================================= */
-interface Collection {
-  id: string;
-  name: string;
-  slug: string;
-  description?: string;
-  image?: string;
-}
-
-interface FeaturedApiResponse {
-  items: Product[];
-  total?: number;
-  page?: number;
-}
-
-interface ApiError extends Error {
-  status?: number;
-  code?: string;
-}
-
 /* ================================
    CONSTANTS
 ================================= */
@@ -81,15 +64,8 @@ const useDeviceDetection = () => {
 /* ================================
    HELPERS & UTILITIES
 ================================= */
-const isApiError = (error: unknown): error is ApiError => {
-  return error instanceof Error;
-};
-
-const extractErrorMessage = (error: unknown): string => {
-  if (isApiError(error)) return error.message || "Error al cargar datos";
-  if (typeof error === "string") return error;
-  return "Error desconocido";
-};
+const extractErrorMessage = (error: unknown): string =>
+  getErrorMessage(error, "Error al cargar datos");
 
 const getSafeAreaStyle = (): React.CSSProperties => ({
   paddingTop: "env(safe-area-inset-top)",
@@ -130,74 +106,25 @@ const debounce = <T extends (...args: never[]) => void>(func: T, wait: number) =
    CUSTOM HOOKS
 ================================= */
 const useCollections = () => {
-  const [collections, setCollections] = useState<Collection[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  const fetchCollections = useCallback(async () => {
-    abortControllerRef.current?.abort();
-    abortControllerRef.current = new AbortController();
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await apiFetch<Collection[]>("/v1/collections", {
-        signal: abortControllerRef.current.signal,
-      });
-      setCollections(response || []);
-    } catch (err: unknown) {
-      if (isApiError(err) && err.name === "AbortError") return;
-      setError(extractErrorMessage(err));
-      setCollections([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  const { data, isLoading, error, refetch } = useCollectionsQuery();
 
-  useEffect(() => {
-    fetchCollections();
-    return () => abortControllerRef.current?.abort();
-  }, [fetchCollections]);
-
-  return { collections, isLoading, error, refetch: fetchCollections };
+  return {
+    collections: data ?? [],
+    isLoading,
+    error: error ? extractErrorMessage(error) : null,
+    refetch,
+  };
 };
 
 const useFeaturedProducts = (limit: number = FEATURED_PRODUCTS_LIMIT) => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  const fetchProducts = useCallback(async () => {
-    abortControllerRef.current?.abort();
-    abortControllerRef.current = new AbortController();
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await apiFetch<FeaturedApiResponse>(
-        `/v1/products?featured=true&limit=${limit}`,
-        { signal: abortControllerRef.current.signal }
-      );
-      setProducts(response.items || []);
-    } catch (err: unknown) {
-      if (isApiError(err) && err.name === "AbortError") return;
-      setError(extractErrorMessage(err));
-      setProducts([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [limit]);
-
-  useEffect(() => {
-    fetchProducts();
-    return () => abortControllerRef.current?.abort();
-  }, [fetchProducts]);
+  const { data, isLoading, error, refetch } = useProductsQuery({ featured: true, limit });
 
-  return { products, isLoading, error, refetch: fetchProducts };
+  return {
+    products: data?.items ?? [],
+    isLoading,
+    error: error ? extractErrorMessage(error) : null,
+    refetch,
+  };
 };
 
 const useViewportHeight = () => {
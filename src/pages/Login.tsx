@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Lock, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/config/api";
 
 const Login = () => {
   const [email, setEmail] = useState("");
@@ -32,7 +33,19 @@ const Login = () => {
     e.preventDefault();
     setIsLoading(true);
 
-    const success = await login(email, password);
+    let success: boolean;
+
+    try {
+      success = await login(email, password);
+    } catch (err) {
+      toast({
+        title: "Error de conexión",
+        description: getErrorMessage(err, "No se pudo iniciar sesión"),
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
 
     if (!success) {
       toast({
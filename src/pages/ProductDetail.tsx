@@ -3,11 +3,23 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useParams } from "react-router-dom";
 
 import { useCart } from "@/context/CartContext";
-import { apiFetch } from "@/config/api";
+import { getErrorMessage, isApiError } from "@/config/api";
 import { Product } from "@/types/product";
+import { useProductQuery } from "@/hooks/use-catalog-queries";
+import { getMaxQuantity } from "@/lib/cart";
+import QuantityStepper from "@/components/QuantityStepper";
+import { PriceTag } from "@/components/PriceTag";
 
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
 import {
   Loader2,
   ArrowLeft,
@@ -18,6 +30,10 @@ import {
   ShoppingBag,
   CheckCircle2,
   Sparkles,
+  ZoomOut,
+  ChevronLeft,
+  ChevronRight,
+  RotateCcw,
 } from "lucide-react";
 
 interface ProductDetailProps {
@@ -29,12 +45,6 @@ interface ProductDetailProps {
 /* ================================
    TYPES & INTERFACES
 ================================= */
-type ProductApiResponse =
-  | { item: Product }
-  | { data: Product }
-  | { product: Product }
-  | Product;
-
 interface ImageLoadState {
   isLoaded: boolean;
   hasError: boolean;
@@ -46,49 +56,11 @@ interface ScrollPosition {
   y: number;
 }
 
-interface ApiError extends Error {
-  name: string;
-  message: string;
-  code?: string;
-  status?: number;
-}
-
 /* ================================
    HELPERS & UTILITIES
 ================================= */
-const isApiError = (error: unknown): error is ApiError => {
-  return error instanceof Error;
-};
-
 const extractErrorMessage = (error: unknown): string => {
-  if (isApiError(error)) {
-    return error.message || "Error al cargar el producto";
-  }
-  if (typeof error === "string") {
-    return error;
-  }
-  return "Error desconocido al cargar el producto";
-};
-
-const isAbortError = (error: unknown): boolean => {
-  return isApiError(error) && error.name === "AbortError";
-};
-
-const extractProductFromResponse = (
-  res: ProductApiResponse
-): Product | null => {
-  if (!res) return null;
-
-  const data =
-    "item" in res
-      ? res.item
-      : "data" in res
-      ? res.data
-      : "product" in res
-      ? res.product
-      : res;
-
-  return data ?? null;
+  return getErrorMessage(error, "Error al cargar el producto");
 };
 
 const getSafeAreaStyle = (): React.CSSProperties => {
@@ -297,66 +269,30 @@ const useKeyboardShortcuts = (callbacks: {
 };
 
 const useProductFetch = (productId: string | undefined) => {
-  const [product, setProduct] = useState<Product | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  const fetchProduct = useCallback(async () => {
-    if (!productId) {
-      setError("ID de producto no válido");
-      setIsLoading(false);
-      return;
-    }
-
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-
-    abortControllerRef.current = new AbortController();
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await apiFetch<ProductApiResponse>(
-        `/v1/products/${productId}`,
-        {
-          signal: abortControllerRef.current.signal,
-        }
-      );
-
-      const productData = extractProductFromResponse(response);
-
-      if (!productData) {
-        throw new Error("Producto no encontrado");
-      }
-
-      setProduct(productData);
-      setError(null);
-    } catch (err: unknown) {
-      if (isAbortError(err)) {
-        return;
-      }
-
-      const errorMessage = extractErrorMessage(err);
-      setError(errorMessage);
-      setProduct(null);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [productId]);
-
-  useEffect(() => {
-    fetchProduct();
-
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
+  const { data, isLoading, error, refetch } = useProductQuery(productId);
+
+  const handleRetry = useCallback(() => {
+    void refetch();
+  }, [refetch]);
+
+  if (!productId) {
+    return {
+      product: null,
+      isLoading: false,
+      error: "ID de producto no válido",
+      refetch: handleRetry,
     };
-  }, [fetchProduct]);
+  }
+
+  // 404 → estado "Producto no encontrado", sin botón de reintento
+  const notFound = isApiError(error) && error.isNotFound;
 
-  return { product, isLoading, error, refetch: fetchProduct };
+  return {
+    product: data ?? null,
+    isLoading,
+    error: error && !notFound ? extractErrorMessage(error) : null,
+    refetch: handleRetry,
+  };
 };
 
 const useViewportHeight = () => {
@@ -384,6 +320,127 @@ const useViewportHeight = () => {
   return vh;
 };
 
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.5;
+const SWIPE_THRESHOLD = 60;
+
+interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const clampZoom = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+/**
+ * Zoom con rueda, doble click o pellizco y paneo arrastrando.
+ * Sin zoom, un arrastre horizontal largo cuenta como swipe.
+ */
+const useZoomPan = (onSwipe: (direction: 1 | -1) => void) => {
+  const [zoom, setZoom] = useState<ZoomState>({ scale: 1, x: 0, y: 0 });
+  const targetRef = useRef<HTMLImageElement>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ startX: number; startY: number; distance: number; scale: number } | null>(null);
+
+  // El paneo no puede sacar la imagen de su propio marco
+  const clampOffset = useCallback((state: ZoomState): ZoomState => {
+    const el = targetRef.current;
+    if (!el || state.scale <= 1) return { scale: state.scale, x: 0, y: 0 };
+
+    const maxX = ((state.scale - 1) * el.offsetWidth) / 2;
+    const maxY = ((state.scale - 1) * el.offsetHeight) / 2;
+    return {
+      scale: state.scale,
+      x: Math.min(maxX, Math.max(-maxX, state.x)),
+      y: Math.min(maxY, Math.max(-maxY, state.y)),
+    };
+  }, []);
+
+  const setScale = useCallback(
+    (next: (scale: number) => number) => {
+      setZoom((prev) => clampOffset({ ...prev, scale: clampZoom(next(prev.scale)) }));
+    },
+    [clampOffset]
+  );
+
+  const reset = useCallback(() => setZoom({ scale: 1, x: 0, y: 0 }), []);
+
+  const distance = () => {
+    const [a, b] = Array.from(pointersRef.current.values());
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  };
+
+  const handlers = {
+    onWheel: (e: React.WheelEvent) => {
+      setScale((s) => (e.deltaY < 0 ? s * 1.15 : s / 1.15));
+    },
+    onDoubleClick: () => {
+      setScale((s) => (s > 1 ? 1 : 2.5));
+    },
+    onPointerDown: (e: React.PointerEvent) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      gestureRef.current = {
+        startX: e.clientX,
+        startY: e.clientY,
+        distance: distance(),
+        scale: zoom.scale,
+      };
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const prevPoint = pointersRef.current.get(e.pointerId);
+      if (!prevPoint || !gestureRef.current) return;
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (pointersRef.current.size === 2 && gestureRef.current.distance > 0) {
+        const ratio = distance() / gestureRef.current.distance;
+        const scale = clampZoom(gestureRef.current.scale * ratio);
+        setZoom((prev) => clampOffset({ ...prev, scale }));
+        return;
+      }
+
+      if (zoom.scale > 1) {
+        const dx = e.clientX - prevPoint.x;
+        const dy = e.clientY - prevPoint.y;
+        setZoom((prev) => clampOffset({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+      }
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      const gesture = gestureRef.current;
+      const wasSingle = pointersRef.current.size === 1;
+      pointersRef.current.delete(e.pointerId);
+
+      if (gesture && wasSingle && zoom.scale === 1) {
+        const dx = e.clientX - gesture.startX;
+        const dy = e.clientY - gesture.startY;
+        if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+          onSwipe(dx < 0 ? 1 : -1);
+        }
+      }
+
+      // Al soltar un dedo del pellizco, el otro sigue paneando desde su posición
+      gestureRef.current =
+        gesture && pointersRef.current.size
+          ? { ...gesture, distance: distance(), scale: zoom.scale }
+          : null;
+    },
+    onPointerCancel: (e: React.PointerEvent) => {
+      pointersRef.current.delete(e.pointerId);
+      if (!pointersRef.current.size) gestureRef.current = null;
+    },
+  };
+
+  return {
+    zoom,
+    targetRef,
+    handlers,
+    reset,
+    zoomIn: () => setScale((s) => s * ZOOM_STEP),
+    zoomOut: () => setScale((s) => s / ZOOM_STEP),
+  };
+};
+
 /* ================================
    SUB-COMPONENTS
 ================================= */
@@ -638,33 +695,70 @@ const ProductImage = ({
 
 const ImageModal = ({
   isOpen,
-  imageSrc,
+  images,
+  startIndex,
   imageAlt,
   onClose,
 }: {
   isOpen: boolean;
-  imageSrc: string;
+  images: string[];
+  startIndex: number;
   imageAlt: string;
   onClose: () => void;
 }) => {
   const modalRef = useRef<HTMLDivElement>(null);
   const { lockScroll, unlockScroll } = useScrollLock();
+  const [index, setIndex] = useState(startIndex);
+
+  const hasMany = images.length > 1;
+
+  const goTo = useCallback(
+    (direction: 1 | -1) => {
+      if (!hasMany) return;
+      setIndex((i) => (i + direction + images.length) % images.length);
+    },
+    [hasMany, images.length]
+  );
+
+  const { zoom, targetRef, handlers, reset, zoomIn, zoomOut } = useZoomPan(goTo);
 
   useFocusTrap(isOpen, modalRef);
   useViewportHeight();
 
   useEffect(() => {
     if (isOpen) {
+      setIndex(startIndex);
       lockScroll();
     } else {
       unlockScroll();
     }
-  }, [isOpen, lockScroll, unlockScroll]);
+  }, [isOpen, startIndex, lockScroll, unlockScroll]);
+
+  // Cada imagen arranca sin zoom
+  useEffect(() => {
+    reset();
+  }, [index, reset]);
 
   useKeyboardShortcuts({
     onEscape: onClose,
   });
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey) return;
+      if (e.key === "ArrowRight") goTo(1);
+      if (e.key === "ArrowLeft") goTo(-1);
+      if (e.key === "+" || e.key === "=") zoomIn();
+      if (e.key === "-") zoomOut();
+      if (e.key === "0") reset();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, goTo, zoomIn, zoomOut, reset]);
+
   const handleBackdropClick = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
       if (e.target === e.currentTarget) {
@@ -694,6 +788,9 @@ const ImageModal = ({
 
   if (!isOpen) return null;
 
+  const controlClass =
+    "w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-white/10 backdrop-blur-xl text-white border border-white/20 flex items-center justify-center transition-all duration-300 shadow-lg";
+
   return (
     <AnimatePresence>
       <motion.div
@@ -725,21 +822,87 @@ const ImageModal = ({
         </div>
 
         <motion.div
-          className="relative max-h-[85vh] max-w-[90vw] flex items-center justify-center"
+          className="relative max-h-[85vh] max-w-[90vw] flex items-center justify-center overflow-hidden rounded-2xl"
           initial={{ scale: 0.9, opacity: 0, y: 20 }}
           animate={{ scale: 1, opacity: 1, y: 0 }}
           exit={{ scale: 0.9, opacity: 0, y: 20 }}
           transition={{ duration: 0.4, ease: [0.16, 1, 0.3, 1] }}
         >
           <img
-            src={imageSrc}
-            alt={imageAlt}
-            className="max-h-[85vh] max-w-full object-contain rounded-2xl shadow-2xl"
+            key={images[index]}
+            ref={targetRef}
+            src={images[index]}
+            alt={hasMany ? `${imageAlt} (${index + 1} de ${images.length})` : imageAlt}
+            className={`max-h-[85vh] max-w-full object-contain rounded-2xl shadow-2xl select-none touch-none ${
+              zoom.scale > 1 ? "cursor-grab active:cursor-grabbing" : "cursor-zoom-in"
+            }`}
+            style={{
+              transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})`,
+              transition: "transform 80ms ease-out",
+            }}
             onClick={(e) => e.stopPropagation()}
             draggable={false}
+            {...handlers}
           />
         </motion.div>
 
+        {hasMany && (
+          <>
+            <button
+              type="button"
+              className={`${controlClass} fixed left-3 sm:left-6 top-1/2 -translate-y-1/2`}
+              onClick={() => goTo(-1)}
+              aria-label="Imagen anterior"
+            >
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+            <button
+              type="button"
+              className={`${controlClass} fixed right-3 sm:right-6 top-1/2 -translate-y-1/2`}
+              onClick={() => goTo(1)}
+              aria-label="Imagen siguiente"
+            >
+              <ChevronRight className="w-6 h-6" />
+            </button>
+          </>
+        )}
+
+        <div className="fixed top-4 left-4 sm:top-6 sm:left-6 flex items-center gap-2">
+          <button
+            type="button"
+            className={controlClass}
+            onClick={zoomOut}
+            disabled={zoom.scale <= MIN_ZOOM}
+            aria-label="Alejar"
+          >
+            <ZoomOut className="w-5 h-5" />
+          </button>
+          <button
+            type="button"
+            className={controlClass}
+            onClick={zoomIn}
+            disabled={zoom.scale >= MAX_ZOOM}
+            aria-label="Acercar"
+          >
+            <ZoomIn className="w-5 h-5" />
+          </button>
+          {zoom.scale > 1 && (
+            <button
+              type="button"
+              className={controlClass}
+              onClick={reset}
+              aria-label="Restablecer zoom"
+            >
+              <RotateCcw className="w-5 h-5" />
+            </button>
+          )}
+          {hasMany && (
+            <span className="ml-1 text-white/80 text-sm font-semibold tabular-nums bg-slate-900/60 backdrop-blur-xl rounded-full px-3 py-1.5 border border-white/10">
+              {index + 1} / {images.length}
+            </span>
+          )}
+        </div>
+
         <motion.button
           className="fixed top-4 right-4 sm:top-6 sm:right-6 w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-white/10 hover:bg-white/20 backdrop-blur-xl text-white border border-white/20 flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 shadow-lg"
           onClick={onClose}
@@ -762,8 +925,8 @@ const ImageModal = ({
         >
           <p className="text-white/80 text-sm font-medium bg-slate-900/60 backdrop-blur-xl rounded-full px-6 py-3 inline-block border border-white/10 shadow-xl">
             {isTouchDevice()
-              ? "Toca fuera de la imagen para cerrar"
-              : "Presiona ESC o haz clic fuera para cerrar"}
+              ? "Pellizca para hacer zoom · Toca fuera de la imagen para cerrar"
+              : "Doble clic o rueda para hacer zoom · ESC para cerrar"}
           </p>
         </motion.div>
       </motion.div>
@@ -771,39 +934,140 @@ const ImageModal = ({
   );
 };
 
+const ProductGallery = ({
+  images,
+  alt,
+  onOpen,
+}: {
+  images: string[];
+  alt: string;
+  onOpen: (index: number) => void;
+}) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setSelected(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  if (images.length === 1) {
+    return <ProductImage src={images[0]} alt={alt} onClick={() => onOpen(0)} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Carousel setApi={setApi} opts={{ loop: true }} className="group/gallery">
+        <CarouselContent>
+          {images.map((src, i) => (
+            <CarouselItem key={src}>
+              <ProductImage
+                src={src}
+                alt={`${alt} (${i + 1} de ${images.length})`}
+                onClick={() => onOpen(i)}
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-3 h-10 w-10 bg-slate-900/70 text-white border-white/20 hover:bg-slate-900/90 hover:text-white opacity-0 group-hover/gallery:opacity-100 focus:opacity-100 transition-opacity" />
+        <CarouselNext className="right-3 h-10 w-10 bg-slate-900/70 text-white border-white/20 hover:bg-slate-900/90 hover:text-white opacity-0 group-hover/gallery:opacity-100 focus:opacity-100 transition-opacity" />
+      </Carousel>
+
+      {/* Thumbnail strip */}
+      <div className="flex gap-3 overflow-x-auto pb-1" role="tablist" aria-label="Imágenes del producto">
+        {images.map((src, i) => (
+          <button
+            key={src}
+            type="button"
+            role="tab"
+            aria-selected={i === selected}
+            aria-label={`Ver imagen ${i + 1}`}
+            onClick={() => api?.scrollTo(i)}
+            className={`shrink-0 w-16 h-16 sm:w-20 sm:h-20 rounded-xl overflow-hidden bg-white border-2 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-violet-400/50 ${
+              i === selected
+                ? "border-violet-400 shadow-lg shadow-violet-500/20"
+                : "border-slate-700/50 opacity-60 hover:opacity-100"
+            }`}
+          >
+            <img src={src} alt="" className="w-full h-full object-contain p-1" loading="lazy" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const AddToCartButton = ({
   product,
-  inCart,
+  cartQuantity,
   onAdd,
+  onQuantityChange,
 }: {
   product: Product;
-  inCart: boolean;
-  onAdd: (product: Product) => void;
+  cartQuantity: number;
+  onAdd: (product: Product, quantity: number) => void;
+  onQuantityChange: (quantity: number) => void;
 }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [draftQuantity, setDraftQuantity] = useState(1);
+
+  const inCart = cartQuantity > 0;
+  const maxQuantity = getMaxQuantity(product);
+
+  // Antes de agregar, el stepper elige la cantidad; después edita la del carrito
+  const quantity = inCart ? cartQuantity : draftQuantity;
+  const handleQuantityChange = inCart ? onQuantityChange : setDraftQuantity;
 
   const handleClick = useCallback(() => {
     if (isAdding || inCart || !product.inStock) return;
 
     setIsAdding(true);
-    onAdd(product);
+    onAdd(product, draftQuantity);
 
     setTimeout(() => {
       setIsAdding(false);
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 2000);
     }, 600);
-  }, [isAdding, inCart, product, onAdd]);
+  }, [isAdding, inCart, product, onAdd, draftQuantity]);
 
   const isDisabled = !product.inStock || inCart || isAdding;
 
   return (
     <motion.div
+      className="space-y-4"
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: 0.4 }}
     >
+      {product.inStock && (
+        <div className="flex items-center justify-between gap-4 bg-slate-800/30 backdrop-blur-xl border border-slate-700/40 rounded-2xl px-5 py-3">
+          <div>
+            <p className="text-sm font-semibold text-white">Cantidad</p>
+            {product.stockQty != null && (
+              <p className="text-xs text-slate-400">
+                {maxQuantity} disponible{maxQuantity === 1 ? "" : "s"}
+              </p>
+            )}
+          </div>
+          <QuantityStepper
+            value={quantity}
+            max={maxQuantity}
+            onChange={handleQuantityChange}
+            disabled={isAdding}
+            size="lg"
+          />
+        </div>
+      )}
+
       <motion.button
         disabled={isDisabled}
         onClick={handleClick}
@@ -864,7 +1128,7 @@ const AddToCartButton = ({
                 exit={{ opacity: 0, scale: 0.8 }}
               >
                 <CheckCircle2 className="w-5 h-5" />
-                En Consulta
+                En Consulta · {cartQuantity}
               </motion.div>
             ) : (
               <motion.div
@@ -896,16 +1160,15 @@ const ProductDetail = ({
   const { id: paramId } = useParams<{ id: string }>();
   const productId = useMemo(() => id || paramId, [id, paramId]);
 
-  const { addToCart, isInCart } = useCart();
+  const { addToCart, getQuantity, updateQuantity } = useCart();
   const { product, isLoading, error, refetch } = useProductFetch(productId);
 
-  const [isImageModalOpen, setIsImageModalOpen] = useState(false);
+  const [modalIndex, setModalIndex] = useState<number | null>(null);
+  const isImageModalOpen = modalIndex !== null;
 
   useViewportHeight();
 
-  const inCart = useMemo(() => {
-    return product ? isInCart(product.id) : false;
-  }, [product, isInCart]);
+  const cartQuantity = product ? getQuantity(product.id) : 0;
 
   const handleBack = useCallback(() => {
     if (onNavigateBack) {
@@ -917,22 +1180,32 @@ const ProductDetail = ({
     }
   }, [onNavigateBack, onNavigateCatalog]);
 
-  const handleOpenModal = useCallback(() => {
-    if (!product?.image) return;
-    setIsImageModalOpen(true);
-  }, [product]);
+  const handleOpenModal = useCallback(
+    (index: number) => {
+      if (!product?.images.length) return;
+      setModalIndex(index);
+    },
+    [product]
+  );
 
   const handleCloseModal = useCallback(() => {
-    setIsImageModalOpen(false);
+    setModalIndex(null);
   }, []);
 
   const handleAddToCart = useCallback(
-    (prod: Product) => {
-      addToCart(prod);
+    (prod: Product, quantity: number) => {
+      addToCart(prod, quantity);
     },
     [addToCart]
   );
 
+  const handleQuantityChange = useCallback(
+    (quantity: number) => {
+      if (product) updateQuantity(product.id, quantity);
+    },
+    [product, updateQuantity]
+  );
+
   useKeyboardShortcuts({
     onEscape: isImageModalOpen ? handleCloseModal : undefined,
     onBack: handleBack,
@@ -1033,11 +1306,11 @@ const ProductDetail = ({
           >
             {/* Image Section */}
             <div className="relative">
-              {product.image ? (
-                <ProductImage
-                  src={product.image}
+              {product.images.length > 0 ? (
+                <ProductGallery
+                  images={product.images}
                   alt={product.name}
-                  onClick={handleOpenModal}
+                  onOpen={handleOpenModal}
                 />
               ) : (
                 <motion.div
@@ -1059,7 +1332,7 @@ const ProductDetail = ({
 
             {/* Product Info Section */}
             <div className="space-y-6">
-              {/* Title & Stock */}
+              {/* Title, Price & Stock */}
               <motion.div
                 className="space-y-4"
                 initial={{ opacity: 0, y: 20 }}
@@ -1070,6 +1343,8 @@ const ProductDetail = ({
                   {product.name}
                 </h1>
 
+                <PriceTag product={product} size="lg" className="block" />
+
                 <StockBadge inStock={product.inStock} />
               </motion.div>
 
@@ -1104,8 +1379,9 @@ const ProductDetail = ({
               {/* Add to Cart Button */}
               <AddToCartButton
                 product={product}
-                inCart={inCart}
+                cartQuantity={cartQuantity}
                 onAdd={handleAddToCart}
+                onQuantityChange={handleQuantityChange}
               />
 
               {/* Image hint */}
@@ -1117,6 +1393,7 @@ const ProductDetail = ({
                   transition={{ delay: 0.5 }}
                 >
                   💡 Toca la imagen para verla en tamaño completo
+                  {product.images.length > 1 && " · Desliza para ver las otras fotos"}
                 </motion.p>
               )}
 
@@ -1144,7 +1421,8 @@ const ProductDetail = ({
       {product && (
         <ImageModal
           isOpen={isImageModalOpen}
-          imageSrc={product.image || ""}
+          images={product.images}
+          startIndex={modalIndex ?? 0}
           imageAlt={product.name}
           onClose={handleCloseModal}
         />
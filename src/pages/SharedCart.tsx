@@ -0,0 +1,307 @@
+import { useCallback, useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Link2,
+  Loader2,
+  Package,
+  ShoppingBag,
+} from "lucide-react";
+
+import Navbar from "@/components/Navbar";
+import CartDrawer from "@/components/CartDrawer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useCart, CartImportEntry } from "@/context/CartContext";
+import { useProductsByIds } from "@/hooks/use-catalog-queries";
+import { parseShareItems } from "@/lib/cart-share";
+import { getMaxQuantity } from "@/lib/cart";
+import { getErrorMessage, isApiError } from "@/config/api";
+import { Product } from "@/types/product";
+
+/* ================================
+   TYPES & INTERFACES
+================================= */
+type PreviewStatus = "loading" | "ok" | "capped" | "out_of_stock" | "not_found" | "error";
+
+interface PreviewRow {
+  productId: string;
+  requested: number;
+  quantity: number;
+  product: Product | null;
+  status: PreviewStatus;
+  error?: string;
+}
+
+const STATUS_LABELS: Partial<Record<PreviewStatus, string>> = {
+  capped: "Cantidad ajustada al stock",
+  out_of_stock: "Sin stock",
+  not_found: "Ya no existe",
+  error: "No se pudo cargar",
+};
+
+/* ================================
+   SUB-COMPONENTS
+================================= */
+const PreviewItem = ({ row }: { row: PreviewRow }) => {
+  const label = STATUS_LABELS[row.status];
+  const isSkipped = row.status === "out_of_stock" || row.status === "not_found" || row.status === "error";
+
+  return (
+    <div
+      className={`flex items-center gap-4 p-3.5 rounded-xl bg-slate-800/40 border ${
+        isSkipped ? "border-amber-500/30 opacity-70" : "border-slate-700/50"
+      }`}
+    >
+      <div className="w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden border border-slate-600/50 bg-slate-800 flex items-center justify-center">
+        {row.product?.image ? (
+          <img
+            src={row.product.image}
+            alt={row.product.name}
+            className="w-full h-full object-cover"
+            loading="lazy"
+            decoding="async"
+          />
+        ) : row.status === "loading" ? (
+          <Loader2 className="w-6 h-6 text-slate-500 animate-spin" />
+        ) : (
+          <Package className="w-6 h-6 text-slate-500" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <p className="font-semibold text-sm text-white line-clamp-2">
+          {row.product?.name ?? (row.status === "loading" ? "Cargando…" : `Producto ${row.productId}`)}
+        </p>
+        <div className="flex flex-wrap gap-1.5">
+          {row.product?.category && (
+            <Badge
+              variant="secondary"
+              className="text-xs bg-violet-500/15 text-violet-300 border-violet-500/25"
+            >
+              {row.product.category}
+            </Badge>
+          )}
+          {label && (
+            <Badge
+              className="text-xs bg-amber-500/15 text-amber-300 border-amber-500/30 hover:bg-amber-500/15"
+              title={row.error}
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {label}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="text-right flex-shrink-0">
+        <p className="text-lg font-bold text-white tabular-nums">×{isSkipped ? 0 : row.quantity}</p>
+        {row.status === "capped" && (
+          <p className="text-[11px] text-slate-400">pedido: {row.requested}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/* ================================
+   MAIN COMPONENT
+================================= */
+const SharedCart = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { importItems, lineCount } = useCart();
+
+  const [cartOpen, setCartOpen] = useState(false);
+  const [imported, setImported] = useState(false);
+
+  const lines = useMemo(() => parseShareItems(searchParams.get("items")), [searchParams]);
+  const queries = useProductsByIds(lines.map((line) => line.productId));
+
+  const rows = useMemo<PreviewRow[]>(
+    () =>
+      lines.map((line, index) => {
+        const query = queries[index];
+        const base = { productId: line.productId, requested: line.quantity, quantity: 0, product: null };
+
+        if (!query || query.isPending) return { ...base, status: "loading" };
+
+        if (query.isError) {
+          if (isApiError(query.error) && query.error.isNotFound) {
+            return { ...base, status: "not_found" };
+          }
+          return { ...base, status: "error", error: getErrorMessage(query.error) };
+        }
+
+        const product = query.data;
+        if (!product.inStock) return { ...base, product, status: "out_of_stock" };
+
+        const quantity = Math.min(line.quantity, getMaxQuantity(product));
+        return {
+          ...base,
+          product,
+          quantity,
+          status: quantity < line.quantity ? "capped" : "ok",
+        };
+      }),
+    [lines, queries]
+  );
+
+  const isLoading = rows.some((row) => row.status === "loading");
+
+  const importable = useMemo<CartImportEntry[]>(
+    () =>
+      rows
+        .filter((row) => row.product && (row.status === "ok" || row.status === "capped"))
+        .map((row) => ({ product: row.product as Product, quantity: row.quantity })),
+    [rows]
+  );
+
+  const totalUnits = importable.reduce((total, entry) => total + entry.quantity, 0);
+  const skippedCount = rows.filter((row) => !row.product || row.status === "out_of_stock").length;
+
+  const handleImport = useCallback(
+    (replace: boolean) => {
+      importItems(importable, { replace });
+      setImported(true);
+      setCartOpen(true);
+
+      toast({
+        description: (
+          <div className="flex items-center gap-3">
+            <CheckCircle2 className="w-5 h-5 text-emerald-400" />
+            <p className="text-sm font-semibold text-white">
+              {importable.length} {importable.length === 1 ? "producto agregado" : "productos agregados"}
+            </p>
+          </div>
+        ),
+        duration: 2000,
+        className: "bg-slate-900/95 backdrop-blur-md border border-emerald-500/40",
+      });
+    },
+    [importItems, importable, toast]
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-slate-950 text-white relative overflow-hidden">
+      <Navbar onCartClick={() => setCartOpen(true)} />
+
+      <main className="relative max-w-2xl mx-auto px-6 pt-28 pb-24">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-6"
+        >
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-gradient-to-br from-violet-500/10 to-fuchsia-500/10 border border-violet-500/20">
+              <Link2 className="w-5 h-5 text-violet-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold">Consulta compartida</h1>
+              <p className="text-sm text-slate-400">
+                Revisá los productos antes de sumarlos a tu consulta
+              </p>
+            </div>
+          </div>
+
+          {lines.length === 0 ? (
+            <div className="p-8 rounded-2xl bg-slate-800/30 border border-slate-700/50 text-center space-y-4">
+              <p className="text-slate-300">El link no contiene productos válidos.</p>
+              <Button asChild variant="outline" className="bg-transparent">
+                <Link to="/catalogo">Ir al catálogo</Link>
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2.5">
+                {rows.map((row) => (
+                  <PreviewItem key={row.productId} row={row} />
+                ))}
+              </div>
+
+              {!isLoading && skippedCount > 0 && (
+                <p className="text-sm text-amber-200 bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3">
+                  {skippedCount === 1
+                    ? "1 producto no está disponible y no se va a agregar."
+                    : `${skippedCount} productos no están disponibles y no se van a agregar.`}
+                </p>
+              )}
+
+              {imported ? (
+                <div className="flex flex-col sm:flex-row gap-2.5">
+                  <Button
+                    size="lg"
+                    onClick={() => setCartOpen(true)}
+                    className="flex-1 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white border-0"
+                  >
+                    <ShoppingBag className="w-5 h-5 mr-2" />
+                    Ver mi consulta
+                  </Button>
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={() => navigate("/catalogo")}
+                    className="flex-1 bg-slate-800/40 border-slate-700/50 text-slate-300"
+                  >
+                    Seguir en el catálogo
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2.5">
+                  {lineCount > 0 && (
+                    <p className="text-xs text-slate-400">
+                      Ya tenés {lineCount} {lineCount === 1 ? "producto" : "productos"} en tu consulta.
+                      Al agregar se suman las cantidades.
+                    </p>
+                  )}
+
+                  <Button
+                    size="lg"
+                    disabled={isLoading || importable.length === 0}
+                    onClick={() => handleImport(false)}
+                    className="w-full h-14 text-base font-semibold bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white border-0 shadow-lg shadow-violet-500/30"
+                  >
+                    {isLoading ? (
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    ) : (
+                      <ShoppingBag className="w-5 h-5 mr-2" />
+                    )}
+                    Agregar a mi consulta ({totalUnits} {totalUnits === 1 ? "unidad" : "unidades"})
+                  </Button>
+
+                  <div className="flex flex-col sm:flex-row gap-2.5">
+                    {lineCount > 0 && (
+                      <Button
+                        variant="outline"
+                        disabled={isLoading || importable.length === 0}
+                        onClick={() => handleImport(true)}
+                        className="flex-1 bg-slate-800/40 border-slate-700/50 text-slate-300 hover:text-white"
+                      >
+                        Reemplazar mi consulta
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      onClick={() => navigate("/catalogo")}
+                      className="flex-1 text-slate-400 hover:text-white"
+                    >
+                      Cancelar
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </motion.div>
+      </main>
+
+      <CartDrawer isOpen={cartOpen} onClose={() => setCartOpen(false)} />
+    </div>
+  );
+};
+
+export default SharedCart;
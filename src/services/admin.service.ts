@@ -0,0 +1,252 @@
+import { apiFetch } from "@/config/api";
+import { Product } from "@/types/product";
+import { Category } from "@/types/categories";
+import { Collection } from "@/types/collections";
+import { Consultation, ConsultationStatus } from "@/types/consultations";
+import {
+  CategoryApiDTO,
+  CategoryPayload,
+  CollectionApiDTO,
+  CollectionPayload,
+  ConsultationApiDTO,
+  PaginatedResponse,
+  ProductApiDTO,
+  ProductImagesResponse,
+  ProductPayload,
+  ReassignOptions,
+} from "@/types/api";
+import {
+  mapCategoryFromApi,
+  mapCollectionFromApi,
+  mapConsultationFromApi,
+  mapProductFromApi,
+} from "@/services/mappers";
+
+/* =======================
+   Constants
+   ======================= */
+const ADMIN_PAGE_SIZE = 50;
+
+/* =======================
+   Service
+   ======================= */
+export async function listAdminProducts(
+  page: number,
+  limit: number = ADMIN_PAGE_SIZE
+): Promise<Product[]> {
+  const res = await apiFetch<PaginatedResponse<ProductApiDTO>>(
+    `/v1/admin/products?page=${page}&limit=${limit}`,
+    { auth: true }
+  );
+  return (res?.items ?? []).map(mapProductFromApi);
+}
+
+/** Recorre todas las páginas del listado admin */
+export async function fetchAllAdminProducts(): Promise<Product[]> {
+  const all: Product[] = [];
+  let page = 1;
+
+  while (true) {
+    const items = await listAdminProducts(page, ADMIN_PAGE_SIZE);
+    all.push(...items);
+    if (items.length < ADMIN_PAGE_SIZE) break;
+    page++;
+  }
+
+  return all;
+}
+
+export async function createProduct(payload: ProductPayload): Promise<Product> {
+  const created = await apiFetch<ProductApiDTO>("/v1/admin/products", {
+    method: "POST",
+    auth: true,
+    body: JSON.stringify(payload),
+  });
+  return mapProductFromApi(created);
+}
+
+export async function updateProduct(
+  id: string,
+  payload: ProductPayload
+): Promise<Product> {
+  const updated = await apiFetch<ProductApiDTO>(`/v1/admin/products/${id}`, {
+    method: "PUT",
+    auth: true,
+    body: JSON.stringify(payload),
+  });
+  return mapProductFromApi(updated);
+}
+
+export async function deleteProduct(id: string): Promise<void> {
+  await apiFetch<void>(`/v1/admin/products/${id}`, {
+    method: "DELETE",
+    auth: true,
+  });
+}
+
+export async function uploadProductImage(id: string, file: File): Promise<void> {
+  const fd = new FormData();
+  fd.append("image", file);
+
+  await apiFetch<void>(`/v1/admin/products/${id}/image`, {
+    method: "POST",
+    auth: true,
+    body: fd,
+  });
+}
+
+/** Agrega imágenes al final de la galería; devuelve la galería completa */
+export async function uploadProductImages(id: string, files: File[]): Promise<string[]> {
+  const fd = new FormData();
+  files.forEach((file) => fd.append("images", file));
+
+  const res = await apiFetch<ProductImagesResponse>(`/v1/admin/products/${id}/images`, {
+    method: "POST",
+    auth: true,
+    body: fd,
+  });
+  return res.images;
+}
+
+/** Reordena o quita imágenes: la galería queda exactamente como `images` (la primera es la portada) */
+export async function setProductImages(id: string, images: string[]): Promise<string[]> {
+  const res = await apiFetch<ProductImagesResponse>(`/v1/admin/products/${id}/images`, {
+    method: "PUT",
+    auth: true,
+    body: JSON.stringify({ images }),
+  });
+  return res.images;
+}
+
+/* =======================
+   Categories
+   ======================= */
+function reassignQuery({ reassignTo }: ReassignOptions): string {
+  if (reassignTo === undefined) return "";
+  return `?reassignTo=${encodeURIComponent(reassignTo ?? "none")}`;
+}
+
+export async function createCategory(payload: CategoryPayload): Promise<Category> {
+  const created = await apiFetch<CategoryApiDTO>("/v1/admin/categories", {
+    method: "POST",
+    auth: true,
+    body: JSON.stringify(payload),
+  });
+  return mapCategoryFromApi(created);
+}
+
+export async function updateCategory(id: string, payload: CategoryPayload): Promise<Category> {
+  const updated = await apiFetch<CategoryApiDTO>(`/v1/admin/categories/${id}`, {
+    method: "PUT",
+    auth: true,
+    body: JSON.stringify(payload),
+  });
+  return mapCategoryFromApi(updated);
+}
+
+export async function deleteCategory(id: string, options: ReassignOptions = {}): Promise<void> {
+  await apiFetch<void>(`/v1/admin/categories/${id}${reassignQuery(options)}`, {
+    method: "DELETE",
+    auth: true,
+  });
+}
+
+/** Guarda el orden en que se muestran (ids en el orden nuevo) */
+export async function reorderCategories(ids: string[]): Promise<void> {
+  await apiFetch<void>("/v1/admin/categories/order", {
+    method: "PUT",
+    auth: true,
+    body: JSON.stringify({ ids }),
+  });
+}
+
+/* =======================
+   Collections
+   ======================= */
+export async function createCollection(payload: CollectionPayload): Promise<Collection> {
+  const created = await apiFetch<CollectionApiDTO>("/v1/admin/collections", {
+    method: "POST",
+    auth: true,
+    body: JSON.stringify(payload),
+  });
+  return mapCollectionFromApi(created);
+}
+
+export async function updateCollection(
+  id: string,
+  payload: CollectionPayload
+): Promise<Collection> {
+  const updated = await apiFetch<CollectionApiDTO>(`/v1/admin/collections/${id}`, {
+    method: "PUT",
+    auth: true,
+    body: JSON.stringify(payload),
+  });
+  return mapCollectionFromApi(updated);
+}
+
+export async function deleteCollection(id: string, options: ReassignOptions = {}): Promise<void> {
+  await apiFetch<void>(`/v1/admin/collections/${id}${reassignQuery(options)}`, {
+    method: "DELETE",
+    auth: true,
+  });
+}
+
+export async function reorderCollections(ids: string[]): Promise<void> {
+  await apiFetch<void>("/v1/admin/collections/order", {
+    method: "PUT",
+    auth: true,
+    body: JSON.stringify({ ids }),
+  });
+}
+
+export async function uploadCollectionImage(id: string, file: File): Promise<void> {
+  const fd = new FormData();
+  fd.append("image", file);
+
+  await apiFetch<void>(`/v1/admin/collections/${id}/image`, {
+    method: "POST",
+    auth: true,
+    body: fd,
+  });
+}
+
+/* =======================
+   Consultations
+   ======================= */
+export async function listAdminConsultations(
+  page: number,
+  limit: number = ADMIN_PAGE_SIZE
+): Promise<Consultation[]> {
+  const res = await apiFetch<PaginatedResponse<ConsultationApiDTO>>(
+    `/v1/admin/consultations?page=${page}&limit=${limit}`,
+    { auth: true }
+  );
+  return (res?.items ?? []).map(mapConsultationFromApi);
+}
+
+/** Recorre todas las páginas; el filtrado se hace en el panel */
+export async function fetchAllAdminConsultations(): Promise<Consultation[]> {
+  const all: Consultation[] = [];
+  let page = 1;
+
+  while (true) {
+    const items = await listAdminConsultations(page, ADMIN_PAGE_SIZE);
+    all.push(...items);
+    if (items.length < ADMIN_PAGE_SIZE) break;
+    page++;
+  }
+
+  return all;
+}
+
+export async function updateConsultationStatus(
+  id: string,
+  status: ConsultationStatus
+): Promise<Consultation> {
+  const updated = await apiFetch<ConsultationApiDTO>(`/v1/admin/consultations/${id}`, {
+    method: "PATCH",
+    auth: true,
+    body: JSON.stringify({ status }),
+  });
+  return mapConsultationFromApi(updated);
+}
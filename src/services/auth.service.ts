@@ -0,0 +1,15 @@
+import { apiFetch } from "@/config/api";
+import { LoginResponse } from "@/types/api";
+
+/* =======================
+   Service
+   ======================= */
+export async function login(
+  email: string,
+  password: string
+): Promise<LoginResponse> {
+  return apiFetch<LoginResponse>("/v1/auth/login", {
+    method: "POST",
+    body: JSON.stringify({ email, password }),
+  });
+}
@@ -0,0 +1,16 @@
+import { apiFetch } from "@/config/api";
+import { Category } from "@/types/categories";
+import { CategoryApiDTO, RequestOptions } from "@/types/api";
+import { mapCategoryFromApi } from "@/services/mappers";
+
+/* =======================
+   Service
+   ======================= */
+export async function listCategories(
+  { collection }: { collection?: string | null } = {},
+  { signal }: RequestOptions = {}
+): Promise<Category[]> {
+  const qs = collection ? `?collection=${encodeURIComponent(collection)}` : "";
+  const res = await apiFetch<CategoryApiDTO[]>(`/v1/categories${qs}`, { signal });
+  return (res ?? []).map(mapCategoryFromApi);
+}
@@ -0,0 +1,14 @@
+import { apiFetch } from "@/config/api";
+import { Collection } from "@/types/collections";
+import { CollectionApiDTO, RequestOptions } from "@/types/api";
+import { mapCollectionFromApi } from "@/services/mappers";
+
+/* =======================
+   Service
+   ======================= */
+export async function listCollections(
+  { signal }: RequestOptions = {}
+): Promise<Collection[]> {
+  const res = await apiFetch<CollectionApiDTO[]>("/v1/collections", { signal });
+  return (res ?? []).map(mapCollectionFromApi);
+}
@@ -1,4 +1,5 @@
 import { apiFetch } from "@/config/api";
+import type { DeliveryPreference } from "@/lib/consultation";
 
 /* =======================
    Types
@@ -6,6 +7,13 @@ import { apiFetch } from "@/config/api";
 export interface ConsultationItemPayload {
   productId: string;
   qty: number;
+  note?: string;
+}
+
+export interface ConsultationContact {
+  name?: string;
+  city?: string;
+  delivery?: DeliveryPreference;
 }
 
 export interface ConsultationResponse {
@@ -15,8 +23,11 @@ export interface ConsultationResponse {
 /* =======================
    Service
    ======================= */
+/** `createdAt` solo al reenviar una consulta encolada: conserva la fecha original */
 export async function createConsultation(
-  items: ConsultationItemPayload[]
+  items: ConsultationItemPayload[],
+  contact?: ConsultationContact,
+  createdAt?: string
 ): Promise<ConsultationResponse> {
   if (!items.length) {
     throw new Error("No hay productos para consultar");
@@ -24,6 +35,10 @@ export async function createConsultation(
 
   return apiFetch<ConsultationResponse>("/v1/consultations", {
     method: "POST",
-    body: JSON.stringify({ items }),
+    body: JSON.stringify({
+      items,
+      ...(contact ? { contact } : {}),
+      ...(createdAt ? { createdAt } : {}),
+    }),
   });
 }
@@ -0,0 +1,89 @@
+import { Product } from "@/types/product"
+import { DEFAULT_CURRENCY } from "@/lib/price"
+import { Category } from "@/types/categories"
+import { Collection } from "@/types/collections"
+import { Consultation, ConsultationStatus } from "@/types/consultations"
+import {
+  CategoryApiDTO,
+  CollectionApiDTO,
+  ConsultationApiDTO,
+  ProductApiDTO,
+} from "@/types/api"
+
+/* =======================
+   Mappers backend → frontend
+======================= */
+export function mapProductFromApi(p: ProductApiDTO): Product {
+  const images = p.images?.length ? p.images : p.image ? [p.image] : []
+
+  return {
+    id: p.id,
+    name: p.name,
+    image: images[0] ?? "",
+    images,
+    description: p.description ?? "",
+    inStock: p.inStock,
+    stockQty: p.stockQty ?? null,
+
+    // Nombre para mostrar, slug para filtrar
+    category: p.category ?? null,
+    categorySlug: p.categorySlug ?? null,
+
+    collection: p.collection ?? null,
+    collectionSlug: p.collectionSlug ?? null,
+
+    // Backends sin precios: todo queda "a consultar"
+    listPrice: p.listPrice ?? null,
+    salePrice: p.salePrice ?? null,
+    currency: p.currency || DEFAULT_CURRENCY,
+    priceOnRequest: p.priceOnRequest ?? false,
+
+    createdAt: p.createdAt ?? null,
+  }
+}
+
+export function mapCategoryFromApi(c: CategoryApiDTO): Category {
+  return {
+    id: c.id,
+    name: c.name,
+    slug: c.slug,
+  }
+}
+
+export function mapCollectionFromApi(c: CollectionApiDTO): Collection {
+  return {
+    id: c.id,
+    name: c.name,
+    slug: c.slug,
+    description: c.description ?? undefined,
+    imageUrl: c.imageUrl ?? undefined,
+    productsCount: c.productsCount ?? 0,
+  }
+}
+
+const CONSULTATION_STATUSES: ConsultationStatus[] = ["new", "answered", "sold", "discarded"]
+
+export function mapConsultationFromApi(c: ConsultationApiDTO): Consultation {
+  const status = CONSULTATION_STATUSES.find((s) => s === c.status) ?? "new"
+  const contact = c.contact
+    ? {
+        name: c.contact.name ?? undefined,
+        city: c.contact.city ?? undefined,
+        delivery: c.contact.delivery ?? undefined,
+      }
+    : undefined
+
+  return {
+    id: c.id,
+    createdAt: c.createdAt,
+    status,
+    items: (c.items ?? []).map((item) => ({
+      productId: item.productId,
+      name: item.name ?? item.productId,
+      qty: item.qty,
+      note: item.note ?? undefined,
+    })),
+    contact,
+    message: c.whatsappMessage ?? "",
+  }
+}
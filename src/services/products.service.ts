@@ -0,0 +1,162 @@
+import { ApiError, apiFetch } from "@/config/api";
+import { Product } from "@/types/product";
+import {
+  ProductDetailResponse,
+  ProductFacetsResponse,
+  ProductListResponse,
+  RequestOptions,
+} from "@/types/api";
+import { mapProductFromApi } from "@/services/mappers";
+
+/* =======================
+   Types
+   ======================= */
+export const PRODUCT_SORTS = [
+  "newest",
+  "name-asc",
+  "name-desc",
+  "in-stock",
+  "price-asc",
+  "price-desc",
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+/** Orden que aplica el backend si no se manda sort */
+export const DEFAULT_PRODUCT_SORT: ProductSort = "newest";
+
+export const isProductSort = (value: unknown): value is ProductSort =>
+  PRODUCT_SORTS.includes(value as ProductSort);
+
+export interface ProductListQuery {
+  /** Varios slugs se combinan con OR */
+  category?: string | string[] | null;
+  collection?: string | string[] | null;
+  search?: string;
+  inStock?: boolean;
+  featured?: boolean;
+  /** Rango sobre el precio efectivo (oferta si hay); excluye los productos sin precio */
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  /**
+   * Moneda del rango y del orden por precio: los productos con precio en otra
+   * moneda no entran al rango y van al final. Sin valor, la moneda de la tienda.
+   */
+  currency?: string | null;
+  sort?: ProductSort | null;
+  page?: number;
+  limit?: number;
+}
+
+export interface ProductList {
+  items: Product[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/** Los conteos no dependen de la página ni del orden */
+export type ProductFacetsQuery = Omit<ProductListQuery, "page" | "limit" | "sort">;
+
+export interface ProductFacetOption {
+  slug: string;
+  name: string;
+  /** null si el backend no informa conteos */
+  count: number | null;
+}
+
+export interface ProductFacets {
+  collections: ProductFacetOption[];
+  categories: ProductFacetOption[];
+  total: number | null;
+}
+
+/* =======================
+   Helpers
+   ======================= */
+export function buildProductQuery(query: ProductListQuery): string {
+  const p = new URLSearchParams();
+  for (const slug of [query.category ?? []].flat()) p.append("category", slug);
+  for (const slug of [query.collection ?? []].flat()) p.append("collection", slug);
+  if (query.search) p.set("search", query.search);
+  if (query.inStock) p.set("inStock", "true");
+  if (query.featured) p.set("featured", "true");
+  if (query.minPrice != null) p.set("minPrice", String(query.minPrice));
+  if (query.maxPrice != null) p.set("maxPrice", String(query.maxPrice));
+  if (query.currency) p.set("currency", query.currency);
+  if (query.sort && query.sort !== DEFAULT_PRODUCT_SORT) p.set("sort", query.sort);
+  if (query.page) p.set("page", String(query.page));
+  if (query.limit) p.set("limit", String(query.limit));
+  return p.toString();
+}
+
+const unwrapProduct = (res: ProductDetailResponse) => {
+  if (!res) return null;
+  if ("item" in res) return res.item;
+  if ("data" in res) return res.data;
+  if ("product" in res) return res.product;
+  return res;
+};
+
+/* =======================
+   Service
+   ======================= */
+export async function listProducts(
+  query: ProductListQuery = {},
+  { signal }: RequestOptions = {}
+): Promise<ProductList> {
+  const qs = buildProductQuery(query);
+  const res = await apiFetch<ProductListResponse>(
+    `/v1/products${qs ? `?${qs}` : ""}`,
+    { signal }
+  );
+
+  if (!res || !Array.isArray(res.items)) {
+    throw new ApiError("Respuesta inválida del backend", { code: "INVALID_RESPONSE" });
+  }
+
+  return {
+    items: res.items.map(mapProductFromApi),
+    total: res.total ?? res.items.length,
+    page: res.page ?? query.page ?? 1,
+    limit: res.limit ?? query.limit ?? res.items.length,
+  };
+}
+
+export async function getProduct(
+  id: string,
+  { signal }: RequestOptions = {}
+): Promise<Product> {
+  const res = await apiFetch<ProductDetailResponse>(
+    `/v1/products/${encodeURIComponent(id)}`,
+    { signal }
+  );
+
+  const dto = unwrapProduct(res);
+  if (!dto) {
+    throw new ApiError("Producto no encontrado", { status: 404 });
+  }
+
+  return mapProductFromApi(dto);
+}
+
+export async function getProductFacets(
+  query: ProductFacetsQuery = {},
+  { signal }: RequestOptions = {}
+): Promise<ProductFacets> {
+  const qs = buildProductQuery(query);
+  const res = await apiFetch<ProductFacetsResponse>(
+    `/v1/products/facets${qs ? `?${qs}` : ""}`,
+    { signal }
+  );
+
+  if (!res || !Array.isArray(res.collections) || !Array.isArray(res.categories)) {
+    throw new ApiError("Respuesta inválida del backend", { code: "INVALID_RESPONSE" });
+  }
+
+  return {
+    collections: res.collections,
+    categories: res.categories,
+    total: res.total ?? null,
+  };
+}
@@ -0,0 +1,142 @@
+/* =======================
+   DTOs del backend (/v1)
+======================= */
+export interface RequestOptions {
+  signal?: AbortSignal
+}
+
+export interface ProductApiDTO {
+  id: string
+  name: string
+  image?: string | null
+  /** Galería ordenada (la primera es la portada); backends viejos solo mandan image */
+  images?: string[] | null
+  description?: string | null
+  inStock: boolean
+  stockQty?: number | null
+
+  category?: string | null
+  categorySlug?: string | null
+
+  collection?: string | null
+  collectionSlug?: string | null
+
+  listPrice?: number | null
+  salePrice?: number | null
+  currency?: string | null
+  priceOnRequest?: boolean | null
+
+  createdAt?: string | null
+}
+
+export interface PaginatedResponse<T> {
+  items: T[]
+  total: number
+  page?: number
+  limit?: number
+}
+
+export type ProductListResponse = PaginatedResponse<ProductApiDTO>
+
+export interface FacetOptionDTO {
+  slug: string
+  name: string
+  count: number
+}
+
+/**
+ * GET /v1/products/facets: cada faceta cuenta con todos los filtros
+ * menos el suyo, así se ve cuánto suma elegir otra opción (OR)
+ */
+export interface ProductFacetsResponse {
+  collections: FacetOptionDTO[]
+  categories: FacetOptionDTO[]
+  total: number
+}
+
+/** GET /v1/products/:id según versión del backend */
+export type ProductDetailResponse =
+  | { item: ProductApiDTO }
+  | { data: ProductApiDTO }
+  | { product: ProductApiDTO }
+  | ProductApiDTO
+
+export interface CategoryApiDTO {
+  id: string
+  name: string
+  slug: string
+}
+
+export interface CollectionApiDTO {
+  id: string
+  name: string
+  slug: string
+  description?: string | null
+  imageUrl?: string | null
+  productsCount?: number | null
+}
+
+/** Body de POST/PUT /v1/admin/products */
+export interface ProductPayload {
+  name: string
+  description: string
+  categoryId: string
+  collectionId: string
+  inStock: boolean
+  stockQty: number
+  /** Precios opcionales: null los borra, omitidos se conservan */
+  listPrice?: number | null
+  salePrice?: number | null
+  currency?: string
+  priceOnRequest?: boolean
+}
+
+/** Respuesta de POST/PUT /v1/admin/products/:id/images */
+export interface ProductImagesResponse {
+  images: string[]
+}
+
+/** Body de POST/PUT /v1/admin/categories */
+export interface CategoryPayload {
+  name: string
+  slug: string
+}
+
+/** Body de POST/PUT /v1/admin/collections (la imagen se sube aparte) */
+export interface CollectionPayload {
+  name: string
+  slug: string
+  description: string
+  /** null quita la imagen actual; omitido la conserva */
+  imageUrl?: string | null
+}
+
+/**
+ * DELETE de categoría/colección con productos:
+ * sin esto el backend responde 409; con un id los mueve ahí, con null los deja sin asignar
+ */
+export interface ReassignOptions {
+  reassignTo?: string | null
+}
+
+export interface ConsultationApiDTO {
+  id: string
+  createdAt: string
+  status?: string | null
+  items: {
+    productId: string
+    name?: string | null
+    qty: number
+    note?: string | null
+  }[]
+  contact?: {
+    name?: string | null
+    city?: string | null
+    delivery?: string | null
+  } | null
+  whatsappMessage?: string | null
+}
+
+export interface LoginResponse {
+  token: string
+}
@@ -1,5 +1,32 @@
 import { Product } from "./product";
 
+/* =======================
+   Carrito en memoria
+   ======================= */
 export interface CartItem extends Product {
-  qty: number;
+  quantity: number;
+  note?: string;
+}
+
+/* =======================
+   Carrito persistido (localStorage)
+   ======================= */
+
+/**
+ * Se guarda lo que elige el usuario; el resto se pide al catálogo.
+ * Nombre y precio son una copia de la última carga: sirven si la API no responde.
+ */
+export interface PersistedCartLine {
+  productId: string;
+  quantity: number;
+  note?: string;
+  name?: string;
+  unitPrice?: number;
+  currency?: string;
+}
+
+export interface PersistedCart {
+  version: number;
+  updatedAt: string;
+  items: PersistedCartLine[];
 }
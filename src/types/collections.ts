@@ -2,6 +2,7 @@ export interface Collection {
   id: string
   name: string
   slug: string
+  description?: string
   imageUrl?: string
   productsCount: number
 }
@@ -0,0 +1,23 @@
+export type ConsultationStatus = "new" | "answered" | "sold" | "discarded"
+
+export interface ConsultationItem {
+  productId: string
+  name: string
+  qty: number
+  note?: string
+}
+
+export interface ConsultationContactInfo {
+  name?: string
+  city?: string
+  delivery?: string
+}
+
+export interface Consultation {
+  id: string
+  createdAt: string
+  status: ConsultationStatus
+  items: ConsultationItem[]
+  contact?: ConsultationContactInfo
+  message: string
+}
@@ -2,7 +2,8 @@ export interface Product {
   id: string
   name: string
   description: string
-  image: string
+  image: string                    // portada (= images[0])
+  images: string[]                 // galería ordenada, la primera es la portada
   inStock: boolean
 
   // Lo que se muestra
@@ -13,10 +14,13 @@ export interface Product {
   categorySlug: string | null      // ej: "star-wars"
   collectionSlug: string | null    // ej: "rancor-battalion"
 
+  // Precio (opcional: sin listPrice se consulta por WhatsApp)
+  listPrice: number | null
+  salePrice: number | null         // oferta, solo vale si es menor a listPrice
+  currency: string                 // ISO 4217, ej: "ARS"
+  priceOnRequest: boolean          // oculta el precio aunque exista
+
   // Admin / interno
   stockQty?: number | null
-}
-
-export interface CartItem extends Product {
-  quantity: number
+  createdAt?: string | null        // ISO, fecha de alta
 }
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string
+  readonly VITE_WHATSAPP_PHONE?: string
+  /** "true" para usar el backend mock en memoria (src/mocks) */
+  readonly VITE_USE_MOCK_API?: string
+  /** Moneda por defecto de los precios (ISO 4217), ej: "ARS" */
+  readonly VITE_CURRENCY?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}